@@ -0,0 +1,2 @@
+ALTER TYPE "public"."registration_status" ADD VALUE 'waitlisted';--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "waitlist_position" integer;
\ No newline at end of file
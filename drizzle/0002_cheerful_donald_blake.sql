@@ -0,0 +1,18 @@
+CREATE TYPE "public"."series_registration_mode" AS ENUM('occurrence', 'series');--> statement-breakpoint
+CREATE TABLE "event_series" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organizer_id" uuid NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"recurrence_rule" varchar(500) NOT NULL,
+	"start_date" timestamp NOT NULL,
+	"time_zone" varchar(64) NOT NULL,
+	"exception_dates" jsonb,
+	"registration_mode" "series_registration_mode" DEFAULT 'occurrence' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "series_id" uuid;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "occurrence_date" timestamp;--> statement-breakpoint
+ALTER TABLE "event_series" ADD CONSTRAINT "event_series_organizer_id_users_id_fk" FOREIGN KEY ("organizer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "events" ADD CONSTRAINT "events_series_id_event_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "public"."event_series"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
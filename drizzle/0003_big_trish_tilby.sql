@@ -0,0 +1,26 @@
+CREATE TABLE "event_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" uuid NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"description" text,
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp NOT NULL,
+	"room" varchar(255),
+	"track" varchar(100),
+	"speakers" jsonb,
+	"max_participants" integer,
+	"current_participants" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "session_registrations" (
+	"session_id" uuid NOT NULL,
+	"registration_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "session_registrations_session_id_registration_id_pk" PRIMARY KEY("session_id","registration_id")
+);
+--> statement-breakpoint
+ALTER TABLE "event_sessions" ADD CONSTRAINT "event_sessions_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_registrations" ADD CONSTRAINT "session_registrations_session_id_event_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."event_sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_registrations" ADD CONSTRAINT "session_registrations_registration_id_event_registrations_id_fk" FOREIGN KEY ("registration_id") REFERENCES "public"."event_registrations"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
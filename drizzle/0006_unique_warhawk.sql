@@ -0,0 +1,4 @@
+ALTER TABLE "events" ADD COLUMN "cancelled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "cancelled_by" uuid;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "cancellation_reason" text;--> statement-breakpoint
+ALTER TABLE "events" ADD CONSTRAINT "events_cancelled_by_users_id_fk" FOREIGN KEY ("cancelled_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."registration_status" ADD VALUE 'no_show';
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TYPE "public"."approval_decision" AS ENUM('approved', 'rejected');--> statement-breakpoint
+CREATE TYPE "public"."approval_stage" AS ENUM('department', 'faculty', 'central');--> statement-breakpoint
+CREATE TABLE "approval_reviewers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"stage" "approval_stage" NOT NULL,
+	"faculty_id" uuid,
+	"department_id" uuid,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "event_approvals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" uuid NOT NULL,
+	"stage" "approval_stage" NOT NULL,
+	"reviewer_id" uuid NOT NULL,
+	"decision" "approval_decision" NOT NULL,
+	"comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "approval_stage" "approval_stage";--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "approval_stages" jsonb;--> statement-breakpoint
+ALTER TABLE "faculties" ADD COLUMN "approval_stages" jsonb;--> statement-breakpoint
+ALTER TABLE "approval_reviewers" ADD CONSTRAINT "approval_reviewers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "approval_reviewers" ADD CONSTRAINT "approval_reviewers_faculty_id_faculties_id_fk" FOREIGN KEY ("faculty_id") REFERENCES "public"."faculties"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "approval_reviewers" ADD CONSTRAINT "approval_reviewers_department_id_departments_id_fk" FOREIGN KEY ("department_id") REFERENCES "public"."departments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "approval_reviewers" ADD CONSTRAINT "approval_reviewers_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_approvals" ADD CONSTRAINT "event_approvals_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_approvals" ADD CONSTRAINT "event_approvals_reviewer_id_users_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
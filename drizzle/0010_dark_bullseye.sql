@@ -0,0 +1,17 @@
+CREATE TABLE "venues" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"faculty_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"building" varchar(255),
+	"address" varchar(500),
+	"capacity" integer NOT NULL,
+	"equipment" jsonb,
+	"accessibility" jsonb,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "venue_id" uuid;--> statement-breakpoint
+ALTER TABLE "venues" ADD CONSTRAINT "venues_faculty_id_faculties_id_fk" FOREIGN KEY ("faculty_id") REFERENCES "public"."faculties"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "events" ADD CONSTRAINT "events_venue_id_venues_id_fk" FOREIGN KEY ("venue_id") REFERENCES "public"."venues"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
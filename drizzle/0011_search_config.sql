@@ -0,0 +1,7 @@
+-- Full-text search configuration: Romanian stemming over unaccented words, so
+-- "muzica" matches "muzică" and word forms share a lexeme
+CREATE EXTENSION IF NOT EXISTS unaccent;--> statement-breakpoint
+CREATE TEXT SEARCH CONFIGURATION usv_search (COPY = romanian);--> statement-breakpoint
+ALTER TEXT SEARCH CONFIGURATION usv_search
+  ALTER MAPPING FOR hword, hword_part, word
+  WITH unaccent, romanian_stem;
@@ -0,0 +1 @@
+CREATE INDEX "events_search_idx" ON "events" USING gin ((setweight(to_tsvector('usv_search'::regconfig, coalesce("title", '')), 'A') || setweight(to_tsvector('usv_search'::regconfig, coalesce("short_description", '')), 'B') || setweight(jsonb_to_tsvector('usv_search'::regconfig, coalesce("tags", '[]'::jsonb), '["string"]'), 'C') || setweight(to_tsvector('usv_search'::regconfig, coalesce("description", '') || ' ' || coalesce("location", '')), 'D')));
\ No newline at end of file
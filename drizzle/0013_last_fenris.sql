@@ -0,0 +1,5 @@
+ALTER TABLE "events" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+ALTER TABLE "venues" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "venues" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+CREATE INDEX "events_location_idx" ON "events" USING btree ("latitude","longitude");
\ No newline at end of file
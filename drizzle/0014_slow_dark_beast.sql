@@ -0,0 +1,2 @@
+ALTER TABLE "event_registrations" ADD COLUMN "answers" jsonb;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "registration_form" jsonb;
\ No newline at end of file
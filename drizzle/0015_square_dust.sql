@@ -0,0 +1,20 @@
+CREATE TABLE "ticket_types" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"quota" integer NOT NULL,
+	"current_participants" integer DEFAULT 0 NOT NULL,
+	"sales_start_at" timestamp,
+	"sales_end_at" timestamp,
+	"allowed_roles" jsonb,
+	"allowed_faculty_ids" jsonb,
+	"allowed_email_domains" jsonb,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "ticket_type_id" uuid;--> statement-breakpoint
+ALTER TABLE "ticket_types" ADD CONSTRAINT "ticket_types_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD CONSTRAINT "event_registrations_ticket_type_id_ticket_types_id_fk" FOREIGN KEY ("ticket_type_id") REFERENCES "public"."ticket_types"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
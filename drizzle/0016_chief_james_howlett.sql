@@ -0,0 +1,8 @@
+ALTER TABLE "event_registrations" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "guest_name" varchar(200);--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "guest_email" varchar(255);--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "guest_token_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "guest_token_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "guest_confirmed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "allow_guests" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD CONSTRAINT "event_registrations_guest_token_hash_unique" UNIQUE("guest_token_hash");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TYPE "public"."registration_status" ADD VALUE 'rejected';--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "reviewed_by" uuid;--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "review_message" text;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "requires_approval" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD CONSTRAINT "event_registrations_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
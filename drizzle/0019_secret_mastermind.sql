@@ -0,0 +1,21 @@
+CREATE TYPE "public"."check_in_scan_result" AS ENUM('checked_in', 'duplicate', 'conflict', 'rejected');--> statement-breakpoint
+CREATE TABLE "check_in_scans" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" uuid NOT NULL,
+	"registration_id" uuid,
+	"device_id" varchar(100) NOT NULL,
+	"scan_id" varchar(100) NOT NULL,
+	"ticket_number" varchar(50),
+	"scanned_at" timestamp NOT NULL,
+	"uploaded_by" uuid NOT NULL,
+	"result" "check_in_scan_result" NOT NULL,
+	"reason" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "check_in_device_id" varchar(100);--> statement-breakpoint
+ALTER TABLE "check_in_scans" ADD CONSTRAINT "check_in_scans_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "check_in_scans" ADD CONSTRAINT "check_in_scans_registration_id_event_registrations_id_fk" FOREIGN KEY ("registration_id") REFERENCES "public"."event_registrations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "check_in_scans" ADD CONSTRAINT "check_in_scans_uploaded_by_users_id_fk" FOREIGN KEY ("uploaded_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "check_in_scans_device_scan_idx" ON "check_in_scans" USING btree ("device_id","scan_id");--> statement-breakpoint
+CREATE INDEX "check_in_scans_event_idx" ON "check_in_scans" USING btree ("event_id");
\ No newline at end of file
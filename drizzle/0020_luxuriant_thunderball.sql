@@ -0,0 +1,20 @@
+CREATE TYPE "public"."attendance_scan_type" AS ENUM('check_in', 'rescan', 'check_out');--> statement-breakpoint
+ALTER TYPE "public"."check_in_scan_result" ADD VALUE 'checked_out' BEFORE 'duplicate';--> statement-breakpoint
+CREATE TABLE "attendance_scans" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" uuid NOT NULL,
+	"registration_id" uuid NOT NULL,
+	"type" "attendance_scan_type" NOT NULL,
+	"scanned_at" timestamp NOT NULL,
+	"scanned_by" uuid NOT NULL,
+	"device_id" varchar(100),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "checked_out_at" timestamp;--> statement-breakpoint
+ALTER TABLE "event_registrations" ADD COLUMN "attendance_seconds" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "min_attendance_percent" integer;--> statement-breakpoint
+ALTER TABLE "attendance_scans" ADD CONSTRAINT "attendance_scans_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attendance_scans" ADD CONSTRAINT "attendance_scans_registration_id_event_registrations_id_fk" FOREIGN KEY ("registration_id") REFERENCES "public"."event_registrations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attendance_scans" ADD CONSTRAINT "attendance_scans_scanned_by_users_id_fk" FOREIGN KEY ("scanned_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "attendance_scans_registration_idx" ON "attendance_scans" USING btree ("registration_id","scanned_at");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "certificates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" uuid NOT NULL,
+	"registration_id" uuid NOT NULL,
+	"code" varchar(32) NOT NULL,
+	"recipient_name" varchar(200) NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"body" text NOT NULL,
+	"signatory_name" varchar(100),
+	"signatory_title" varchar(100),
+	"issued_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "certificates_registration_id_unique" UNIQUE("registration_id"),
+	CONSTRAINT "certificates_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "certificate_template" jsonb;--> statement-breakpoint
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_registration_id_event_registrations_id_fk" FOREIGN KEY ("registration_id") REFERENCES "public"."event_registrations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "certificates_event_idx" ON "certificates" USING btree ("event_id");
\ No newline at end of file
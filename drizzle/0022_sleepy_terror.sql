@@ -0,0 +1,11 @@
+-- Renumber existing waitlists 1..n so no two entries share a place
+UPDATE "event_registrations" SET "waitlist_position" = NULL WHERE "status" <> 'waitlisted';--> statement-breakpoint
+UPDATE "event_registrations" AS r SET "waitlist_position" = q."position"
+FROM (
+  SELECT "id", row_number() OVER (PARTITION BY "event_id" ORDER BY "waitlist_position" NULLS LAST, "created_at") AS "position"
+  FROM "event_registrations"
+  WHERE "status" = 'waitlisted'
+) AS q
+WHERE r."id" = q."id";--> statement-breakpoint
+-- Checked at commit rather than per row, so moving the whole queue up by one does not collide midway
+ALTER TABLE "event_registrations" ADD CONSTRAINT "event_registrations_waitlist_position_unique" UNIQUE("event_id","waitlist_position") DEFERRABLE INITIALLY DEFERRED;
@@ -0,0 +1 @@
+ALTER TABLE "event_approvals" ADD COLUMN "is_override" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE "rate_limits" (
+	"key" varchar(300) PRIMARY KEY NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	"window_started_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "event_registrations" ADD COLUMN "registered_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+-- Existing registrations count their attendance scans from when they were created
+UPDATE "event_registrations" SET "registered_at" = "created_at";
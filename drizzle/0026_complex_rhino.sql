@@ -0,0 +1,20 @@
+-- Duplicates left by concurrent guest sign-ups: cancel registrations still awaiting email
+-- confirmation (they hold no spot) when the email has a confirmed or an older one
+UPDATE "event_registrations" AS "duplicate"
+SET "status" = 'cancelled', "updated_at" = now()
+WHERE "duplicate"."guest_email" IS NOT NULL
+  AND "duplicate"."status" = 'pending'
+  AND "duplicate"."guest_confirmed_at" IS NULL
+  AND EXISTS (
+    SELECT 1 FROM "event_registrations" AS "kept"
+    WHERE "kept"."event_id" = "duplicate"."event_id"
+      AND "kept"."guest_email" = "duplicate"."guest_email"
+      AND "kept"."id" <> "duplicate"."id"
+      AND "kept"."status" <> 'cancelled'
+      AND (
+        "kept"."status" <> 'pending'
+        OR "kept"."guest_confirmed_at" IS NOT NULL
+        OR ("kept"."created_at", "kept"."id") < ("duplicate"."created_at", "duplicate"."id")
+      )
+  );--> statement-breakpoint
+CREATE UNIQUE INDEX "event_registrations_guest_email_idx" ON "event_registrations" USING btree ("event_id","guest_email") WHERE "event_registrations"."guest_email" is not null and "event_registrations"."status" <> 'cancelled';
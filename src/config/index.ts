@@ -25,6 +25,53 @@ export const config = {
     allowedDocumentTypes: ['application/pdf', 'application/vnd.ms-powerpoint', 'application/vnd.openxmlformats-officedocument.presentationml.presentation'],
   },
 
+  // Calendar defaults (wall-clock time zone for recurring events)
+  calendar: {
+    timeZone: process.env.CALENDAR_TIME_ZONE || 'Europe/Bucharest',
+  },
+
+  // Event series limits
+  recurrence: {
+    maxOccurrences: 100,
+  },
+
+  // Feedback can be submitted for this many days after an event ends
+  feedback: {
+    windowDays: parseInt(process.env.FEEDBACK_WINDOW_DAYS || '14', 10),
+  },
+
+  // Outgoing email (Resend HTTP API); without an API key messages are only logged
+  email: {
+    apiKey: process.env.EMAIL_API_KEY || '',
+    from: process.env.EMAIL_FROM || 'USV Events <events@usv.ro>',
+  },
+
+  // Links in emails point to the frontend
+  frontend: {
+    url: process.env.FRONTEND_URL || 'http://localhost:5173',
+  },
+
+  // Guest registrations must be confirmed through the emailed link within this many hours
+  guests: {
+    confirmationHours: 24,
+    // Each registration request sends an email, so they are limited per client IP and per email
+    registrationLimit: {
+      windowMs: 60 * 60 * 1000, // 1 hour
+      perIp: 10,
+      perEmail: 3,
+    },
+  },
+
+  // Ticket QR codes are signed with this Ed25519 private key (PKCS#8 PEM)
+  tickets: {
+    signingKey: process.env.TICKET_SIGNING_KEY || '',
+  },
+
+  // Scheduled jobs (called by Vercel Cron with this secret as bearer token)
+  jobs: {
+    cronSecret: process.env.CRON_SECRET || '',
+  },
+
   // Rate limiting
   rateLimit: {
     windowMs: 15 * 60 * 1000, // 15 minutes
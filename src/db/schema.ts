@@ -1,24 +1,37 @@
 import { relations, sql } from 'drizzle-orm';
 import {
   boolean,
+  doublePrecision,
+  index,
   integer,
   pgEnum,
   pgTable,
   primaryKey,
   text,
   timestamp,
+  unique,
+  uniqueIndex,
   uuid,
   varchar,
   jsonb,
   decimal,
 } from 'drizzle-orm/pg-core';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import type { RegistrationFormField, RegistrationAnswers, CertificateTemplate } from '../types';
 
 // ==================== ENUMS ====================
 
 export const userRoleEnum = pgEnum('user_role', ['student', 'organizer', 'admin']);
 export const eventStatusEnum = pgEnum('event_status', ['draft', 'pending', 'approved', 'rejected', 'cancelled', 'completed']);
 export const eventTypeEnum = pgEnum('event_type', ['academic', 'social', 'career', 'sports', 'volunteering', 'cultural', 'workshop', 'conference', 'other']);
-export const registrationStatusEnum = pgEnum('registration_status', ['pending', 'confirmed', 'cancelled', 'attended']);
+export const registrationStatusEnum = pgEnum('registration_status', ['pending', 'confirmed', 'cancelled', 'attended', 'waitlisted', 'no_show', 'rejected']);
+export const approvalStageEnum = pgEnum('approval_stage', ['department', 'faculty', 'central']);
+export const approvalDecisionEnum = pgEnum('approval_decision', ['approved', 'rejected']);
+export const eventStaffRoleEnum = pgEnum('event_staff_role', ['co_organizer', 'check_in_staff', 'viewer']);
+export const seriesRegistrationModeEnum = pgEnum('series_registration_mode', ['occurrence', 'series']);
+export const checkInScanResultEnum = pgEnum('check_in_scan_result', ['checked_in', 'checked_out', 'duplicate', 'conflict', 'rejected']);
+export const attendanceScanTypeEnum = pgEnum('attendance_scan_type', ['check_in', 'rescan', 'check_out']);
+export const teamInvitationStatusEnum = pgEnum('team_invitation_status', ['pending', 'accepted', 'declined', 'revoked']);
 export const notificationTypeEnum = pgEnum('notification_type', ['event_reminder', 'event_update', 'registration_confirmed', 'event_cancelled', 'recommendation', 'feedback_request']);
 
 // ==================== USERS TABLE ====================
@@ -36,6 +49,7 @@ export const users = pgTable('users', {
   bio: text('bio'),
   isActive: boolean('is_active').default(true).notNull(),
   emailVerified: boolean('email_verified').default(false).notNull(),
+  calendarToken: varchar('calendar_token', { length: 64 }).unique(), // Secret for the personal calendar feed
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -49,6 +63,7 @@ export const faculties = pgTable('faculties', {
   description: text('description'),
   website: varchar('website', { length: 255 }),
   contactEmail: varchar('contact_email', { length: 255 }),
+  approvalStages: jsonb('approval_stages').$type<('department' | 'faculty' | 'central')[]>(), // Review pipeline; defaults to department then faculty
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -64,6 +79,24 @@ export const departments = pgTable('departments', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// ==================== VENUES TABLE ====================
+
+export const venues = pgTable('venues', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  facultyId: uuid('faculty_id').references(() => faculties.id).notNull(),
+  name: varchar('name', { length: 255 }).notNull(), // e.g., 'Aula C001'
+  building: varchar('building', { length: 255 }),
+  address: varchar('address', { length: 500 }),
+  capacity: integer('capacity').notNull(),
+  equipment: jsonb('equipment').$type<string[]>(), // e.g., ['projector', 'microphone']
+  accessibility: jsonb('accessibility').$type<string[]>(), // e.g., ['wheelchair', 'hearing_loop']
+  latitude: doublePrecision('latitude'),
+  longitude: doublePrecision('longitude'),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // ==================== ORGANIZER PROFILES TABLE ====================
 
 export const organizerProfiles = pgTable('organizer_profiles', {
@@ -83,6 +116,25 @@ export const organizerProfiles = pgTable('organizer_profiles', {
 
 // ==================== EVENTS TABLE ====================
 
+// Text search configuration: Romanian stemming of unaccented words (created by a migration)
+export const searchConfig = sql.raw(`'usv_search'::regconfig`);
+
+interface SearchableEventColumns {
+  title: PgColumn;
+  shortDescription: PgColumn;
+  tags: PgColumn;
+  description: PgColumn;
+  location: PgColumn;
+}
+
+/**
+ * Weighted search document: title (A), short description (B), tags (C),
+ * description and location (D). Queries must use the same expression as the index.
+ */
+export function eventSearchDocument(table: SearchableEventColumns) {
+  return sql`(setweight(to_tsvector(${searchConfig}, coalesce(${table.title}, '')), 'A') || setweight(to_tsvector(${searchConfig}, coalesce(${table.shortDescription}, '')), 'B') || setweight(jsonb_to_tsvector(${searchConfig}, coalesce(${table.tags}, '[]'::jsonb), '["string"]'), 'C') || setweight(to_tsvector(${searchConfig}, coalesce(${table.description}, '') || ' ' || coalesce(${table.location}, '')), 'D'))`;
+}
+
 export const events = pgTable('events', {
   id: uuid('id').defaultRandom().primaryKey(),
   title: varchar('title', { length: 255 }).notNull(),
@@ -103,14 +155,24 @@ export const events = pgTable('events', {
   registrationDeadline: timestamp('registration_deadline'),
   
   // Location
+  venueId: uuid('venue_id').references(() => venues.id), // Booked room, checked for overlaps
   location: varchar('location', { length: 255 }).notNull(),
   address: varchar('address', { length: 500 }),
   isOnline: boolean('is_online').default(false).notNull(),
   onlineLink: varchar('online_link', { length: 500 }),
+  latitude: doublePrecision('latitude'), // Copied from the venue unless set explicitly
+  longitude: doublePrecision('longitude'),
   
   // Capacity
   maxParticipants: integer('max_participants'),
   currentParticipants: integer('current_participants').default(0).notNull(),
+  registrationForm: jsonb('registration_form').$type<RegistrationFormField[]>(), // Extra questions asked at registration
+  // Team events take registrations from teams; each team counts once against maxParticipants
+  minTeamSize: integer('min_team_size'),
+  maxTeamSize: integer('max_team_size'),
+  // Share of the scheduled time an attendee must be present to count as attended
+  minAttendancePercent: integer('min_attendance_percent'),
+  certificateTemplate: jsonb('certificate_template').$type<CertificateTemplate>(), // Attendance certificates; null when not offered
   
   // Media
   coverImage: varchar('cover_image', { length: 500 }),
@@ -120,33 +182,255 @@ export const events = pgTable('events', {
   approvedAt: timestamp('approved_at'),
   approvedBy: uuid('approved_by').references(() => users.id),
   rejectionReason: text('rejection_reason'),
+  approvalStage: approvalStageEnum('approval_stage'), // Current review stage while pending
+  approvalStages: jsonb('approval_stages').$type<('department' | 'faculty' | 'central')[]>(), // Pipeline fixed at submission
+  
+  // Cancellation
+  cancelledAt: timestamp('cancelled_at'),
+  cancelledBy: uuid('cancelled_by').references(() => users.id),
+  cancellationReason: text('cancellation_reason'),
+  
+  // Calendar exports (iCalendar SEQUENCE, bumped on reschedule or cancellation)
+  sequence: integer('sequence').default(0).notNull(),
   
   // Metadata
   tags: jsonb('tags').$type<string[]>(),
   requirements: text('requirements'),
   targetAudience: varchar('target_audience', { length: 255 }),
   isFeatured: boolean('is_featured').default(false).notNull(),
+  allowGuests: boolean('allow_guests').default(false).notNull(), // Guests register with name and email only
+  requiresApproval: boolean('requires_approval').default(false).notNull(), // Registrations stay pending until an organizer approves them
   
+  // Recurrence (occurrence of an event series)
+  seriesId: uuid('series_id').references(() => eventSeries.id),
+  occurrenceDate: timestamp('occurrence_date'), // originally scheduled start, like iCalendar RECURRENCE-ID
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('events_search_idx').using('gin', eventSearchDocument(table)),
+  index('events_location_idx').on(table.latitude, table.longitude),
+]);
+
+// ==================== EVENT SERIES TABLE ====================
+
+export const eventSeries = pgTable('event_series', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizerId: uuid('organizer_id').references(() => users.id).notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  recurrenceRule: varchar('recurrence_rule', { length: 500 }).notNull(), // RRULE value, e.g. FREQ=WEEKLY;BYDAY=MO;COUNT=10
+  startDate: timestamp('start_date').notNull(), // DTSTART of the first occurrence
+  timeZone: varchar('time_zone', { length: 64 }).notNull(),
+  exceptionDates: jsonb('exception_dates').$type<string[]>(), // local dates (YYYY-MM-DD) without an occurrence
+  registrationMode: seriesRegistrationModeEnum('registration_mode').default('occurrence').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// ==================== EVENT SESSIONS TABLE ====================
+
+export const eventSessions = pgTable('event_sessions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  eventId: uuid('event_id').references(() => events.id).notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  description: text('description'),
+  startDate: timestamp('start_date').notNull(),
+  endDate: timestamp('end_date').notNull(),
+  room: varchar('room', { length: 255 }),
+  track: varchar('track', { length: 100 }), // e.g., 'Main stage', 'Workshops'
+  maxParticipants: integer('max_participants'),
+  currentParticipants: integer('current_participants').default(0).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// ==================== SPEAKERS TABLE ====================
+
+export const speakers = pgTable('speakers', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  affiliation: varchar('affiliation', { length: 255 }),
+  bio: text('bio'),
+  photoUrl: varchar('photo_url', { length: 500 }),
+  links: jsonb('links').$type<Record<string, string>>(), // { website, linkedin, github, etc. }
+  createdBy: uuid('created_by').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// ==================== EVENT SPEAKERS TABLE ====================
+
+export const eventSpeakers = pgTable('event_speakers', {
+  eventId: uuid('event_id').references(() => events.id).notNull(),
+  speakerId: uuid('speaker_id').references(() => speakers.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.eventId, table.speakerId] }),
+]);
+
+// ==================== SESSION SPEAKERS TABLE ====================
+
+export const sessionSpeakers = pgTable('session_speakers', {
+  sessionId: uuid('session_id').references(() => eventSessions.id).notNull(),
+  speakerId: uuid('speaker_id').references(() => speakers.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.sessionId, table.speakerId] }),
+]);
+
+// ==================== TICKET TYPES TABLE ====================
+
+export const ticketTypes = pgTable('ticket_types', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  eventId: uuid('event_id').references(() => events.id).notNull(),
+  name: varchar('name', { length: 100 }).notNull(), // e.g., 'USV students', 'External guests', 'Staff'
+  description: text('description'),
+  quota: integer('quota').notNull(),
+  currentParticipants: integer('current_participants').default(0).notNull(),
+  salesStartAt: timestamp('sales_start_at'),
+  salesEndAt: timestamp('sales_end_at'),
+  // Eligibility; an empty or missing list does not restrict
+  allowedRoles: jsonb('allowed_roles').$type<('student' | 'organizer' | 'admin')[]>(),
+  allowedFacultyIds: jsonb('allowed_faculty_ids').$type<string[]>(),
+  allowedEmailDomains: jsonb('allowed_email_domains').$type<string[]>(), // e.g., ['student.usv.ro']
+  sortOrder: integer('sort_order').default(0).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// ==================== TEAMS TABLE ====================
+
+export const teams = pgTable('teams', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  eventId: uuid('event_id').references(() => events.id).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  captainId: uuid('captain_id').references(() => users.id).notNull(),
+  cancelledAt: timestamp('cancelled_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// ==================== TEAM INVITATIONS TABLE ====================
+
+export const teamInvitations = pgTable('team_invitations', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  teamId: uuid('team_id').references(() => teams.id).notNull(),
+  email: varchar('email', { length: 255 }).notNull(), // Invitees may not have an account yet
+  status: teamInvitationStatusEnum('status').default('pending').notNull(),
+  invitedBy: uuid('invited_by').references(() => users.id).notNull(),
+  respondedAt: timestamp('responded_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ==================== EVENT REGISTRATIONS TABLE ====================
 
 export const eventRegistrations = pgTable('event_registrations', {
   id: uuid('id').defaultRandom().primaryKey(),
   eventId: uuid('event_id').references(() => events.id).notNull(),
-  userId: uuid('user_id').references(() => users.id).notNull(),
+  userId: uuid('user_id').references(() => users.id), // Null for guest registrations
+  ticketTypeId: uuid('ticket_type_id').references(() => ticketTypes.id), // Required when the event sells ticket types
+  teamId: uuid('team_id').references(() => teams.id), // Set for members of a team on team events
   status: registrationStatusEnum('status').default('pending').notNull(),
   qrCode: varchar('qr_code', { length: 500 }).unique(),
   ticketNumber: varchar('ticket_number', { length: 50 }).unique(),
   checkedInAt: timestamp('checked_in_at'),
   checkedInBy: uuid('checked_in_by').references(() => users.id),
+  checkInDeviceId: varchar('check_in_device_id', { length: 100 }), // Scanner that recorded the check-in offline
+  checkedOutAt: timestamp('checked_out_at'), // Set while checked out, cleared on re-entry
+  attendanceSeconds: integer('attendance_seconds').default(0).notNull(), // Computed from attendance scans
+  waitlistPosition: integer('waitlist_position'), // 1-based queue position while status is 'waitlisted'
   notes: text('notes'),
+  answers: jsonb('answers').$type<RegistrationAnswers>(), // Answers to the event's registration form
+  
+  // Organizer decision on events that require approval
+  reviewedAt: timestamp('reviewed_at'),
+  reviewedBy: uuid('reviewed_by').references(() => users.id),
+  reviewMessage: text('review_message'), // Sent to the participant with the decision
+  
+  // Guests without an account confirm through an emailed magic link
+  guestName: varchar('guest_name', { length: 200 }),
+  guestEmail: varchar('guest_email', { length: 255 }),
+  guestTokenHash: varchar('guest_token_hash', { length: 64 }).unique(), // SHA-256 of the magic link token
+  guestTokenExpiresAt: timestamp('guest_token_expires_at'),
+  guestConfirmedAt: timestamp('guest_confirmed_at'),
+  registeredAt: timestamp('registered_at').defaultNow().notNull(), // Reset when a cancelled registration is reused; earlier attendance scans no longer count
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
   // Unique constraint: one registration per user per event
+  // One entry per waitlist place. Drizzle cannot declare it DEFERRABLE, so migration 0022 creates it
+  // DEFERRABLE INITIALLY DEFERRED: shiftWaitlist and moveWaitlistEntry renumber the queue in one statement and rely on it.
+  // Apply schema changes with db:migrate rather than db:push, which would recreate it non-deferrable,
+  // and keep DEFERRABLE INITIALLY DEFERRED in any generated migration that recreates it.
+  unique('event_registrations_waitlist_position_unique').on(table.eventId, table.waitlistPosition),
+  // One active guest registration per email and event, so concurrent sign-ups cannot both go through
+  uniqueIndex('event_registrations_guest_email_idx')
+    .on(table.eventId, table.guestEmail)
+    .where(sql`${table.guestEmail} is not null and ${table.status} <> 'cancelled'`),
+]);
+
+// ==================== CHECK-IN SCANS TABLE ====================
+
+// Scans uploaded by offline scanner devices; a device never uploads the same scan ID twice
+export const checkInScans = pgTable('check_in_scans', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  eventId: uuid('event_id').references(() => events.id).notNull(),
+  registrationId: uuid('registration_id').references(() => eventRegistrations.id), // Null when the ticket is unknown
+  deviceId: varchar('device_id', { length: 100 }).notNull(),
+  scanId: varchar('scan_id', { length: 100 }).notNull(), // Generated by the device
+  ticketNumber: varchar('ticket_number', { length: 50 }),
+  scannedAt: timestamp('scanned_at').notNull(), // Device clock
+  uploadedBy: uuid('uploaded_by').references(() => users.id).notNull(),
+  result: checkInScanResultEnum('result').notNull(),
+  reason: varchar('reason', { length: 255 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('check_in_scans_device_scan_idx').on(table.deviceId, table.scanId),
+  index('check_in_scans_event_idx').on(table.eventId),
+]);
+
+// ==================== ATTENDANCE SCANS TABLE ====================
+
+// Check-in, re-scan and check-out history each registration's attendance time is computed from
+export const attendanceScans = pgTable('attendance_scans', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  eventId: uuid('event_id').references(() => events.id).notNull(),
+  registrationId: uuid('registration_id').references(() => eventRegistrations.id).notNull(),
+  type: attendanceScanTypeEnum('type').notNull(),
+  scannedAt: timestamp('scanned_at').notNull(),
+  scannedBy: uuid('scanned_by').references(() => users.id).notNull(),
+  deviceId: varchar('device_id', { length: 100 }), // Set for scans synced from offline scanners
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('attendance_scans_registration_idx').on(table.registrationId, table.scannedAt),
+]);
+
+// ==================== CERTIFICATES TABLE ====================
+
+// Issued attendance certificates; the rendered texts are kept so a certificate never changes after issue
+export const certificates = pgTable('certificates', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  eventId: uuid('event_id').references(() => events.id).notNull(),
+  registrationId: uuid('registration_id').references(() => eventRegistrations.id).notNull().unique(),
+  code: varchar('code', { length: 32 }).notNull().unique(), // Public verification code
+  recipientName: varchar('recipient_name', { length: 200 }).notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  body: text('body').notNull(),
+  signatoryName: varchar('signatory_name', { length: 100 }),
+  signatoryTitle: varchar('signatory_title', { length: 100 }),
+  issuedAt: timestamp('issued_at').defaultNow().notNull(),
+}, (table) => [
+  index('certificates_event_idx').on(table.eventId),
+]);
+
+// ==================== SESSION REGISTRATIONS TABLE ====================
+
+export const sessionRegistrations = pgTable('session_registrations', {
+  sessionId: uuid('session_id').references(() => eventSessions.id).notNull(),
+  registrationId: uuid('registration_id').references(() => eventRegistrations.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.sessionId, table.registrationId] }),
 ]);
 
 // ==================== EVENT FAVORITES TABLE ====================
@@ -159,6 +443,45 @@ export const eventFavorites = pgTable('event_favorites', {
   primaryKey({ columns: [table.userId, table.eventId] }),
 ]);
 
+// ==================== EVENT STAFF TABLE ====================
+
+export const eventStaff = pgTable('event_staff', {
+  eventId: uuid('event_id').references(() => events.id).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  role: eventStaffRoleEnum('role').notNull(),
+  invitedBy: uuid('invited_by').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.eventId, table.userId] }),
+]);
+
+// ==================== APPROVAL REVIEWERS TABLE ====================
+
+export const approvalReviewers = pgTable('approval_reviewers', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  stage: approvalStageEnum('stage').notNull(),
+  facultyId: uuid('faculty_id').references(() => faculties.id), // Scope of the faculty stage
+  departmentId: uuid('department_id').references(() => departments.id), // Scope of the department stage
+  createdBy: uuid('created_by').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// ==================== EVENT APPROVALS TABLE ====================
+
+export const eventApprovals = pgTable('event_approvals', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  eventId: uuid('event_id').references(() => events.id).notNull(),
+  stage: approvalStageEnum('stage').notNull(),
+  reviewerId: uuid('reviewer_id').references(() => users.id).notNull(),
+  decision: approvalDecisionEnum('decision').notNull(),
+  comment: text('comment'),
+  // Admin decision on a department or faculty stage they are not assigned to
+  isOverride: boolean('is_override').default(false).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ==================== USER INTERESTS TABLE ====================
 
 export const userInterests = pgTable('user_interests', {
@@ -239,6 +562,15 @@ export const auditLogs = pgTable('audit_logs', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// ==================== RATE LIMITS TABLE ====================
+
+// Request counters for public endpoints, kept in the database so every serverless instance shares them
+export const rateLimits = pgTable('rate_limits', {
+  key: varchar('key', { length: 300 }).primaryKey(), // Scope and client, e.g. guest-registration:ip:203.0.113.7
+  count: integer('count').default(0).notNull(),
+  windowStartedAt: timestamp('window_started_at').defaultNow().notNull(),
+});
+
 // ==================== RELATIONS ====================
 
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -262,6 +594,15 @@ export const usersRelations = relations(users, ({ one, many }) => ({
 export const facultiesRelations = relations(faculties, ({ many }) => ({
   users: many(users),
   departments: many(departments),
+  venues: many(venues),
+  events: many(events),
+}));
+
+export const venuesRelations = relations(venues, ({ one, many }) => ({
+  faculty: one(faculties, {
+    fields: [venues.facultyId],
+    references: [faculties.id],
+  }),
   events: many(events),
 }));
 
@@ -297,21 +638,134 @@ export const eventsRelations = relations(events, ({ one, many }) => ({
     fields: [events.departmentId],
     references: [departments.id],
   }),
+  venue: one(venues, {
+    fields: [events.venueId],
+    references: [venues.id],
+  }),
   approver: one(users, {
     fields: [events.approvedBy],
     references: [users.id],
   }),
+  series: one(eventSeries, {
+    fields: [events.seriesId],
+    references: [eventSeries.id],
+  }),
+  sessions: many(eventSessions),
+  ticketTypes: many(ticketTypes),
+  teams: many(teams),
+  speakers: many(eventSpeakers),
+  staff: many(eventStaff),
+  approvals: many(eventApprovals),
   registrations: many(eventRegistrations),
   favorites: many(eventFavorites),
   feedback: many(eventFeedback),
   materials: many(eventMaterials),
 }));
 
-export const eventRegistrationsRelations = relations(eventRegistrations, ({ one }) => ({
+export const eventSeriesRelations = relations(eventSeries, ({ one, many }) => ({
+  organizer: one(users, {
+    fields: [eventSeries.organizerId],
+    references: [users.id],
+  }),
+  occurrences: many(events),
+}));
+
+export const eventSessionsRelations = relations(eventSessions, ({ one, many }) => ({
+  event: one(events, {
+    fields: [eventSessions.eventId],
+    references: [events.id],
+  }),
+  registrations: many(sessionRegistrations),
+  speakers: many(sessionSpeakers),
+}));
+
+export const speakersRelations = relations(speakers, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [speakers.createdBy],
+    references: [users.id],
+  }),
+  events: many(eventSpeakers),
+  sessions: many(sessionSpeakers),
+}));
+
+export const eventSpeakersRelations = relations(eventSpeakers, ({ one }) => ({
+  event: one(events, {
+    fields: [eventSpeakers.eventId],
+    references: [events.id],
+  }),
+  speaker: one(speakers, {
+    fields: [eventSpeakers.speakerId],
+    references: [speakers.id],
+  }),
+}));
+
+export const sessionSpeakersRelations = relations(sessionSpeakers, ({ one }) => ({
+  session: one(eventSessions, {
+    fields: [sessionSpeakers.sessionId],
+    references: [eventSessions.id],
+  }),
+  speaker: one(speakers, {
+    fields: [sessionSpeakers.speakerId],
+    references: [speakers.id],
+  }),
+}));
+
+export const sessionRegistrationsRelations = relations(sessionRegistrations, ({ one }) => ({
+  session: one(eventSessions, {
+    fields: [sessionRegistrations.sessionId],
+    references: [eventSessions.id],
+  }),
+  registration: one(eventRegistrations, {
+    fields: [sessionRegistrations.registrationId],
+    references: [eventRegistrations.id],
+  }),
+}));
+
+export const ticketTypesRelations = relations(ticketTypes, ({ one, many }) => ({
+  event: one(events, {
+    fields: [ticketTypes.eventId],
+    references: [events.id],
+  }),
+  registrations: many(eventRegistrations),
+}));
+
+export const teamsRelations = relations(teams, ({ one, many }) => ({
+  event: one(events, {
+    fields: [teams.eventId],
+    references: [events.id],
+  }),
+  captain: one(users, {
+    fields: [teams.captainId],
+    references: [users.id],
+  }),
+  members: many(eventRegistrations),
+  invitations: many(teamInvitations),
+}));
+
+export const teamInvitationsRelations = relations(teamInvitations, ({ one }) => ({
+  team: one(teams, {
+    fields: [teamInvitations.teamId],
+    references: [teams.id],
+  }),
+  inviter: one(users, {
+    fields: [teamInvitations.invitedBy],
+    references: [users.id],
+  }),
+}));
+
+export const eventRegistrationsRelations = relations(eventRegistrations, ({ one, many }) => ({
   event: one(events, {
     fields: [eventRegistrations.eventId],
     references: [events.id],
   }),
+  ticketType: one(ticketTypes, {
+    fields: [eventRegistrations.ticketTypeId],
+    references: [ticketTypes.id],
+  }),
+  team: one(teams, {
+    fields: [eventRegistrations.teamId],
+    references: [teams.id],
+  }),
   user: one(users, {
     fields: [eventRegistrations.userId],
     references: [users.id],
@@ -320,6 +774,55 @@ export const eventRegistrationsRelations = relations(eventRegistrations, ({ one
     fields: [eventRegistrations.checkedInBy],
     references: [users.id],
   }),
+  reviewer: one(users, {
+    fields: [eventRegistrations.reviewedBy],
+    references: [users.id],
+  }),
+  sessions: many(sessionRegistrations),
+  scans: many(checkInScans),
+  attendanceScans: many(attendanceScans),
+  certificate: one(certificates),
+}));
+
+export const certificatesRelations = relations(certificates, ({ one }) => ({
+  event: one(events, {
+    fields: [certificates.eventId],
+    references: [events.id],
+  }),
+  registration: one(eventRegistrations, {
+    fields: [certificates.registrationId],
+    references: [eventRegistrations.id],
+  }),
+}));
+
+export const attendanceScansRelations = relations(attendanceScans, ({ one }) => ({
+  event: one(events, {
+    fields: [attendanceScans.eventId],
+    references: [events.id],
+  }),
+  registration: one(eventRegistrations, {
+    fields: [attendanceScans.registrationId],
+    references: [eventRegistrations.id],
+  }),
+  scanner: one(users, {
+    fields: [attendanceScans.scannedBy],
+    references: [users.id],
+  }),
+}));
+
+export const checkInScansRelations = relations(checkInScans, ({ one }) => ({
+  event: one(events, {
+    fields: [checkInScans.eventId],
+    references: [events.id],
+  }),
+  registration: one(eventRegistrations, {
+    fields: [checkInScans.registrationId],
+    references: [eventRegistrations.id],
+  }),
+  uploader: one(users, {
+    fields: [checkInScans.uploadedBy],
+    references: [users.id],
+  }),
 }));
 
 export const eventFavoritesRelations = relations(eventFavorites, ({ one }) => ({
@@ -333,6 +836,47 @@ export const eventFavoritesRelations = relations(eventFavorites, ({ one }) => ({
   }),
 }));
 
+export const eventStaffRelations = relations(eventStaff, ({ one }) => ({
+  event: one(events, {
+    fields: [eventStaff.eventId],
+    references: [events.id],
+  }),
+  user: one(users, {
+    fields: [eventStaff.userId],
+    references: [users.id],
+  }),
+  inviter: one(users, {
+    fields: [eventStaff.invitedBy],
+    references: [users.id],
+  }),
+}));
+
+export const approvalReviewersRelations = relations(approvalReviewers, ({ one }) => ({
+  user: one(users, {
+    fields: [approvalReviewers.userId],
+    references: [users.id],
+  }),
+  faculty: one(faculties, {
+    fields: [approvalReviewers.facultyId],
+    references: [faculties.id],
+  }),
+  department: one(departments, {
+    fields: [approvalReviewers.departmentId],
+    references: [departments.id],
+  }),
+}));
+
+export const eventApprovalsRelations = relations(eventApprovals, ({ one }) => ({
+  event: one(events, {
+    fields: [eventApprovals.eventId],
+    references: [events.id],
+  }),
+  reviewer: one(users, {
+    fields: [eventApprovals.reviewerId],
+    references: [users.id],
+  }),
+}));
+
 export const userInterestsRelations = relations(userInterests, ({ one }) => ({
   user: one(users, {
     fields: [userInterests.userId],
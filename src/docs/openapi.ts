@@ -93,6 +93,14 @@ Authorization: Bearer <your_access_token>
       { name: 'Feedback', description: 'Event feedback endpoints' },
       { name: 'Notifications', description: 'Notification endpoints' },
       { name: 'Files', description: 'File/material management endpoints' },
+      { name: 'Series', description: 'Recurring event series endpoints' },
+      { name: 'Speakers', description: 'Speaker directory endpoints' },
+      { name: 'Jobs', description: 'Scheduled job endpoints (cron secret)' },
+      { name: 'Calendar', description: 'iCalendar exports and personal calendar feeds' },
+      { name: 'Approvals', description: 'Event approval reviewers (admin)' },
+      { name: 'Venues', description: 'Room registry and availability' },
+      { name: 'Tickets', description: 'Ticket signing keys for offline verification' },
+      { name: 'Certificates', description: 'Attendance certificates and their public verification' },
     ],
     components: {
       securitySchemes: {
@@ -215,15 +223,40 @@ Authorization: Bearer <your_access_token>
             startDate: { type: 'string', format: 'date-time' },
             endDate: { type: 'string', format: 'date-time' },
             registrationDeadline: { type: 'string', format: 'date-time', nullable: true },
+            venueId: { type: 'string', format: 'uuid', nullable: true },
             location: { type: 'string' },
             address: { type: 'string', nullable: true },
+            latitude: { type: 'number', nullable: true },
+            longitude: { type: 'number', nullable: true },
             isOnline: { type: 'boolean' },
             onlineLink: { type: 'string', nullable: true },
             maxParticipants: { type: 'integer', nullable: true },
             currentParticipants: { type: 'integer' },
+            registrationForm: { type: 'array', nullable: true, items: { $ref: '#/components/schemas/RegistrationFormField' } },
             coverImage: { type: 'string', nullable: true },
             tags: { type: 'array', items: { type: 'string' }, nullable: true },
             isFeatured: { type: 'boolean' },
+            allowGuests: { type: 'boolean', description: 'Whether people without an account can register' },
+            requiresApproval: { type: 'boolean', description: 'Whether registrations wait for an organizer to approve them' },
+            minTeamSize: { type: 'integer', nullable: true },
+            maxTeamSize: { type: 'integer', nullable: true, description: 'Set on team events, where each team counts once against maxParticipants' },
+            minAttendancePercent: { type: 'integer', nullable: true, description: 'Share of the scheduled time attendees must be present to count as attended' },
+            certificateTemplate: { allOf: [{ $ref: '#/components/schemas/CertificateTemplate' }], nullable: true },
+            cancelledAt: { type: 'string', format: 'date-time', nullable: true },
+            cancellationReason: { type: 'string', nullable: true, description: 'Shown as a banner on cancelled events' },
+            sequence: { type: 'integer', description: 'iCalendar SEQUENCE, increased on reschedule or cancellation' },
+            seriesId: { type: 'string', format: 'uuid', nullable: true },
+            occurrenceDate: { type: 'string', format: 'date-time', nullable: true },
+            highlight: {
+              type: 'object',
+              nullable: true,
+              description: 'Only in search results; HTML-escaped text with matches wrapped in <mark>',
+              properties: {
+                title: { type: 'string' },
+                snippet: { type: 'string' },
+              },
+            },
+            distanceKm: { type: 'number', description: 'Only in `near` searches' },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
           },
@@ -241,8 +274,11 @@ Authorization: Bearer <your_access_token>
             startDate: { type: 'string', format: 'date-time', example: '2024-03-15T10:00:00Z' },
             endDate: { type: 'string', format: 'date-time', example: '2024-03-15T14:00:00Z' },
             registrationDeadline: { type: 'string', format: 'date-time' },
+            venueId: { type: 'string', format: 'uuid', nullable: true, description: 'Room from the venue registry; overlapping pending or approved bookings are rejected with 409' },
             location: { type: 'string', example: 'Room A101, Building C' },
             address: { type: 'string' },
+            latitude: { type: 'number', minimum: -90, maximum: 90, description: 'Set together with longitude; copied from the venue when omitted' },
+            longitude: { type: 'number', minimum: -180, maximum: 180 },
             isOnline: { type: 'boolean', default: false },
             onlineLink: { type: 'string', format: 'uri' },
             maxParticipants: { type: 'integer', minimum: 1 },
@@ -250,8 +286,251 @@ Authorization: Bearer <your_access_token>
             tags: { type: 'array', items: { type: 'string' } },
             requirements: { type: 'string' },
             targetAudience: { type: 'string' },
+            registrationForm: { type: 'array', maxItems: 30, items: { $ref: '#/components/schemas/RegistrationFormField' }, description: 'Extra questions asked at registration' },
+            allowGuests: { type: 'boolean', default: false, description: 'Let people without an account register with name and email' },
+            requiresApproval: { type: 'boolean', default: false, description: 'Individual and guest registrations start as `pending` and take no spot until an organizer approves them. Not allowed on team events' },
+            minTeamSize: { type: 'integer', minimum: 1, maximum: 50, nullable: true, description: 'Requires maxTeamSize' },
+            maxTeamSize: { type: 'integer', minimum: 1, maximum: 50, nullable: true, description: 'Makes the event a team event; cannot be turned on or off once people have registered, nor combined with requiresApproval' },
+            minAttendancePercent: { type: 'integer', minimum: 1, maximum: 100, nullable: true, description: 'Minimum share of the scheduled time (the sessions, or the whole event without sessions) an attendee must be present; below it a check-in does not count as attended in statistics and feedback' },
+            certificateTemplate: { allOf: [{ $ref: '#/components/schemas/CertificateTemplate' }], nullable: true, description: 'Offer certificates of attendance; null turns them off' },
+            speakerIds: { type: 'array', items: { type: 'string', format: 'uuid' }, description: 'Speakers from the directory' },
+          },
+        },
+
+        // Event staff schemas
+        EventStaffMember: {
+          type: 'object',
+          properties: {
+            eventId: { type: 'string', format: 'uuid' },
+            userId: { type: 'string', format: 'uuid' },
+            role: {
+              type: 'string',
+              enum: ['co_organizer', 'check_in_staff', 'viewer'],
+              description: 'co_organizer: update, participants, check-in, stats, materials; check_in_staff: participants, check-in; viewer: participants, stats',
+            },
+            invitedBy: { type: 'string', format: 'uuid' },
+            user: { $ref: '#/components/schemas/User' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+
+        // Venue schemas
+        Venue: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            facultyId: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            building: { type: 'string', nullable: true },
+            address: { type: 'string', nullable: true },
+            latitude: { type: 'number', nullable: true },
+            longitude: { type: 'number', nullable: true },
+            capacity: { type: 'integer' },
+            equipment: { type: 'array', items: { type: 'string' }, nullable: true },
+            accessibility: { type: 'array', items: { type: 'string' }, nullable: true },
+            isActive: { type: 'boolean' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        CreateVenueInput: {
+          type: 'object',
+          required: ['facultyId', 'name', 'capacity'],
+          properties: {
+            facultyId: { type: 'string', format: 'uuid' },
+            name: { type: 'string', example: 'Aula C001' },
+            building: { type: 'string', example: 'Building C' },
+            address: { type: 'string' },
+            latitude: { type: 'number', minimum: -90, maximum: 90, description: 'Set together with longitude' },
+            longitude: { type: 'number', minimum: -180, maximum: 180 },
+            capacity: { type: 'integer', minimum: 1 },
+            equipment: { type: 'array', items: { type: 'string' }, example: ['projector', 'microphone'] },
+            accessibility: { type: 'array', items: { type: 'string' }, example: ['wheelchair', 'hearing_loop'] },
+          },
+        },
+
+        // Approval schemas
+        EventApproval: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            stage: { type: 'string', enum: ['department', 'faculty', 'central'] },
+            decision: { type: 'string', enum: ['approved', 'rejected'] },
+            comment: { type: 'string', nullable: true },
+            isOverride: { type: 'boolean', description: 'Admin decision on a stage they are not assigned to' },
+            reviewer: { $ref: '#/components/schemas/User' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        ApprovalReviewer: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            userId: { type: 'string', format: 'uuid' },
+            stage: { type: 'string', enum: ['department', 'faculty', 'central'] },
+            facultyId: { type: 'string', format: 'uuid', nullable: true },
+            departmentId: { type: 'string', format: 'uuid', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+
+        // Event revision schemas
+        EventRevision: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            action: { type: 'string', enum: ['event.updated', 'event.reviewed', 'event.cancelled', 'event.restored'] },
+            actor: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                firstName: { type: 'string' },
+                lastName: { type: 'string' },
+              },
+            },
+            changedFields: { type: 'array', items: { type: 'string' } },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        EventRevisionDiff: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            action: { type: 'string' },
+            actor: { type: 'object', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+            changes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string' },
+                  before: { nullable: true },
+                  after: { nullable: true },
+                },
+              },
+            },
+          },
+        },
+
+        // Speaker schemas
+        Speaker: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            affiliation: { type: 'string', nullable: true },
+            bio: { type: 'string', nullable: true },
+            photoUrl: { type: 'string', nullable: true },
+            links: { type: 'object', additionalProperties: { type: 'string' }, nullable: true },
+            createdBy: { type: 'string', format: 'uuid' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        CreateSpeakerInput: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', minLength: 2, maxLength: 255, example: 'Prof. Ana Popescu' },
+            affiliation: { type: 'string', maxLength: 255, example: 'Faculty of Electrical Engineering and Computer Science' },
+            bio: { type: 'string' },
+            photoUrl: { type: 'string', format: 'uri' },
+            links: { type: 'object', additionalProperties: { type: 'string', format: 'uri' }, example: { linkedin: 'https://linkedin.com/in/example' } },
+          },
+        },
+        SpeakerTalk: {
+          type: 'object',
+          properties: {
+            event: { $ref: '#/components/schemas/Event' },
+            session: { $ref: '#/components/schemas/EventSession', nullable: true },
+            startDate: { type: 'string', format: 'date-time' },
+            endDate: { type: 'string', format: 'date-time' },
+          },
+        },
+
+        // Session schemas
+        EventSession: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            eventId: { type: 'string', format: 'uuid' },
+            title: { type: 'string' },
+            description: { type: 'string', nullable: true },
+            startDate: { type: 'string', format: 'date-time' },
+            endDate: { type: 'string', format: 'date-time' },
+            room: { type: 'string', nullable: true },
+            track: { type: 'string', nullable: true },
+            speakers: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  speaker: { $ref: '#/components/schemas/Speaker' },
+                },
+              },
+            },
+            maxParticipants: { type: 'integer', nullable: true },
+            currentParticipants: { type: 'integer' },
+          },
+        },
+        CreateSessionInput: {
+          type: 'object',
+          required: ['title', 'startDate', 'endDate'],
+          properties: {
+            title: { type: 'string', minLength: 3, maxLength: 255, example: 'Keynote: The Future of AI' },
+            description: { type: 'string' },
+            startDate: { type: 'string', format: 'date-time', example: '2024-03-15T10:00:00Z' },
+            endDate: { type: 'string', format: 'date-time', example: '2024-03-15T11:00:00Z' },
+            room: { type: 'string', example: 'Aula Magna' },
+            track: { type: 'string', example: 'Main stage' },
+            speakerIds: { type: 'array', items: { type: 'string', format: 'uuid' } },
+            maxParticipants: { type: 'integer', minimum: 1 },
+          },
+        },
+
+        // Series schemas
+        EventSeries: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            organizerId: { type: 'string', format: 'uuid' },
+            title: { type: 'string' },
+            recurrenceRule: { type: 'string', example: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=TU;COUNT=12' },
+            startDate: { type: 'string', format: 'date-time' },
+            timeZone: { type: 'string', example: 'Europe/Bucharest' },
+            exceptionDates: { type: 'array', items: { type: 'string', format: 'date' }, nullable: true },
+            registrationMode: { type: 'string', enum: ['occurrence', 'series'] },
+            occurrences: { type: 'array', items: { $ref: '#/components/schemas/Event' } },
           },
         },
+        CreateSeriesInput: {
+          allOf: [
+            { $ref: '#/components/schemas/CreateEventInput' },
+            {
+              type: 'object',
+              required: ['recurrence'],
+              properties: {
+                recurrence: {
+                  type: 'object',
+                  required: ['frequency'],
+                  description: 'Exactly one of `until` or `count` is required. Dates of the first occurrence come from `startDate`/`endDate`.',
+                  properties: {
+                    frequency: { type: 'string', enum: ['weekly', 'monthly'] },
+                    interval: { type: 'integer', minimum: 1, maximum: 12, default: 1 },
+                    byWeekday: { type: 'array', items: { type: 'string', enum: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] } },
+                    byMonthDay: { type: 'integer', minimum: 1, maximum: 31 },
+                    bySetPos: { type: 'integer', minimum: -1, maximum: 5, description: 'Monthly only, e.g. 1 with byWeekday [MO] for the first Monday, -1 for the last' },
+                    until: { type: 'string', format: 'date-time' },
+                    count: { type: 'integer', minimum: 1 },
+                    exceptions: { type: 'array', items: { type: 'string', format: 'date' }, description: 'Local dates to skip' },
+                  },
+                },
+                registrationMode: { type: 'string', enum: ['occurrence', 'series'], default: 'occurrence' },
+              },
+            },
+          ],
+        },
 
         // Registration schemas
         EventRegistration: {
@@ -259,14 +538,150 @@ Authorization: Bearer <your_access_token>
           properties: {
             id: { type: 'string', format: 'uuid' },
             eventId: { type: 'string', format: 'uuid' },
-            userId: { type: 'string', format: 'uuid' },
-            status: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'attended'] },
-            ticketNumber: { type: 'string' },
-            qrCode: { type: 'string' },
-            checkedInAt: { type: 'string', format: 'date-time', nullable: true },
+            userId: { type: 'string', format: 'uuid', nullable: true, description: 'Null for guest registrations' },
+            status: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'attended', 'waitlisted', 'no_show', 'rejected'], description: '`pending` means awaiting the organizer\'s approval, or for guests without guestConfirmedAt, email confirmation' },
+            ticketNumber: { type: 'string', nullable: true },
+            qrCode: { type: 'string', nullable: true, description: 'Compact JWS (EdDSA) with claims sub (registration ID), eid (event ID), tno (ticket number) and iat' },
+            waitlistPosition: { type: 'integer', nullable: true, description: 'Queue position while waitlisted' },
+            checkedInAt: { type: 'string', format: 'date-time', nullable: true, description: 'First check-in' },
+            checkedOutAt: { type: 'string', format: 'date-time', nullable: true, description: 'Set while checked out' },
+            attendanceSeconds: { type: 'integer', description: 'Time present during the scheduled time, from check-ins to check-outs; a stay without check-out counts until its last re-scan' },
+            registeredAt: { type: 'string', format: 'date-time', description: 'When the registration was made, or last made again after a cancellation; only scans since then count toward attendance' },
+            ticketTypeId: { type: 'string', format: 'uuid', nullable: true },
+            teamId: { type: 'string', format: 'uuid', nullable: true, description: 'Set for team members on team events' },
+            guestName: { type: 'string', nullable: true },
+            guestEmail: { type: 'string', format: 'email', nullable: true },
+            guestConfirmedAt: { type: 'string', format: 'date-time', nullable: true },
+            reviewedAt: { type: 'string', format: 'date-time', nullable: true, description: 'When an organizer approved or rejected the registration' },
+            reviewMessage: { type: 'string', nullable: true },
+            notes: { type: 'string', nullable: true },
+            answers: {
+              type: 'object',
+              nullable: true,
+              description: 'Answers to the registration form keyed by field key',
+              additionalProperties: {},
+            },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        TicketType: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            eventId: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            description: { type: 'string', nullable: true },
+            quota: { type: 'integer' },
+            currentParticipants: { type: 'integer' },
+            remaining: { type: 'integer' },
+            isOnSale: { type: 'boolean' },
+            isEligible: { type: 'boolean', description: 'Only for signed-in users' },
+            salesStartAt: { type: 'string', format: 'date-time', nullable: true },
+            salesEndAt: { type: 'string', format: 'date-time', nullable: true },
+            allowedRoles: { type: 'array', items: { type: 'string' }, nullable: true },
+            allowedFacultyIds: { type: 'array', items: { type: 'string', format: 'uuid' }, nullable: true },
+            allowedEmailDomains: { type: 'array', items: { type: 'string' }, nullable: true },
+            sortOrder: { type: 'integer' },
+          },
+        },
+        CreateTicketTypeInput: {
+          type: 'object',
+          required: ['name', 'quota'],
+          properties: {
+            name: { type: 'string', example: 'USV students' },
+            description: { type: 'string' },
+            quota: { type: 'integer', minimum: 1, example: 100 },
+            salesStartAt: { type: 'string', format: 'date-time', nullable: true },
+            salesEndAt: { type: 'string', format: 'date-time', nullable: true },
+            allowedRoles: { type: 'array', items: { type: 'string', enum: ['student', 'organizer', 'admin'] }, description: 'Empty or omitted means any role' },
+            allowedFacultyIds: { type: 'array', items: { type: 'string', format: 'uuid' } },
+            allowedEmailDomains: { type: 'array', items: { type: 'string' }, example: ['student.usv.ro'] },
+            sortOrder: { type: 'integer', minimum: 0 },
+          },
+        },
+        Team: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            eventId: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            captainId: { type: 'string', format: 'uuid' },
+            members: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', format: 'uuid', description: 'Registration ID' },
+                  status: { type: 'string', enum: ['confirmed', 'attended'] },
+                  ticketNumber: { type: 'string' },
+                  checkedInAt: { type: 'string', format: 'date-time', nullable: true },
+                  isCaptain: { type: 'boolean' },
+                  user: { $ref: '#/components/schemas/User' },
+                },
+              },
+            },
+            invitations: {
+              type: 'array',
+              description: 'Pending invitations, which hold a place in the team',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', format: 'uuid' },
+                  email: { type: 'string', format: 'email' },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+            size: { type: 'integer' },
+            minTeamSize: { type: 'integer' },
+            maxTeamSize: { type: 'integer' },
+            isComplete: { type: 'boolean', description: 'Whether the team has at least minTeamSize members' },
+            checkedIn: { type: 'integer' },
             createdAt: { type: 'string', format: 'date-time' },
           },
         },
+        RegistrationFormField: {
+          type: 'object',
+          required: ['key', 'label', 'type'],
+          properties: {
+            key: { type: 'string', pattern: '^[a-z][a-z0-9_]{0,49}$', example: 'tshirt_size' },
+            label: { type: 'string', example: 'T-shirt size' },
+            type: { type: 'string', enum: ['text', 'choice', 'multi_choice', 'number', 'checkbox'] },
+            required: { type: 'boolean', default: false, description: 'A required checkbox must be ticked' },
+            options: { type: 'array', items: { type: 'string' }, description: 'Choices for choice and multi_choice fields', example: ['S', 'M', 'L', 'XL'] },
+            min: { type: 'number', description: 'Number fields' },
+            max: { type: 'number', description: 'Number fields' },
+            maxLength: { type: 'integer', maximum: 5000, description: 'Text fields; defaults to 1000' },
+          },
+        },
+
+        CertificateTemplate: {
+          type: 'object',
+          required: ['title', 'body'],
+          description: 'Texts may use the placeholders {{name}}, {{event}}, {{date}}, {{location}}, {{hours}} and {{organizer}}',
+          properties: {
+            enabled: { type: 'boolean', default: true },
+            title: { type: 'string', minLength: 3, maxLength: 100, example: 'Certificate of Attendance' },
+            body: { type: 'string', minLength: 10, maxLength: 2000, example: 'This is to certify that {{name}} attended "{{event}}", held on {{date}} at {{location}}, for {{hours}} hours.' },
+            signatoryName: { type: 'string', maxLength: 100 },
+            signatoryTitle: { type: 'string', maxLength: 100 },
+          },
+        },
+        Certificate: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            eventId: { type: 'string', format: 'uuid' },
+            registrationId: { type: 'string', format: 'uuid' },
+            code: { type: 'string', example: 'CERT-7KQ2-M9XD-4HPA' },
+            recipientName: { type: 'string' },
+            title: { type: 'string' },
+            body: { type: 'string', description: 'Template text with the placeholders filled in when issued' },
+            signatoryName: { type: 'string', nullable: true },
+            signatoryTitle: { type: 'string', nullable: true },
+            issuedAt: { type: 'string', format: 'date-time' },
+          },
+        },
 
         // Faculty schemas
         Faculty: {
@@ -278,6 +693,12 @@ Authorization: Bearer <your_access_token>
             description: { type: 'string', nullable: true },
             website: { type: 'string', nullable: true },
             contactEmail: { type: 'string', nullable: true },
+            approvalStages: {
+              type: 'array',
+              nullable: true,
+              items: { type: 'string', enum: ['department', 'faculty', 'central'] },
+              description: 'Review stages for events of this faculty; null means department then faculty',
+            },
             createdAt: { type: 'string', format: 'date-time' },
           },
         },
@@ -290,6 +711,11 @@ Authorization: Bearer <your_access_token>
             description: { type: 'string' },
             website: { type: 'string', format: 'uri' },
             contactEmail: { type: 'string', format: 'email' },
+            approvalStages: {
+              type: 'array',
+              items: { type: 'string', enum: ['department', 'faculty', 'central'] },
+              description: 'Stages run in the order department, faculty, central. Stages without assigned reviewers are skipped.',
+            },
           },
         },
 
@@ -766,19 +1192,22 @@ Authorization: Bearer <your_access_token>
         get: {
           tags: ['Events'],
           summary: 'List events',
-          description: 'List all approved events with filtering and pagination',
+          description: 'List all approved and cancelled events with filtering and pagination',
           parameters: [
             { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
             { name: 'limit', in: 'query', schema: { type: 'integer', default: 20, maximum: 100 } },
             { name: 'type', in: 'query', schema: { type: 'string', enum: ['academic', 'social', 'career', 'sports', 'volunteering', 'cultural', 'workshop', 'conference', 'other'] } },
             { name: 'facultyId', in: 'query', schema: { type: 'string', format: 'uuid' } },
             { name: 'departmentId', in: 'query', schema: { type: 'string', format: 'uuid' } },
+            { name: 'speakerId', in: 'query', schema: { type: 'string', format: 'uuid' }, description: 'Events where the speaker gives the event or one of its sessions' },
             { name: 'startDateFrom', in: 'query', schema: { type: 'string', format: 'date-time' } },
             { name: 'startDateTo', in: 'query', schema: { type: 'string', format: 'date-time' } },
             { name: 'isOnline', in: 'query', schema: { type: 'boolean' } },
             { name: 'isFeatured', in: 'query', schema: { type: 'boolean' } },
-            { name: 'search', in: 'query', schema: { type: 'string' }, description: 'Search in title, description, location' },
-            { name: 'sortBy', in: 'query', schema: { type: 'string', enum: ['startDate', 'createdAt', 'title'], default: 'startDate' } },
+            { name: 'search', in: 'query', schema: { type: 'string', maxLength: 200 }, description: 'Full-text search, accent-insensitive with word forms (title > short description > tags > description and location). Supports "quoted phrases", OR and -exclusions. Each result gets a `highlight` with the marked title and a description snippet.' },
+            { name: 'near', in: 'query', schema: { type: 'string', example: '47.6418,26.2574' }, description: 'Only events within `radiusKm` of this "lat,lng" point; each result gets a `distanceKm`' },
+            { name: 'radiusKm', in: 'query', schema: { type: 'number', default: 10, maximum: 500 } },
+            { name: 'sortBy', in: 'query', schema: { type: 'string', enum: ['relevance', 'distance', 'startDate', 'createdAt', 'title'] }, description: 'Defaults to relevance (best first) when searching, distance with `near`, otherwise startDate' },
             { name: 'sortOrder', in: 'query', schema: { type: 'string', enum: ['asc', 'desc'], default: 'asc' } },
           ],
           responses: {
@@ -823,15 +1252,104 @@ Authorization: Bearer <your_access_token>
             '403': {
               description: 'Forbidden - Organizer access required',
             },
+            '409': {
+              description: 'The room is already booked for this time',
+            },
+          },
+        },
+      },
+      '/api/v1/events/search/suggest': {
+        get: {
+          tags: ['Events'],
+          summary: 'Search autocomplete',
+          description: 'Public events whose title contains words starting with the typed prefixes, upcoming events first',
+          parameters: [
+            { name: 'q', in: 'query', required: true, schema: { type: 'string', minLength: 2, maxLength: 100 } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 8, maximum: 20 } },
+          ],
+          responses: {
+            '200': {
+              description: 'Suggested events',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            id: { type: 'string', format: 'uuid' },
+                            title: { type: 'string' },
+                            slug: { type: 'string' },
+                            startDate: { type: 'string', format: 'date-time' },
+                            status: { type: 'string' },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/events/map': {
+        get: {
+          tags: ['Events'],
+          summary: 'Map markers',
+          description: 'Upcoming approved events with coordinates inside the bounding box, grouped on a 16x16 grid. Cells with a single event return the event; others return a cluster with its count and centre.',
+          parameters: [
+            { name: 'bbox', in: 'query', required: true, schema: { type: 'string', example: '26.20,47.62,26.30,47.67' }, description: '"minLng,minLat,maxLng,maxLat"' },
+            { name: 'type', in: 'query', schema: { type: 'string' } },
+            { name: 'facultyId', in: 'query', schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Markers',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            kind: { type: 'string', enum: ['event', 'cluster'] },
+                            id: { type: 'string', format: 'uuid', description: 'Events only' },
+                            title: { type: 'string', description: 'Events only' },
+                            slug: { type: 'string', description: 'Events only' },
+                            type: { type: 'string', description: 'Events only' },
+                            count: { type: 'integer', description: 'Clusters only' },
+                            latitude: { type: 'number' },
+                            longitude: { type: 'number' },
+                            startDate: { type: 'string', format: 'date-time', description: 'Earliest start in the cell' },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
           },
         },
       },
       '/api/v1/events/pending': {
         get: {
           tags: ['Events'],
-          summary: 'List pending events (Admin)',
-          description: 'List events awaiting approval. Admin only.',
+          summary: 'Review queue',
+          description: 'Pending events at a stage the user reviews: department reviewers see their departments, faculty reviewers their faculties, central reviewers and admins the central queue. Admins see every pending event.',
           security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'stage', in: 'query', schema: { type: 'string', enum: ['department', 'faculty', 'central'] } },
+          ],
           responses: {
             '200': {
               description: 'List of pending events',
@@ -852,6 +1370,19 @@ Authorization: Bearer <your_access_token>
           },
         },
       },
+      '/api/v1/events/staffing': {
+        get: {
+          tags: ['Events'],
+          summary: 'My staff events',
+          description: 'Get events the authenticated user is staff for, with their staff role',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            '200': {
+              description: 'List of events with staffRole',
+            },
+          },
+        },
+      },
       '/api/v1/events/registrations': {
         get: {
           tags: ['Events'],
@@ -878,23 +1409,109 @@ Authorization: Bearer <your_access_token>
           },
         },
       },
-      '/api/v1/events/{id}': {
-        get: {
+      '/api/v1/events/import': {
+        post: {
           tags: ['Events'],
-          summary: 'Get event by ID',
-          description: 'Get a single event by its ID',
-          parameters: [
-            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
-          ],
-          responses: {
-            '200': {
-              description: 'Event details',
-              content: {
-                'application/json': {
-                  schema: {
-                    type: 'object',
-                    properties: {
-                      success: { type: 'boolean' },
+          summary: 'Import events from CSV or XLSX (Organizer)',
+          description: 'Validates every row of a file with a header row like a created event. Columns: title, description, shortDescription, type, faculty (abbreviation or name), department (name), startDate, endDate, registrationDeadline, location, address, isOnline, onlineLink, latitude, longitude, maxParticipants, coverImage, tags (separated by commas or semicolons), requirements, targetAudience, allowGuests, requiresApproval, minAttendancePercent. Dates may be ISO, `YYYY-MM-DD HH:mm` or `DD.MM.YYYY HH:mm` in the calendar time zone, or spreadsheet dates. A dry run (the default) only reports errors per row; with `dryRun=false` the valid rows are created together as drafts and invalid rows are skipped.',
+          security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: ['file'],
+                  properties: {
+                    file: { type: 'string', format: 'binary', description: 'CSV (comma or semicolon separated, UTF-8) or XLSX, at most 2 MB and 500 rows' },
+                    dryRun: { type: 'string', enum: ['true', 'false'], default: 'true' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Validation report (dry run)',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          dryRun: { type: 'boolean' },
+                          total: { type: 'integer' },
+                          valid: { type: 'integer' },
+                          invalid: { type: 'integer' },
+                          ignoredColumns: { type: 'array', items: { type: 'string' } },
+                          rows: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                row: { type: 'integer', description: 'Spreadsheet row number' },
+                                title: { type: 'string', nullable: true },
+                                valid: { type: 'boolean' },
+                                errors: {
+                                  type: 'array',
+                                  items: {
+                                    type: 'object',
+                                    properties: {
+                                      field: { type: 'string' },
+                                      message: { type: 'string' },
+                                    },
+                                  },
+                                },
+                              },
+                            },
+                          },
+                          created: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                id: { type: 'string', format: 'uuid' },
+                                title: { type: 'string' },
+                                slug: { type: 'string' },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '201': {
+              description: 'Valid rows created as drafts, with the same report',
+            },
+            '400': {
+              description: 'Unreadable file, no recognizable columns or too many rows',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}': {
+        get: {
+          tags: ['Events'],
+          summary: 'Get event by ID',
+          description: 'Get a single event by its ID, including its agenda (`sessions`, ordered by start date)',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Event details',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
                       data: { $ref: '#/components/schemas/Event' },
                     },
                   },
@@ -909,10 +1526,11 @@ Authorization: Bearer <your_access_token>
         patch: {
           tags: ['Events'],
           summary: 'Update event',
-          description: 'Update an event. Only the organizer or admin can update.',
+          description: 'Update an event. Only the organizer or admin can update. For occurrences of a series, `scope` selects whether only this occurrence, this and following, or all occurrences change; date changes are applied as a shift. Series scopes return the list of updated occurrences.',
           security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'scope', in: 'query', schema: { type: 'string', enum: ['this', 'following', 'all'], default: 'this' } },
           ],
           requestBody: {
             required: true,
@@ -929,12 +1547,15 @@ Authorization: Bearer <your_access_token>
             '403': {
               description: 'Forbidden',
             },
+            '409': {
+              description: 'The room is already booked for this time',
+            },
           },
         },
         delete: {
           tags: ['Events'],
           summary: 'Delete event',
-          description: 'Delete an event. Only the organizer or admin can delete.',
+          description: 'Delete an event with its agenda, speakers, staff, approval history, ticket types and materials. Only the organizer or admin can delete. Events with registrations cannot be deleted; cancel them instead.',
           security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
@@ -943,6 +1564,32 @@ Authorization: Bearer <your_access_token>
             '200': {
               description: 'Event deleted successfully',
             },
+            '409': {
+              description: 'The event has registrations',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/calendar.ics': {
+        get: {
+          tags: ['Calendar'],
+          summary: 'Export event to calendar',
+          description: 'Download the event as an iCalendar (.ics) file. The UID is stable per event and SEQUENCE increases when the event is rescheduled or cancelled.',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'iCalendar file',
+              content: {
+                'text/calendar': {
+                  schema: { type: 'string' },
+                },
+              },
+            },
+            '404': {
+              description: 'Event not found',
+            },
           },
         },
       },
@@ -959,14 +1606,58 @@ Authorization: Bearer <your_access_token>
             '200': {
               description: 'Event submitted for approval',
             },
+            '409': {
+              description: 'The room is already booked for this time',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/cancel': {
+        post: {
+          tags: ['Events'],
+          summary: 'Cancel event',
+          description: 'Cancel an event (organizer or admin). Active registrations are cancelled and registrants and favoriters receive an `event_cancelled` notification. The event stays listed with status `cancelled` and its cancellation reason.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['reason'],
+                  properties: {
+                    reason: { type: 'string', minLength: 10, maxLength: 1000, example: 'The speaker is unavailable due to illness.' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Event cancelled',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/Event' },
+                    },
+                  },
+                },
+              },
+            },
           },
         },
       },
       '/api/v1/events/{id}/review': {
         post: {
           tags: ['Events'],
-          summary: 'Review event (Admin)',
-          description: 'Approve or reject an event. Admin only.',
+          summary: 'Review event stage',
+          description: 'Approve or reject the current approval stage. Department and faculty stages are reviewed by their assigned reviewers and central review by central reviewers or admins; admins can decide any other stage with `override`, which is recorded on the decision. Approving the last stage approves the event; rejecting any stage rejects it.',
           security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
@@ -980,7 +1671,9 @@ Authorization: Bearer <your_access_token>
                   required: ['status'],
                   properties: {
                     status: { type: 'string', enum: ['approved', 'rejected'] },
+                    comment: { type: 'string', maxLength: 2000 },
                     rejectionReason: { type: 'string' },
+                    override: { type: 'boolean', default: false, description: 'Admins only: decide a department or faculty stage without being assigned to it' },
                   },
                 },
               },
@@ -990,6 +1683,45 @@ Authorization: Bearer <your_access_token>
             '200': {
               description: 'Event reviewed successfully',
             },
+            '403': {
+              description: 'Not a reviewer for the current stage',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/approvals': {
+        get: {
+          tags: ['Events'],
+          summary: 'Get approval progress',
+          description: 'Pipeline stages, current stage and every reviewer decision with comments (organizer, staff, reviewers or admin)',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Approval progress',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          eventId: { type: 'string', format: 'uuid' },
+                          status: { type: 'string' },
+                          stages: { type: 'array', items: { type: 'string', enum: ['department', 'faculty', 'central'] } },
+                          currentStage: { type: 'string', nullable: true, enum: ['department', 'faculty', 'central'] },
+                          decisions: { type: 'array', items: { $ref: '#/components/schemas/EventApproval' } },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
           },
         },
       },
@@ -997,7 +1729,7 @@ Authorization: Bearer <your_access_token>
         post: {
           tags: ['Events'],
           summary: 'Register for event',
-          description: 'Register the authenticated user for an event',
+          description: 'Register the authenticated user for an event. If the event or the chosen ticket type is full, the user is placed on the waitlist and the registration is returned with status `waitlisted` and a `waitlistPosition`. On events that require approval the registration is returned as `pending` without a ticket until an organizer approves it.',
           security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
@@ -1009,6 +1741,13 @@ Authorization: Bearer <your_access_token>
                   type: 'object',
                   properties: {
                     notes: { type: 'string', maxLength: 500 },
+                    ticketTypeId: { type: 'string', format: 'uuid', description: 'Required when the event has ticket types' },
+                    answers: {
+                      type: 'object',
+                      description: 'Answers to the event registration form keyed by field key: strings for text and choice, arrays for multi_choice, numbers and booleans',
+                      additionalProperties: {},
+                      example: { tshirt_size: 'M', study_year: 2, dietary: ['vegetarian'] },
+                    },
                   },
                 },
               },
@@ -1030,14 +1769,14 @@ Authorization: Bearer <your_access_token>
               },
             },
             '400': {
-              description: 'Registration failed (event full, deadline passed, etc.)',
+              description: 'Registration failed (deadline passed, missing or invalid form answers, etc.)',
             },
           },
         },
         delete: {
           tags: ['Events'],
           summary: 'Cancel registration',
-          description: 'Cancel the authenticated user registration for an event',
+          description: 'Cancel the authenticated user registration for an event. A freed spot is given to the next person on the waitlist, who receives a ticket and a notification.',
           security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
@@ -1049,29 +1788,11 @@ Authorization: Bearer <your_access_token>
           },
         },
       },
-      '/api/v1/events/{id}/participants': {
-        get: {
-          tags: ['Events'],
-          summary: 'Get event participants (Organizer)',
-          description: 'Get list of participants for an event. Only organizer or admin.',
-          security: [{ bearerAuth: [] }],
-          parameters: [
-            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
-            { name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'attended'] } },
-          ],
-          responses: {
-            '200': {
-              description: 'List of participants',
-            },
-          },
-        },
-      },
-      '/api/v1/events/{id}/check-in': {
+      '/api/v1/events/{id}/guest-registrations': {
         post: {
           tags: ['Events'],
-          summary: 'Check-in participant (Organizer)',
-          description: 'Check-in a participant using ticket number or QR code',
-          security: [{ bearerAuth: [] }],
+          summary: 'Register as guest',
+          description: 'Register without an account on events that allow guests; team events only take registered users. The registration stays `pending` until the guest opens the emailed confirmation link. Registering again before confirming, or after a cancellation, sends a new link. Emails that belong to an account must sign in instead. Requests are limited per client IP and per email.',
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
           ],
@@ -1081,33 +1802,21 @@ Authorization: Bearer <your_access_token>
               'application/json': {
                 schema: {
                   type: 'object',
+                  required: ['name', 'email'],
                   properties: {
-                    ticketNumber: { type: 'string' },
-                    qrCode: { type: 'string' },
+                    name: { type: 'string', minLength: 2, maxLength: 200, example: 'Maria Ionescu' },
+                    email: { type: 'string', format: 'email' },
+                    notes: { type: 'string', maxLength: 500 },
+                    ticketTypeId: { type: 'string', format: 'uuid', description: 'Required when the event has ticket types; guests only qualify for types without role or faculty rules' },
+                    answers: { type: 'object', additionalProperties: {}, description: 'Answers to the event registration form' },
                   },
                 },
               },
             },
           },
           responses: {
-            '200': {
-              description: 'Participant checked in successfully',
-            },
-          },
-        },
-      },
-      '/api/v1/events/{id}/stats': {
-        get: {
-          tags: ['Events'],
-          summary: 'Get event statistics (Organizer)',
-          description: 'Get registration and attendance statistics for an event',
-          security: [{ bearerAuth: [] }],
-          parameters: [
-            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
-          ],
-          responses: {
-            '200': {
-              description: 'Event statistics',
+            '202': {
+              description: 'Confirmation link sent',
               content: {
                 'application/json': {
                   schema: {
@@ -1117,10 +1826,9 @@ Authorization: Bearer <your_access_token>
                       data: {
                         type: 'object',
                         properties: {
-                          totalRegistrations: { type: 'integer' },
-                          confirmed: { type: 'integer' },
-                          attended: { type: 'integer' },
-                          cancelled: { type: 'integer' },
+                          id: { type: 'string', format: 'uuid' },
+                          email: { type: 'string', format: 'email' },
+                          expiresAt: { type: 'string', format: 'date-time' },
                         },
                       },
                     },
@@ -1128,59 +1836,89 @@ Authorization: Bearer <your_access_token>
                 },
               },
             },
+            '400': {
+              description: 'Guests not allowed, registration closed, invalid answers, etc.',
+            },
+            '429': {
+              description: 'Too many registration requests from this IP or for this email',
+            },
           },
         },
       },
-      '/api/v1/events/{id}/favorite': {
+      '/api/v1/events/{id}/guest-registrations/confirm': {
         post: {
           tags: ['Events'],
-          summary: 'Add to favorites',
-          description: 'Add an event to favorites',
-          security: [{ bearerAuth: [] }],
+          summary: 'Confirm guest registration',
+          description: 'Confirm with the token from the emailed link. Issues the ticket and QR code, which are also emailed. Confirming again returns the same ticket. Guests are not waitlisted: confirming fails if the event or ticket type is full. On events that require approval the registration stays `pending` (with `guestConfirmedAt` set) and the ticket is emailed once an organizer approves it.',
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
           ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['token'],
+                  properties: {
+                    token: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
           responses: {
             '200': {
-              description: 'Added to favorites',
+              description: 'Registration confirmed',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        description: 'The public fields of the guest registration',
+                        properties: {
+                          id: { type: 'string', format: 'uuid' },
+                          eventId: { type: 'string', format: 'uuid' },
+                          status: { type: 'string', enum: ['pending', 'confirmed', 'attended'] },
+                          ticketTypeId: { type: 'string', format: 'uuid', nullable: true },
+                          ticketNumber: { type: 'string', nullable: true },
+                          qrCode: { type: 'string', nullable: true },
+                          guestName: { type: 'string' },
+                          guestEmail: { type: 'string', format: 'email' },
+                          guestConfirmedAt: { type: 'string', format: 'date-time', nullable: true },
+                          createdAt: { type: 'string', format: 'date-time' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
             },
           },
         },
-        delete: {
+      },
+      '/api/v1/events/{id}/teams': {
+        get: {
           tags: ['Events'],
-          summary: 'Remove from favorites',
-          description: 'Remove an event from favorites',
+          summary: 'Get event teams (Organizer)',
+          description: 'Teams as units with their members, pending invitations and check-in progress. Requires the participants permission.',
           security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
           ],
           responses: {
             '200': {
-              description: 'Removed from favorites',
-            },
-          },
-        },
-      },
-
-      // ==================== FACULTIES ====================
-      '/api/v1/faculties': {
-        get: {
-          tags: ['Faculties'],
-          summary: 'List faculties',
-          description: 'Get all faculties with their departments',
-          responses: {
-            '200': {
-              description: 'List of faculties',
+              description: 'List of teams',
               content: {
                 'application/json': {
                   schema: {
                     type: 'object',
                     properties: {
                       success: { type: 'boolean' },
-                      data: {
-                        type: 'array',
-                        items: { $ref: '#/components/schemas/Faculty' },
-                      },
+                      data: { type: 'array', items: { $ref: '#/components/schemas/Team' } },
                     },
                   },
                 },
@@ -1189,177 +1927,2244 @@ Authorization: Bearer <your_access_token>
           },
         },
         post: {
-          tags: ['Faculties'],
-          summary: 'Create faculty (Admin)',
-          description: 'Create a new faculty. Admin only.',
+          tags: ['Events'],
+          summary: 'Create team',
+          description: 'Create a team on a team event and register as its captain with the first ticket. The team takes one place of the event capacity; team events have no waitlist.',
           security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
           requestBody: {
             required: true,
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/CreateFacultyInput' },
+                schema: {
+                  type: 'object',
+                  required: ['name'],
+                  properties: {
+                    name: { type: 'string', minLength: 2, maxLength: 100, example: 'Null Pointers' },
+                    ticketTypeId: { type: 'string', format: 'uuid', description: "The captain's ticket type; required when the event has ticket types" },
+                    notes: { type: 'string', maxLength: 500 },
+                    answers: { type: 'object', additionalProperties: {}, description: 'Answers to the event registration form' },
+                  },
+                },
               },
             },
           },
           responses: {
             '201': {
-              description: 'Faculty created successfully',
+              description: 'Team created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/Team' },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Not a team event, event full, name taken, already registered, ticket type sold out, etc.',
             },
           },
         },
       },
-      '/api/v1/faculties/{id}': {
+      '/api/v1/events/{id}/teams/me': {
         get: {
-          tags: ['Faculties'],
-          summary: 'Get faculty by ID',
+          tags: ['Events'],
+          summary: 'Get my team',
+          description: 'The team the user belongs to (or null) and pending invitations sent to their email.',
+          security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
           ],
           responses: {
             '200': {
-              description: 'Faculty details',
+              description: 'Team and invitations',
             },
           },
         },
-        patch: {
-          tags: ['Faculties'],
-          summary: 'Update faculty (Admin)',
+      },
+      '/api/v1/events/{id}/teams/{teamId}': {
+        delete: {
+          tags: ['Events'],
+          summary: 'Cancel team',
+          description: 'Captain only. Cancels every member registration, revokes pending invitations and frees the team place.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'teamId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Team cancelled with the number of cancelled registrations',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/teams/{teamId}/invitations': {
+        post: {
+          tags: ['Events'],
+          summary: 'Invite team member',
+          description: 'Captain only. Emails the invitation and notifies existing accounts. Members plus pending invitations cannot exceed maxTeamSize.',
           security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'teamId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
           ],
           requestBody: {
             required: true,
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/CreateFacultyInput' },
+                schema: {
+                  type: 'object',
+                  required: ['email'],
+                  properties: {
+                    email: { type: 'string', format: 'email' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Invitation sent',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/teams/{teamId}/invitations/accept': {
+        post: {
+          tags: ['Events'],
+          summary: 'Accept team invitation',
+          description: 'Accept the invitation sent to the signed-in user email. The member gets their own ticket; the event count does not change.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'teamId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    ticketTypeId: { type: 'string', format: 'uuid', description: "The member's ticket type; required when the event has ticket types" },
+                    notes: { type: 'string', maxLength: 500 },
+                    answers: { type: 'object', additionalProperties: {}, description: 'Answers to the event registration form' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Joined the team',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/EventRegistration' },
+                    },
+                  },
+                },
               },
             },
           },
+        },
+      },
+      '/api/v1/events/{id}/teams/{teamId}/invitations/decline': {
+        post: {
+          tags: ['Events'],
+          summary: 'Decline team invitation',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'teamId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
           responses: {
             '200': {
-              description: 'Faculty updated successfully',
+              description: 'Invitation declined',
             },
           },
         },
+      },
+      '/api/v1/events/{id}/teams/{teamId}/invitations/{invitationId}': {
         delete: {
-          tags: ['Faculties'],
-          summary: 'Delete faculty (Admin)',
+          tags: ['Events'],
+          summary: 'Revoke team invitation',
+          description: 'Captain only. Frees the place held by a pending invitation.',
           security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'teamId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'invitationId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
           ],
           responses: {
             '200': {
-              description: 'Faculty deleted successfully',
+              description: 'Invitation revoked',
             },
           },
         },
       },
-
-      // ==================== DEPARTMENTS ====================
-      '/api/v1/departments': {
+      '/api/v1/events/{id}/teams/{teamId}/members/{userId}': {
+        delete: {
+          tags: ['Events'],
+          summary: 'Remove team member',
+          description: 'The captain removes a member, or a member leaves. The captain cannot leave; they cancel the team instead.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'teamId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'userId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Member removed',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/teams/{teamId}/check-in': {
+        post: {
+          tags: ['Events'],
+          summary: 'Check in team (Organizer/Staff)',
+          description: 'Check in every confirmed member of a team at once. Requires the check-in permission.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'teamId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Checked-in members',
+            },
+            '400': {
+              description: 'Team not found or all members already checked in',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/participants': {
         get: {
-          tags: ['Departments'],
-          summary: 'List departments',
-          description: 'Get all departments',
+          tags: ['Events'],
+          summary: 'Get event participants (Organizer)',
+          description: 'Get list of participants for an event, including their registration form answers and team. Only organizer or admin.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'attended', 'waitlisted', 'no_show', 'rejected'] } },
+          ],
           responses: {
             '200': {
-              description: 'List of departments',
+              description: 'List of participants',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/participants/export': {
+        get: {
+          tags: ['Events'],
+          summary: 'Export participants (Organizer/Staff)',
+          description: 'Download participants as CSV (UTF-8 with BOM, so Excel keeps diacritics) or XLSX. Dates are in the calendar time zone. Requires the participants permission.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'format', in: 'query', schema: { type: 'string', enum: ['csv', 'xlsx', 'json'], default: 'csv' } },
+            { name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'attended', 'waitlisted', 'no_show', 'rejected'] } },
+            {
+              name: 'columns',
+              in: 'query',
+              schema: { type: 'string', example: 'name,email,ticketNumber,checkedInAt,answers' },
+              description: 'Comma-separated columns in output order, all by default: name, email, phone, guest, status, ticketNumber, ticketType, team, registeredAt, checkedInAt, checkedOutAt, attendanceHours, answers (one column per registration form question)',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Participant export; `json` returns `{ columns, rows }`',
+              content: {
+                'text/csv': {
+                  schema: { type: 'string' },
+                },
+                'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+                  schema: { type: 'string', format: 'binary' },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/participants/waitlist': {
+        get: {
+          tags: ['Events'],
+          summary: 'Get event waitlist (Organizer)',
+          description: 'Get waitlisted registrations in queue order. Only organizer or admin.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Waitlist in queue order',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/participants/waitlist/{registrationId}': {
+        patch: {
+          tags: ['Events'],
+          summary: 'Reorder waitlist (Organizer)',
+          description: 'Move a waitlisted registration to a new queue position. Only organizer or admin.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'registrationId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['position'],
+                  properties: {
+                    position: { type: 'integer', minimum: 1 },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Updated waitlist in queue order',
             },
           },
         },
+      },
+      '/api/v1/events/{id}/participants/review': {
         post: {
-          tags: ['Departments'],
-          summary: 'Create department (Admin)',
+          tags: ['Events'],
+          summary: 'Review registrations in bulk (Organizer)',
+          description: 'Approve or reject pending registrations on an event that requires approval. Registrations that cannot be reviewed (not pending, event full, guest email unconfirmed) are returned in `skipped`.',
           security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
           requestBody: {
             required: true,
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
-                  required: ['name', 'facultyId'],
+                  required: ['registrationIds', 'decision'],
                   properties: {
-                    name: { type: 'string' },
-                    facultyId: { type: 'string', format: 'uuid' },
-                    description: { type: 'string' },
+                    registrationIds: { type: 'array', minItems: 1, maxItems: 200, items: { type: 'string', format: 'uuid' } },
+                    decision: { type: 'string', enum: ['approve', 'reject'] },
+                    message: { type: 'string', maxLength: 1000, description: 'Sent to every participant with the decision' },
                   },
                 },
               },
             },
           },
           responses: {
-            '201': {
-              description: 'Department created successfully',
+            '200': {
+              description: 'Reviewed and skipped registrations',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          reviewed: { type: 'array', items: { $ref: '#/components/schemas/EventRegistration' } },
+                          skipped: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                registrationId: { type: 'string', format: 'uuid' },
+                                reason: { type: 'string' },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/participants/{registrationId}/approve': {
+        post: {
+          tags: ['Events'],
+          summary: 'Approve registration (Organizer)',
+          description: 'Approve a pending registration: the ticket is issued, the spot is taken and the participant is notified (guests by email). Fails when the event or ticket type is full.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'registrationId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    message: { type: 'string', maxLength: 1000, description: 'Sent to the participant with the decision' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Registration confirmed',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/participants/{registrationId}/reject': {
+        post: {
+          tags: ['Events'],
+          summary: 'Reject registration (Organizer)',
+          description: 'Reject a pending registration and notify the participant.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'registrationId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    message: { type: 'string', maxLength: 1000, description: 'Sent to the participant with the decision' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Registration rejected',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/participants/{registrationId}/reissue-ticket': {
+        post: {
+          tags: ['Events'],
+          summary: 'Reissue ticket (Organizer)',
+          description: 'Issue a new ticket number and signed QR code for a confirmed registration. The previous ones are revoked and the participant is notified (guests by email).',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'registrationId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Ticket reissued',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/EventRegistration' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/check-in': {
+        post: {
+          tags: ['Events'],
+          summary: 'Check-in participant (Organizer)',
+          description: 'Check-in a participant using ticket number or QR code. QR codes must carry a valid signature for this event and match the registration current ticket; codes of cancelled, rejected or reissued tickets are rejected as revoked.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    ticketNumber: { type: 'string' },
+                    qrCode: { type: 'string', description: 'Signed QR payload' },
+                    ticketTypeId: { type: 'string', format: 'uuid', description: 'Only admit tickets of this type, e.g. at a staff entrance' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Participant checked in successfully; the registration includes its `ticketType` ({ id, name })',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/check-out': {
+        post: {
+          tags: ['Events'],
+          summary: 'Check out participant (Organizer/Staff)',
+          description: 'Record that a checked-in participant left. Checking in again later (e.g. the next day) re-enters them. Requires the check-in permission.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    ticketNumber: { type: 'string' },
+                    qrCode: { type: 'string', description: 'Signed QR payload' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Registration with updated attendanceSeconds and checkedOutAt',
+            },
+            '400': {
+              description: 'Invalid or revoked ticket, not checked in or already checked out',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/check-in/rescan': {
+        post: {
+          tags: ['Events'],
+          summary: 'Re-scan participant (Organizer/Staff)',
+          description: 'Confirm a checked-in participant is still present, e.g. at the start of each day of a multi-day event. Attendance without a check-out counts up to the last re-scan. Requires the check-in permission.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    ticketNumber: { type: 'string' },
+                    qrCode: { type: 'string', description: 'Signed QR payload' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Registration with updated attendanceSeconds',
+            },
+            '400': {
+              description: 'Invalid or revoked ticket, not checked in or checked out',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/attendance': {
+        get: {
+          tags: ['Events'],
+          summary: 'Get attendance report (Organizer/Staff)',
+          description: 'Attendance time of every checked-in participant and whether it meets the event minimum-attendance rule. Requires the participants permission.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Attendance report',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          minAttendancePercent: { type: 'integer', nullable: true },
+                          scheduledSeconds: { type: 'integer' },
+                          requiredSeconds: { type: 'integer', nullable: true },
+                          attendees: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                id: { type: 'string', format: 'uuid' },
+                                ticketNumber: { type: 'string' },
+                                guestName: { type: 'string', nullable: true },
+                                user: { type: 'object', nullable: true },
+                                checkedInAt: { type: 'string', format: 'date-time' },
+                                checkedOutAt: { type: 'string', format: 'date-time', nullable: true },
+                                attendanceSeconds: { type: 'integer' },
+                                meetsMinimum: { type: 'boolean' },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/check-in/snapshot': {
+        get: {
+          tags: ['Events'],
+          summary: 'Get offline check-in snapshot (Organizer/Staff)',
+          description: 'Signed snapshot of the event valid tickets for scanners that check in offline. `snapshot` is a compact JWS (EdDSA) verifiable with `GET /tickets/public-key`; its payload holds `eid`, `exp` and `tickets` (registrationId, ticketNumber, ticketTypeId, attendeeName, checkedInAt). A QR code is valid offline when its signature verifies and its `tno` matches the snapshot ticket number. Requires the check-in permission.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Snapshot',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          eventId: { type: 'string', format: 'uuid' },
+                          snapshot: { type: 'string', description: 'Compact JWS' },
+                          ticketCount: { type: 'integer' },
+                          generatedAt: { type: 'string', format: 'date-time' },
+                          expiresAt: { type: 'string', format: 'date-time' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/check-in/sync': {
+        post: {
+          tags: ['Events'],
+          summary: 'Upload offline check-ins (Organizer/Staff)',
+          description: 'Upload scans recorded offline, with device timestamps. Scans are applied in scan order; the earliest scan of a ticket becomes its check-in. Exit scanners upload `check_out` scans. Each scan is reported as `checked_in` (including re-entry after a check-out), `checked_out`, `duplicate` (already scanned on this device), `conflict` (already checked in on another device or online) or `rejected` (invalid, revoked or unknown ticket). Scan IDs already uploaded by the device keep their earlier result, so retrying an upload is safe. Requires the check-in permission.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['deviceId', 'scans'],
+                  properties: {
+                    deviceId: { type: 'string', maxLength: 100 },
+                    scans: {
+                      type: 'array',
+                      maxItems: 1000,
+                      items: {
+                        type: 'object',
+                        required: ['scanId', 'scannedAt'],
+                        properties: {
+                          scanId: { type: 'string', maxLength: 100, description: 'Unique per device' },
+                          ticketNumber: { type: 'string' },
+                          qrCode: { type: 'string', description: 'Signed QR payload' },
+                          type: { type: 'string', enum: ['check_in', 'check_out'], default: 'check_in' },
+                          scannedAt: { type: 'string', format: 'date-time', description: 'Device clock' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Per-scan results with the resulting check-in (`checkedInAt`, `checkedInDeviceId`) and a summary',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/stats': {
+        get: {
+          tags: ['Events'],
+          summary: 'Get event statistics (Organizer)',
+          description: 'Get registration and attendance statistics for an event',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Event statistics',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          totalRegistrations: { type: 'integer' },
+                          pending: { type: 'integer', description: 'Awaiting approval or guest email confirmation' },
+                          confirmed: { type: 'integer' },
+                          checkedIn: { type: 'integer' },
+                          attended: { type: 'integer', description: 'Checked in and, with a minimum-attendance rule, present long enough' },
+                          cancelled: { type: 'integer' },
+                          waitlisted: { type: 'integer' },
+                          noShows: { type: 'integer' },
+                          rejected: { type: 'integer' },
+                          minAttendancePercent: { type: 'integer', nullable: true },
+                          requiredAttendanceSeconds: { type: 'integer', nullable: true },
+                          ticketTypes: {
+                            type: 'array',
+                            description: 'The same counts per ticket type; empty for events without ticket types',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                id: { type: 'string', format: 'uuid' },
+                                name: { type: 'string' },
+                                quota: { type: 'integer' },
+                                issued: { type: 'integer', description: 'Seats taken (confirmed and attended)' },
+                                pending: { type: 'integer' },
+                                confirmed: { type: 'integer' },
+                                checkedIn: { type: 'integer' },
+                                attended: { type: 'integer' },
+                                cancelled: { type: 'integer' },
+                                waitlisted: { type: 'integer' },
+                                noShows: { type: 'integer' },
+                                rejected: { type: 'integer' },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/registrations/me/ticket': {
+        get: {
+          tags: ['Tickets'],
+          summary: 'Download ticket as PDF',
+          description: 'Printable A6 ticket with the event title, date, location, attendee name, ticket number and QR code. Only confirmed and attended registrations have a ticket.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'PDF ticket',
+              content: {
+                'application/pdf': {
+                  schema: { type: 'string', format: 'binary' },
+                },
+              },
+            },
+            '404': {
+              description: 'Ticket not found',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/registrations/me/qr.png': {
+        get: {
+          tags: ['Tickets'],
+          summary: 'Get ticket QR code as PNG',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'QR code image',
+              content: {
+                'image/png': {
+                  schema: { type: 'string', format: 'binary' },
+                },
+              },
+            },
+            '404': {
+              description: 'Ticket not found',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/registrations/me/qr.svg': {
+        get: {
+          tags: ['Tickets'],
+          summary: 'Get ticket QR code as SVG',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'QR code image',
+              content: {
+                'image/svg+xml': {
+                  schema: { type: 'string' },
+                },
+              },
+            },
+            '404': {
+              description: 'Ticket not found',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/ticket-types': {
+        get: {
+          tags: ['Events'],
+          summary: 'Get ticket types',
+          description: 'Ticket types of an event with remaining seats and whether they are on sale. Signed-in users also get `isEligible`.',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Ticket types',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { type: 'array', items: { $ref: '#/components/schemas/TicketType' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          tags: ['Events'],
+          summary: 'Create ticket type (Organizer)',
+          description: 'Once an event has ticket types, registrations must pick one. Requires update permission on the event.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CreateTicketTypeInput' },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Ticket type created',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/ticket-types/{ticketTypeId}': {
+        patch: {
+          tags: ['Events'],
+          summary: 'Update ticket type (Organizer)',
+          description: 'The quota cannot go below the number of tickets already issued',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'ticketTypeId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CreateTicketTypeInput' },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Ticket type updated',
+            },
+          },
+        },
+        delete: {
+          tags: ['Events'],
+          summary: 'Delete ticket type (Organizer)',
+          description: 'Only ticket types without registrations can be deleted',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'ticketTypeId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Ticket type deleted',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/sessions': {
+        get: {
+          tags: ['Events'],
+          summary: 'Get event agenda',
+          description: 'List the sessions of an event ordered by start date',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Event sessions',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { type: 'array', items: { $ref: '#/components/schemas/EventSession' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          tags: ['Events'],
+          summary: 'Add session (Organizer)',
+          description: 'Add a session to the event agenda. The session must fit inside the event dates.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CreateSessionInput' },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Session created',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/sessions/me': {
+        get: {
+          tags: ['Events'],
+          summary: 'My sessions',
+          description: 'Get the sessions the authenticated user registered for',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Sessions ordered by start date',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/sessions/{sessionId}': {
+        patch: {
+          tags: ['Events'],
+          summary: 'Update session (Organizer)',
+          description: 'Update a session of the event agenda',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'sessionId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CreateSessionInput' },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Session updated',
+            },
+          },
+        },
+        delete: {
+          tags: ['Events'],
+          summary: 'Delete session (Organizer)',
+          description: 'Delete a session and release its registrations',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'sessionId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Session deleted',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/sessions/{sessionId}/register': {
+        post: {
+          tags: ['Events'],
+          summary: 'Register for session',
+          description: 'Register for a session. Requires a confirmed event registration; sessions overlapping ones already picked are rejected.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'sessionId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '201': {
+              description: 'Registered for session',
+            },
+            '400': {
+              description: 'Registration failed (not registered for the event, session full, overlapping session, etc.)',
+            },
+          },
+        },
+        delete: {
+          tags: ['Events'],
+          summary: 'Cancel session registration',
+          description: 'Leave a session',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'sessionId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Session registration cancelled',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/staff': {
+        get: {
+          tags: ['Events'],
+          summary: 'Get event staff',
+          description: 'List co-organizers, check-in staff and viewers of an event',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'List of staff members',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { type: 'array', items: { $ref: '#/components/schemas/EventStaffMember' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          tags: ['Events'],
+          summary: 'Add staff member',
+          description: 'Add an existing user to the event staff by email (organizer or admin)',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['email', 'role'],
+                  properties: {
+                    email: { type: 'string', format: 'email' },
+                    role: { type: 'string', enum: ['co_organizer', 'check_in_staff', 'viewer'] },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Staff member added',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/staff/{userId}': {
+        patch: {
+          tags: ['Events'],
+          summary: 'Change staff role',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'userId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['role'],
+                  properties: {
+                    role: { type: 'string', enum: ['co_organizer', 'check_in_staff', 'viewer'] },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Staff role updated',
+            },
+          },
+        },
+        delete: {
+          tags: ['Events'],
+          summary: 'Remove staff member',
+          description: 'Organizers and admins can remove anyone; staff members can remove themselves',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'userId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Staff member removed',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/revisions': {
+        get: {
+          tags: ['Events'],
+          summary: 'List event revisions',
+          description: 'Edits, reviews, cancellations and restores of an event, newest first (organizer, co-organizer or admin)',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'List of revisions',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { type: 'array', items: { $ref: '#/components/schemas/EventRevision' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/revisions/{revisionId}': {
+        get: {
+          tags: ['Events'],
+          summary: 'Get revision diff',
+          description: 'Before and after values of every field changed by the revision',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'revisionId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Revision with field-level diff',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/EventRevisionDiff' },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Revision not found',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/revisions/{revisionId}/restore': {
+        post: {
+          tags: ['Events'],
+          summary: 'Restore revision',
+          description: 'Bring the editable fields back to their state right after the revision (admin only). Status is not restored; the restore is itself recorded as a revision.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'revisionId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Event restored',
+            },
+            '400': {
+              description: 'Revision not found or event already matches it',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/favorite': {
+        post: {
+          tags: ['Events'],
+          summary: 'Add to favorites',
+          description: 'Add an event to favorites',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Added to favorites',
+            },
+          },
+        },
+        delete: {
+          tags: ['Events'],
+          summary: 'Remove from favorites',
+          description: 'Remove an event from favorites',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Removed from favorites',
+            },
+          },
+        },
+      },
+
+      // ==================== FACULTIES ====================
+      '/api/v1/tickets/public-key': {
+        get: {
+          tags: ['Tickets'],
+          summary: 'Get ticket signing key',
+          description: 'Ed25519 public key (JWK) that signs ticket QR codes, so scanners can verify signatures offline. Match the `kid` in the QR header. Revocation still needs an online check-in.',
+          responses: {
+            '200': {
+              description: 'Public keys',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          keys: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                kty: { type: 'string', example: 'OKP' },
+                                crv: { type: 'string', example: 'Ed25519' },
+                                x: { type: 'string' },
+                                kid: { type: 'string' },
+                                alg: { type: 'string', example: 'EdDSA' },
+                                use: { type: 'string', example: 'sig' },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/certificates/me': {
+        get: {
+          tags: ['Certificates'],
+          summary: 'Download my certificate as PDF',
+          description: 'Certificate of attendance for a registration with status `attended` that meets the minimum-attendance rule. Issued on first download once the event has ended and its organizers enabled certificates; an issued certificate never changes.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'PDF certificate',
+              content: {
+                'application/pdf': {
+                  schema: { type: 'string', format: 'binary' },
+                },
+              },
+            },
+            '400': {
+              description: 'Not an attendee, not enough attendance, certificates disabled or the event has not ended',
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/certificates': {
+        get: {
+          tags: ['Certificates'],
+          summary: 'List issued certificates (Organizer/Staff)',
+          description: 'Requires the participants permission.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Certificates',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { type: 'array', items: { $ref: '#/components/schemas/Certificate' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/events/{id}/certificates/generate': {
+        post: {
+          tags: ['Certificates'],
+          summary: 'Generate certificates for all attendees (Organizer)',
+          description: 'Issues a certificate to every attendee who meets the minimum-attendance rule and has none yet. With `notify`, users get a notification and guests an email with a download link. Requires the update permission.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    notify: { type: 'boolean', default: true },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Generation summary',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          issued: { type: 'integer' },
+                          alreadyIssued: { type: 'integer' },
+                          skipped: { type: 'integer', description: 'Attendees below the minimum attendance' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Certificates disabled or the event has not ended',
+            },
+          },
+        },
+      },
+      '/api/v1/certificates/verify/{code}': {
+        get: {
+          tags: ['Certificates'],
+          summary: 'Verify a certificate',
+          description: 'Public check that a certificate with this verification code was issued',
+          parameters: [
+            { name: 'code', in: 'path', required: true, schema: { type: 'string', example: 'CERT-7KQ2-M9XD-4HPA' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Authentic certificate',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          valid: { type: 'boolean', example: true },
+                          code: { type: 'string' },
+                          recipientName: { type: 'string' },
+                          title: { type: 'string' },
+                          issuedAt: { type: 'string', format: 'date-time' },
+                          event: {
+                            type: 'object',
+                            properties: {
+                              id: { type: 'string', format: 'uuid' },
+                              title: { type: 'string' },
+                              startDate: { type: 'string', format: 'date-time' },
+                              endDate: { type: 'string', format: 'date-time' },
+                              location: { type: 'string' },
+                              isOnline: { type: 'boolean' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Certificate not found',
+            },
+          },
+        },
+      },
+      '/api/v1/certificates/{code}/pdf': {
+        get: {
+          tags: ['Certificates'],
+          summary: 'Download a certificate by code',
+          description: 'Public download, linked from the verification page and the emails sent to guests',
+          parameters: [
+            { name: 'code', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            '200': {
+              description: 'PDF certificate',
+              content: {
+                'application/pdf': {
+                  schema: { type: 'string', format: 'binary' },
+                },
+              },
+            },
+            '404': {
+              description: 'Certificate not found',
+            },
+          },
+        },
+      },
+      '/api/v1/faculties': {
+        get: {
+          tags: ['Faculties'],
+          summary: 'List faculties',
+          description: 'Get all faculties with their departments',
+          responses: {
+            '200': {
+              description: 'List of faculties',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'array',
+                        items: { $ref: '#/components/schemas/Faculty' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          tags: ['Faculties'],
+          summary: 'Create faculty (Admin)',
+          description: 'Create a new faculty. Admin only.',
+          security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CreateFacultyInput' },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Faculty created successfully',
+            },
+          },
+        },
+      },
+      '/api/v1/faculties/{id}': {
+        get: {
+          tags: ['Faculties'],
+          summary: 'Get faculty by ID',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Faculty details',
+            },
+          },
+        },
+        patch: {
+          tags: ['Faculties'],
+          summary: 'Update faculty (Admin)',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CreateFacultyInput' },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Faculty updated successfully',
+            },
+          },
+        },
+        delete: {
+          tags: ['Faculties'],
+          summary: 'Delete faculty (Admin)',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Faculty deleted successfully',
+            },
+          },
+        },
+      },
+
+      // ==================== DEPARTMENTS ====================
+      '/api/v1/departments': {
+        get: {
+          tags: ['Departments'],
+          summary: 'List departments',
+          description: 'Get all departments',
+          responses: {
+            '200': {
+              description: 'List of departments',
+            },
+          },
+        },
+        post: {
+          tags: ['Departments'],
+          summary: 'Create department (Admin)',
+          security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['name', 'facultyId'],
+                  properties: {
+                    name: { type: 'string' },
+                    facultyId: { type: 'string', format: 'uuid' },
+                    description: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Department created successfully',
+            },
+          },
+        },
+      },
+
+      // ==================== FEEDBACK ====================
+      '/api/v1/feedback': {
+        post: {
+          tags: ['Feedback'],
+          summary: 'Create feedback',
+          description: 'Submit feedback for an attended event. Accepted from the end of the event until FEEDBACK_WINDOW_DAYS (default 14) days later.',
+          security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CreateFeedbackInput' },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Feedback submitted successfully',
+            },
+          },
+        },
+      },
+      '/api/v1/feedback/my': {
+        get: {
+          tags: ['Feedback'],
+          summary: 'My feedback',
+          description: 'Get feedback submitted by the authenticated user',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            '200': {
+              description: 'List of user feedback',
+            },
+          },
+        },
+      },
+      '/api/v1/feedback/event/{eventId}': {
+        get: {
+          tags: ['Feedback'],
+          summary: 'Event feedback',
+          description: 'Get all feedback for an event',
+          parameters: [
+            { name: 'eventId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
+          ],
+          responses: {
+            '200': {
+              description: 'Event feedback with statistics',
+            },
+          },
+        },
+      },
+      '/api/v1/feedback/event/{eventId}/stats': {
+        get: {
+          tags: ['Feedback'],
+          summary: 'Event feedback statistics',
+          description: 'Get feedback statistics for an event',
+          parameters: [
+            { name: 'eventId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Feedback statistics',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          averageRating: { type: 'number', nullable: true },
+                          totalReviews: { type: 'integer' },
+                          ratingDistribution: {
+                            type: 'object',
+                            properties: {
+                              '1': { type: 'integer' },
+                              '2': { type: 'integer' },
+                              '3': { type: 'integer' },
+                              '4': { type: 'integer' },
+                              '5': { type: 'integer' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+
+      // ==================== NOTIFICATIONS ====================
+      '/api/v1/notifications': {
+        get: {
+          tags: ['Notifications'],
+          summary: 'My notifications',
+          description: 'Get notifications for the authenticated user',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
+            { name: 'isRead', in: 'query', schema: { type: 'boolean' } },
+            { name: 'type', in: 'query', schema: { type: 'string', enum: ['event_reminder', 'event_update', 'registration_confirmed', 'event_cancelled', 'recommendation', 'feedback_request'] } },
+          ],
+          responses: {
+            '200': {
+              description: 'List of notifications with unread count',
+            },
+          },
+        },
+      },
+      '/api/v1/notifications/unread-count': {
+        get: {
+          tags: ['Notifications'],
+          summary: 'Unread count',
+          description: 'Get the count of unread notifications',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            '200': {
+              description: 'Unread notification count',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          unreadCount: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/notifications/{id}/read': {
+        post: {
+          tags: ['Notifications'],
+          summary: 'Mark as read',
+          description: 'Mark a notification as read',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Notification marked as read',
+            },
+          },
+        },
+      },
+      '/api/v1/notifications/read-all': {
+        post: {
+          tags: ['Notifications'],
+          summary: 'Mark all as read',
+          description: 'Mark all notifications as read',
+          security: [{ bearerAuth: [] }],
+          responses: {
+            '200': {
+              description: 'All notifications marked as read',
+            },
+          },
+        },
+      },
+
+      // ==================== FILES ====================
+      '/api/v1/files/event/{eventId}': {
+        get: {
+          tags: ['Files'],
+          summary: 'Event materials',
+          description: 'Get materials for an event',
+          parameters: [
+            { name: 'eventId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'List of event materials',
+            },
+          },
+        },
+      },
+      '/api/v1/files': {
+        post: {
+          tags: ['Files'],
+          summary: 'Upload material (Organizer)',
+          description: 'Upload a material for an event',
+          security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['eventId', 'title', 'fileUrl', 'fileType'],
+                  properties: {
+                    eventId: { type: 'string', format: 'uuid' },
+                    title: { type: 'string' },
+                    description: { type: 'string' },
+                    fileUrl: { type: 'string', format: 'uri' },
+                    fileType: { type: 'string', example: 'pdf' },
+                    fileSize: { type: 'integer' },
+                    isPublic: { type: 'boolean', default: true },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Material uploaded successfully',
+            },
+          },
+        },
+      },
+      '/api/v1/files/{id}/download': {
+        post: {
+          tags: ['Files'],
+          summary: 'Download material',
+          description: 'Get download URL and increment download count',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Download URL',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          fileUrl: { type: 'string', format: 'uri' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+
+      // ==================== SERIES ====================
+      '/api/v1/series': {
+        post: {
+          tags: ['Series'],
+          summary: 'Create event series (Organizer)',
+          description: 'Create a recurring series. Every occurrence is created as a draft event.',
+          security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CreateSeriesInput' },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Series created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/EventSeries' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/series/{id}': {
+        get: {
+          tags: ['Series'],
+          summary: 'Get series',
+          description: 'Get a series with its occurrences. Only approved occurrences are listed unless the caller is the organizer or an admin.',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Series with occurrences',
+            },
+            '404': {
+              description: 'Series not found',
+            },
+          },
+        },
+        patch: {
+          tags: ['Series'],
+          summary: 'Update series settings',
+          description: 'Change whether users register per occurrence or for the whole series.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['registrationMode'],
+                  properties: {
+                    registrationMode: { type: 'string', enum: ['occurrence', 'series'] },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Series updated',
+            },
+          },
+        },
+      },
+      '/api/v1/series/{id}/submit': {
+        post: {
+          tags: ['Series'],
+          summary: 'Submit series for approval',
+          description: 'Submit all draft occurrences of a series for approval',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Occurrences submitted for approval',
+            },
+          },
+        },
+      },
+      '/api/v1/series/{id}/register': {
+        post: {
+          tags: ['Series'],
+          summary: 'Register for series',
+          description: 'Register for every upcoming approved occurrence. Occurrences that cannot be registered for are returned in `skipped`.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    notes: { type: 'string', maxLength: 500 },
+                    answers: {
+                      type: 'object',
+                      description: 'Answers to the event registration form keyed by field key: strings for text and choice, arrays for multi_choice, numbers and booleans',
+                      additionalProperties: {},
+                      example: { tshirt_size: 'M', study_year: 2, dietary: ['vegetarian'] },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Registrations created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          registrations: { type: 'array', items: { $ref: '#/components/schemas/EventRegistration' } },
+                          skipped: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                eventId: { type: 'string', format: 'uuid' },
+                                reason: { type: 'string' },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        delete: {
+          tags: ['Series'],
+          summary: 'Cancel series registration',
+          description: 'Cancel registrations for all upcoming occurrences of a series',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Registrations cancelled',
+            },
+          },
+        },
+      },
+      // ==================== SPEAKERS ====================
+      '/api/v1/speakers': {
+        get: {
+          tags: ['Speakers'],
+          summary: 'List speakers',
+          description: 'List the speaker directory with optional search by name or affiliation',
+          parameters: [
+            { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 20, maximum: 100 } },
+            { name: 'search', in: 'query', schema: { type: 'string' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Paginated list of speakers',
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/PaginatedResponse' },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          tags: ['Speakers'],
+          summary: 'Create speaker (Organizer)',
+          security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CreateSpeakerInput' },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Speaker created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/Speaker' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/v1/speakers/{id}': {
+        get: {
+          tags: ['Speakers'],
+          summary: 'Get speaker',
+          description: 'Public speaker page with upcoming and past talks at approved events',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Speaker profile',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        allOf: [
+                          { $ref: '#/components/schemas/Speaker' },
+                          {
+                            type: 'object',
+                            properties: {
+                              upcomingTalks: { type: 'array', items: { $ref: '#/components/schemas/SpeakerTalk' } },
+                              pastTalks: { type: 'array', items: { $ref: '#/components/schemas/SpeakerTalk' } },
+                            },
+                          },
+                        ],
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Speaker not found',
             },
           },
         },
-      },
-
-      // ==================== FEEDBACK ====================
-      '/api/v1/feedback': {
-        post: {
-          tags: ['Feedback'],
-          summary: 'Create feedback',
-          description: 'Submit feedback for an attended event',
+        patch: {
+          tags: ['Speakers'],
+          summary: 'Update speaker',
+          description: 'Only the organizer who added the speaker or an admin can update it',
           security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
           requestBody: {
             required: true,
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/CreateFeedbackInput' },
+                schema: { $ref: '#/components/schemas/CreateSpeakerInput' },
               },
             },
           },
           responses: {
-            '201': {
-              description: 'Feedback submitted successfully',
+            '200': {
+              description: 'Speaker updated',
+            },
+          },
+        },
+        delete: {
+          tags: ['Speakers'],
+          summary: 'Delete speaker',
+          description: 'Removes the speaker and detaches them from events and sessions',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Speaker deleted',
             },
           },
         },
       },
-      '/api/v1/feedback/my': {
+
+      // ==================== JOBS ====================
+      '/api/v1/jobs/complete-events': {
         get: {
-          tags: ['Feedback'],
-          summary: 'My feedback',
-          description: 'Get feedback submitted by the authenticated user',
+          tags: ['Jobs'],
+          summary: 'Complete ended events',
+          description: 'Marks approved events whose end date has passed as completed, marks confirmed registrations that never checked in as `no_show`, and sends feedback requests to attendees. Requires `Authorization: Bearer <CRON_SECRET>`.',
           security: [{ bearerAuth: [] }],
           responses: {
             '200': {
-              description: 'List of user feedback',
+              description: 'Job result',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          completed: { type: 'integer' },
+                          noShows: { type: 'integer' },
+                          feedbackRequests: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Invalid cron secret',
             },
           },
         },
       },
-      '/api/v1/feedback/event/{eventId}': {
+
+      // ==================== CALENDAR ====================
+      '/api/v1/calendar/feed': {
         get: {
-          tags: ['Feedback'],
-          summary: 'Event feedback',
-          description: 'Get all feedback for an event',
-          parameters: [
-            { name: 'eventId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
-            { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
-            { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
-          ],
+          tags: ['Calendar'],
+          summary: 'Get my calendar feed URL',
+          description: 'Secret subscription URL with the user\'s confirmed registrations. Add `?favorites=true` to include favorite events.',
+          security: [{ bearerAuth: [] }],
           responses: {
             '200': {
-              description: 'Event feedback with statistics',
+              description: 'Feed URLs',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          url: { type: 'string', format: 'uri' },
+                          urlWithFavorites: { type: 'string', format: 'uri' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
             },
           },
         },
       },
-      '/api/v1/feedback/event/{eventId}/stats': {
-        get: {
-          tags: ['Feedback'],
-          summary: 'Event feedback statistics',
-          description: 'Get feedback statistics for an event',
-          parameters: [
-            { name: 'eventId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
-          ],
+      '/api/v1/calendar/feed/reset': {
+        post: {
+          tags: ['Calendar'],
+          summary: 'Reset my calendar feed URL',
+          description: 'Issue a new secret feed URL. The previous URL stops working.',
+          security: [{ bearerAuth: [] }],
           responses: {
             '200': {
-              description: 'Feedback statistics',
+              description: 'Feed URLs',
               content: {
                 'application/json': {
                   schema: {
@@ -1369,18 +4174,8 @@ Authorization: Bearer <your_access_token>
                       data: {
                         type: 'object',
                         properties: {
-                          averageRating: { type: 'number', nullable: true },
-                          totalReviews: { type: 'integer' },
-                          ratingDistribution: {
-                            type: 'object',
-                            properties: {
-                              '1': { type: 'integer' },
-                              '2': { type: 'integer' },
-                              '3': { type: 'integer' },
-                              '4': { type: 'integer' },
-                              '5': { type: 'integer' },
-                            },
-                          },
+                          url: { type: 'string', format: 'uri' },
+                          urlWithFavorites: { type: 'string', format: 'uri' },
                         },
                       },
                     },
@@ -1391,48 +4186,52 @@ Authorization: Bearer <your_access_token>
           },
         },
       },
-
-      // ==================== NOTIFICATIONS ====================
-      '/api/v1/notifications': {
+      '/api/v1/calendar/{token}.ics': {
         get: {
-          tags: ['Notifications'],
-          summary: 'My notifications',
-          description: 'Get notifications for the authenticated user',
-          security: [{ bearerAuth: [] }],
+          tags: ['Calendar'],
+          summary: 'Personal calendar feed',
+          description: 'iCalendar subscription feed, authenticated by the secret token. Rescheduled events get a higher SEQUENCE and cancelled events are published with STATUS:CANCELLED.',
           parameters: [
-            { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
-            { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
-            { name: 'isRead', in: 'query', schema: { type: 'boolean' } },
-            { name: 'type', in: 'query', schema: { type: 'string', enum: ['event_reminder', 'event_update', 'registration_confirmed', 'event_cancelled', 'recommendation', 'feedback_request'] } },
+            { name: 'token', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'favorites', in: 'query', schema: { type: 'boolean', default: false } },
           ],
           responses: {
             '200': {
-              description: 'List of notifications with unread count',
+              description: 'iCalendar feed',
+              content: {
+                'text/calendar': {
+                  schema: { type: 'string' },
+                },
+              },
+            },
+            '404': {
+              description: 'Calendar feed not found',
             },
           },
         },
       },
-      '/api/v1/notifications/unread-count': {
+
+      // ==================== APPROVALS ====================
+      '/api/v1/approvals/reviewers': {
         get: {
-          tags: ['Notifications'],
-          summary: 'Unread count',
-          description: 'Get the count of unread notifications',
+          tags: ['Approvals'],
+          summary: 'List reviewers',
           security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'stage', in: 'query', schema: { type: 'string', enum: ['department', 'faculty', 'central'] } },
+            { name: 'facultyId', in: 'query', schema: { type: 'string', format: 'uuid' } },
+            { name: 'departmentId', in: 'query', schema: { type: 'string', format: 'uuid' } },
+          ],
           responses: {
             '200': {
-              description: 'Unread notification count',
+              description: 'List of reviewer assignments',
               content: {
                 'application/json': {
                   schema: {
                     type: 'object',
                     properties: {
                       success: { type: 'boolean' },
-                      data: {
-                        type: 'object',
-                        properties: {
-                          unreadCount: { type: 'integer' },
-                        },
-                      },
+                      data: { type: 'array', items: { $ref: '#/components/schemas/ApprovalReviewer' } },
                     },
                   },
                 },
@@ -1440,97 +4239,178 @@ Authorization: Bearer <your_access_token>
             },
           },
         },
-      },
-      '/api/v1/notifications/{id}/read': {
         post: {
-          tags: ['Notifications'],
-          summary: 'Mark as read',
-          description: 'Mark a notification as read',
+          tags: ['Approvals'],
+          summary: 'Add reviewer',
+          description: 'Assign a user as reviewer. Department reviewers need a departmentId, faculty reviewers a facultyId.',
+          security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['email', 'stage'],
+                  properties: {
+                    email: { type: 'string', format: 'email' },
+                    stage: { type: 'string', enum: ['department', 'faculty', 'central'] },
+                    facultyId: { type: 'string', format: 'uuid' },
+                    departmentId: { type: 'string', format: 'uuid' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Reviewer added',
+            },
+          },
+        },
+      },
+      '/api/v1/approvals/reviewers/{id}': {
+        delete: {
+          tags: ['Approvals'],
+          summary: 'Remove reviewer',
           security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
           ],
           responses: {
             '200': {
-              description: 'Notification marked as read',
+              description: 'Reviewer removed',
             },
           },
         },
       },
-      '/api/v1/notifications/read-all': {
+
+      // ==================== VENUES ====================
+      '/api/v1/venues': {
+        get: {
+          tags: ['Venues'],
+          summary: 'List rooms',
+          parameters: [
+            { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 20, maximum: 100 } },
+            { name: 'facultyId', in: 'query', schema: { type: 'string', format: 'uuid' } },
+            { name: 'minCapacity', in: 'query', schema: { type: 'integer' } },
+            { name: 'equipment', in: 'query', schema: { type: 'string' }, description: 'Comma-separated; rooms must have all of them' },
+            { name: 'accessibility', in: 'query', schema: { type: 'string' }, description: 'Comma-separated; rooms must have all of them' },
+            { name: 'search', in: 'query', schema: { type: 'string' }, description: 'Search in name and building' },
+            { name: 'includeInactive', in: 'query', schema: { type: 'boolean' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Paginated list of rooms',
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/PaginatedResponse' },
+                },
+              },
+            },
+          },
+        },
         post: {
-          tags: ['Notifications'],
-          summary: 'Mark all as read',
-          description: 'Mark all notifications as read',
+          tags: ['Venues'],
+          summary: 'Create room (Admin)',
           security: [{ bearerAuth: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CreateVenueInput' },
+              },
+            },
+          },
           responses: {
-            '200': {
-              description: 'All notifications marked as read',
+            '201': {
+              description: 'Room created',
             },
           },
         },
       },
-
-      // ==================== FILES ====================
-      '/api/v1/files/event/{eventId}': {
+      '/api/v1/venues/{id}': {
         get: {
-          tags: ['Files'],
-          summary: 'Event materials',
-          description: 'Get materials for an event',
+          tags: ['Venues'],
+          summary: 'Get room',
           parameters: [
-            { name: 'eventId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
           ],
           responses: {
             '200': {
-              description: 'List of event materials',
+              description: 'Room details',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/Venue' },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Venue not found',
             },
           },
         },
-      },
-      '/api/v1/files': {
-        post: {
-          tags: ['Files'],
-          summary: 'Upload material (Organizer)',
-          description: 'Upload a material for an event',
+        patch: {
+          tags: ['Venues'],
+          summary: 'Update room (Admin)',
           security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
           requestBody: {
             required: true,
             content: {
               'application/json': {
                 schema: {
-                  type: 'object',
-                  required: ['eventId', 'title', 'fileUrl', 'fileType'],
-                  properties: {
-                    eventId: { type: 'string', format: 'uuid' },
-                    title: { type: 'string' },
-                    description: { type: 'string' },
-                    fileUrl: { type: 'string', format: 'uri' },
-                    fileType: { type: 'string', example: 'pdf' },
-                    fileSize: { type: 'integer' },
-                    isPublic: { type: 'boolean', default: true },
-                  },
+                  allOf: [
+                    { $ref: '#/components/schemas/CreateVenueInput' },
+                    { type: 'object', properties: { isActive: { type: 'boolean' } } },
+                  ],
                 },
               },
             },
           },
           responses: {
-            '201': {
-              description: 'Material uploaded successfully',
+            '200': {
+              description: 'Room updated',
+            },
+          },
+        },
+        delete: {
+          tags: ['Venues'],
+          summary: 'Delete room (Admin)',
+          description: 'Rooms used by events cannot be deleted; deactivate them instead',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          ],
+          responses: {
+            '200': {
+              description: 'Room deleted',
             },
           },
         },
       },
-      '/api/v1/files/{id}/download': {
-        post: {
-          tags: ['Files'],
-          summary: 'Download material',
-          description: 'Get download URL and increment download count',
+      '/api/v1/venues/{id}/availability': {
+        get: {
+          tags: ['Venues'],
+          summary: 'Room availability',
+          description: 'Pending and approved events booked in the room during the range (at most 92 days)',
+          security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'from', in: 'query', required: true, schema: { type: 'string', format: 'date-time' } },
+            { name: 'to', in: 'query', required: true, schema: { type: 'string', format: 'date-time' } },
           ],
           responses: {
             '200': {
-              description: 'Download URL',
+              description: 'Bookings in the range',
               content: {
                 'application/json': {
                   schema: {
@@ -1540,7 +4420,23 @@ Authorization: Bearer <your_access_token>
                       data: {
                         type: 'object',
                         properties: {
-                          fileUrl: { type: 'string', format: 'uri' },
+                          venue: { $ref: '#/components/schemas/Venue' },
+                          from: { type: 'string', format: 'date-time' },
+                          to: { type: 'string', format: 'date-time' },
+                          isAvailable: { type: 'boolean' },
+                          bookings: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                id: { type: 'string', format: 'uuid' },
+                                title: { type: 'string' },
+                                status: { type: 'string', enum: ['pending', 'approved'] },
+                                startDate: { type: 'string', format: 'date-time' },
+                                endDate: { type: 'string', format: 'date-time' },
+                              },
+                            },
+                          },
                         },
                       },
                     },
@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import { swaggerUI } from '@hono/swagger-ui';
 import { logger, errorHandler, corsMiddleware, log } from './middleware';
 import { getOpenApiDocument } from './docs/openapi';
+import { assertTicketSigningKey } from './utils/ticket-signing';
 import type { Env } from './types/hono';
 
 // Import controllers
@@ -12,6 +13,20 @@ import { facultiesController, departmentsController } from './modules/faculties'
 import { feedbackController } from './modules/feedback';
 import { notificationsController } from './modules/notifications';
 import { filesController } from './modules/files';
+import { seriesController } from './modules/series';
+import { sessionsController } from './modules/sessions';
+import { ticketsController, ticketSigningController } from './modules/tickets';
+import { guestsController } from './modules/guests';
+import { teamsController } from './modules/teams';
+import { checkInController } from './modules/checkin';
+import { certificatesController, certificateVerificationController } from './modules/certificates';
+import { speakersController } from './modules/speakers';
+import { staffController } from './modules/staff';
+import { revisionsController } from './modules/revisions';
+import { approvalsController } from './modules/approvals';
+import { venuesController } from './modules/venues';
+import { jobsController } from './modules/jobs';
+import { calendarController } from './modules/calendar';
 
 // Create main app
 const app = new Hono<Env>();
@@ -58,11 +73,27 @@ const v1 = new Hono<Env>();
 v1.route('/auth', authController);
 v1.route('/users', usersController);
 v1.route('/events', eventsController);
+v1.route('/events', sessionsController);
+v1.route('/events', ticketsController);
+v1.route('/events', guestsController);
+v1.route('/events', teamsController);
+v1.route('/events', checkInController);
+v1.route('/events', certificatesController);
+v1.route('/events', staffController);
+v1.route('/events', revisionsController);
+v1.route('/tickets', ticketSigningController);
+v1.route('/certificates', certificateVerificationController);
 v1.route('/faculties', facultiesController);
 v1.route('/departments', departmentsController);
 v1.route('/feedback', feedbackController);
 v1.route('/notifications', notificationsController);
 v1.route('/files', filesController);
+v1.route('/series', seriesController);
+v1.route('/speakers', speakersController);
+v1.route('/jobs', jobsController);
+v1.route('/calendar', calendarController);
+v1.route('/approvals', approvalsController);
+v1.route('/venues', venuesController);
 
 // Mount v1 API
 app.route('/api/v1', v1);
@@ -83,4 +114,9 @@ app.notFound((c) => {
 log.info('🚀 USV Events API starting...');
 log.info(`📍 Environment: ${process.env.NODE_ENV || 'development'}`);
 
+// Tickets issued by one instance must verify on every other one
+if (process.env.NODE_ENV === 'production') {
+  assertTicketSigningKey();
+}
+
 export default app;
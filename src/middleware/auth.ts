@@ -1,4 +1,6 @@
 import type { Context, Next } from 'hono';
+import { timingSafeEqual } from 'node:crypto';
+import { config } from '../config';
 import { verifyAccessToken } from '../utils/jwt';
 import { unauthorized } from '../utils/response';
 import { db, users } from '../db';
@@ -115,3 +117,19 @@ export function optionalAuth() {
   };
 }
 
+/**
+ * Scheduled job authentication middleware
+ * Requires the CRON_SECRET bearer token sent by the scheduler
+ */
+export function cronAuth() {
+  return async (c: Context, next: Next) => {
+    const token = Buffer.from(extractBearerToken(c.req.header('Authorization')) ?? '');
+    const secret = Buffer.from(config.jobs.cronSecret);
+
+    if (secret.length === 0 || token.length !== secret.length || !timingSafeEqual(token, secret)) {
+      return unauthorized(c, 'Invalid cron secret');
+    }
+
+    await next();
+  };
+}
@@ -3,4 +3,5 @@ export { auth, optionalAuth } from './auth';
 export { requireRole, requireMinRole, requireAdmin, requireOrganizer, requireOwnership, requireOwnerOrRole } from './rbac';
 export { errorHandler } from './errorHandler';
 export { corsMiddleware } from './cors';
+export { rateLimit, consumeRateLimit, getClientIp } from './rateLimit';
 
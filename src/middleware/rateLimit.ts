@@ -0,0 +1,58 @@
+import type { Context, Next } from 'hono';
+import { sql } from 'drizzle-orm';
+import { db, rateLimits } from '../db';
+import { error } from '../utils/response';
+import { log } from './logger';
+
+interface RateLimitOptions {
+  scope: string;
+  max: number;
+  windowMs: number;
+}
+
+/**
+ * Client IP as reported by the proxy in front of the app
+ */
+export function getClientIp(c: Context) {
+  const forwardedFor = c.req.header('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwardedFor || c.req.header('x-real-ip') || 'unknown';
+}
+
+/**
+ * Count a request against a key in a fixed window. Returns false once more
+ * than `max` requests were made in the current window.
+ */
+export async function consumeRateLimit(key: string, max: number, windowMs: number) {
+  const now = new Date();
+  const windowExpired = sql`${rateLimits.windowStartedAt} <= ${new Date(now.getTime() - windowMs)}`;
+
+  const [entry] = await db
+    .insert(rateLimits)
+    .values({ key, count: 1, windowStartedAt: now })
+    .onConflictDoUpdate({
+      target: rateLimits.key,
+      set: {
+        count: sql`case when ${windowExpired} then 1 else ${rateLimits.count} + 1 end`,
+        windowStartedAt: sql`case when ${windowExpired} then ${now} else ${rateLimits.windowStartedAt} end`,
+      },
+    })
+    .returning({ count: rateLimits.count });
+
+  return entry.count <= max;
+}
+
+/**
+ * Rate limiting middleware keyed by client IP
+ */
+export function rateLimit({ scope, max, windowMs }: RateLimitOptions) {
+  return async (c: Context, next: Next) => {
+    const ip = getClientIp(c);
+
+    if (!(await consumeRateLimit(`${scope}:ip:${ip}`, max, windowMs))) {
+      log.warn(`Rate limit exceeded for ${scope} from ${ip}`);
+      return error(c, 'Too many requests, please try again later', 429);
+    }
+
+    await next();
+  };
+}
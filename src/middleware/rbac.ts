@@ -1,6 +1,9 @@
 import type { Context, Next } from 'hono';
-import { forbidden, unauthorized } from '../utils/response';
-import type { UserRole, AuthUser } from '../types';
+import { eq } from 'drizzle-orm';
+import { db, events } from '../db';
+import { staffService } from '../modules/staff/staff.service';
+import { forbidden, unauthorized, notFound } from '../utils/response';
+import type { UserRole, AuthUser, EventStaffRole } from '../types';
 
 /**
  * Role hierarchy - higher roles include permissions of lower roles
@@ -131,3 +134,64 @@ export function requireOwnerOrRole(
   };
 }
 
+/**
+ * Event-level permissions that can be delegated to event staff
+ */
+export type EventPermission = 'view' | 'update' | 'participants' | 'check_in' | 'stats' | 'materials';
+
+/**
+ * Permissions granted by each event staff role.
+ * The event organizer and admins hold every permission.
+ */
+const eventRolePermissions: Record<EventStaffRole, EventPermission[]> = {
+  co_organizer: ['view', 'update', 'participants', 'check_in', 'stats', 'materials'],
+  check_in_staff: ['view', 'participants', 'check_in'],
+  viewer: ['view', 'participants', 'stats'],
+};
+
+/**
+ * Check if a user holds a permission on an event, as organizer, admin or staff
+ */
+export async function hasEventPermission(
+  user: AuthUser,
+  event: { id: string; organizerId: string },
+  permission: EventPermission
+): Promise<boolean> {
+  if (user.role === 'admin' || event.organizerId === user.id) {
+    return true;
+  }
+
+  const staffRole = await staffService.getStaffRole(event.id, user.id);
+  return staffRole !== null && eventRolePermissions[staffRole].includes(permission);
+}
+
+/**
+ * Require an event-level permission on the event in the given route param
+ */
+export function requireEventPermission(permission: EventPermission, paramName = 'id') {
+  return async (c: Context, next: Next) => {
+    const user = c.get('user') as AuthUser | undefined;
+
+    if (!user) {
+      return unauthorized(c, 'Authentication required');
+    }
+
+    const eventId = c.req.param(paramName);
+    const event = eventId
+      ? await db.query.events.findFirst({
+          where: eq(events.id, eventId),
+          columns: { id: true, organizerId: true },
+        })
+      : undefined;
+
+    if (!event) {
+      return notFound(c, 'Event not found');
+    }
+
+    if (!(await hasEventPermission(user, event, permission))) {
+      return forbidden(c, 'You do not have permission to access this resource');
+    }
+
+    await next();
+  };
+}
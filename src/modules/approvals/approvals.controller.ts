@@ -0,0 +1,71 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { approvalsService } from './approvals.service';
+import { addReviewerSchema, listReviewersQuerySchema } from './approvals.schema';
+import { auth } from '../../middleware/auth';
+import { requireAdmin } from '../../middleware/rbac';
+import { success, error, successMessage } from '../../utils/response';
+import type { AuthUser } from '../../types';
+import type { Env } from '../../types/hono';
+
+const approvalsController = new Hono<Env>();
+
+/**
+ * GET /approvals/reviewers
+ * List reviewer assignments (admin only)
+ */
+approvalsController.get(
+  '/reviewers',
+  auth(),
+  requireAdmin(),
+  zValidator('query', listReviewersQuerySchema),
+  async (c) => {
+    try {
+      const query = c.req.valid('query');
+      const reviewers = await approvalsService.listReviewers(query);
+      return success(c, reviewers);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to list reviewers';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /approvals/reviewers
+ * Assign a user as department, faculty or central reviewer (admin only)
+ */
+approvalsController.post(
+  '/reviewers',
+  auth(),
+  requireAdmin(),
+  zValidator('json', addReviewerSchema),
+  async (c) => {
+    try {
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+      const reviewer = await approvalsService.addReviewer(user.id, input);
+      return success(c, reviewer, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to add reviewer';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * DELETE /approvals/reviewers/:id
+ * Remove a reviewer assignment (admin only)
+ */
+approvalsController.delete('/reviewers/:id', auth(), requireAdmin(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    await approvalsService.removeReviewer(id);
+    return successMessage(c, 'Reviewer removed successfully');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to remove reviewer';
+    return error(c, message, 400);
+  }
+});
+
+export { approvalsController };
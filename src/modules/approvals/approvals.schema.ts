@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+// Approval stage enum
+export const approvalStageEnum = z.enum(['department', 'faculty', 'central']);
+
+// Add reviewer schema; department and faculty reviewers are scoped to one unit
+export const addReviewerSchema = z
+  .object({
+    email: z.string().email('Invalid email'),
+    stage: approvalStageEnum,
+    facultyId: z.string().uuid('Invalid faculty ID').optional(),
+    departmentId: z.string().uuid('Invalid department ID').optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.stage === 'department' && !data.departmentId) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Department reviewers need a department',
+        path: ['departmentId'],
+      });
+    }
+    if (data.stage === 'faculty' && !data.facultyId) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Faculty reviewers need a faculty',
+        path: ['facultyId'],
+      });
+    }
+  });
+
+// List reviewers query schema
+export const listReviewersQuerySchema = z.object({
+  stage: approvalStageEnum.optional(),
+  facultyId: z.string().uuid().optional(),
+  departmentId: z.string().uuid().optional(),
+});
+
+// Review queue query schema
+export const reviewQueueQuerySchema = z.object({
+  stage: approvalStageEnum.optional(),
+});
+
+// Types
+export type AddReviewerInput = z.infer<typeof addReviewerSchema>;
+export type ListReviewersQuery = z.infer<typeof listReviewersQuerySchema>;
+export type ReviewQueueQuery = z.infer<typeof reviewQueueQuerySchema>;
@@ -0,0 +1,373 @@
+import { eq, and, or, asc, inArray, isNull } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { db, events, faculties, departments, users, approvalReviewers, eventApprovals } from '../../db';
+import { log } from '../../middleware/logger';
+import type { AddReviewerInput, ListReviewersQuery } from './approvals.schema';
+import type { ApprovalStage, AuthUser } from '../../types';
+
+// Pipeline for faculties that have not configured one
+const defaultFacultyStages: ApprovalStage[] = ['department', 'faculty'];
+
+interface PipelineEvent {
+  facultyId: string | null;
+  departmentId: string | null;
+  isFeatured: boolean;
+}
+
+interface ReviewableEvent {
+  facultyId: string | null;
+  departmentId: string | null;
+  approvalStage: ApprovalStage | null;
+}
+
+interface RecordDecisionInput {
+  eventId: string;
+  stage: ApprovalStage;
+  reviewerId: string;
+  decision: 'approved' | 'rejected';
+  comment?: string | null;
+  isOverride?: boolean;
+}
+
+export class ApprovalsService {
+  /**
+   * Build the review pipeline for an event. Department and faculty stages come
+   * from the faculty's configuration and are skipped when nobody is assigned to
+   * review them; university-wide and featured events always end with central admin.
+   */
+  async getPipeline(event: PipelineEvent): Promise<ApprovalStage[]> {
+    const stages: ApprovalStage[] = [];
+    let configured: ApprovalStage[] = [];
+
+    if (event.facultyId) {
+      const faculty = await db.query.faculties.findFirst({
+        where: eq(faculties.id, event.facultyId),
+        columns: { approvalStages: true },
+      });
+
+      configured = faculty?.approvalStages ?? defaultFacultyStages;
+    }
+
+    if (
+      configured.includes('department') &&
+      event.departmentId &&
+      (await this.hasReviewers('department', eq(approvalReviewers.departmentId, event.departmentId)))
+    ) {
+      stages.push('department');
+    }
+
+    if (
+      configured.includes('faculty') &&
+      event.facultyId &&
+      (await this.hasReviewers('faculty', eq(approvalReviewers.facultyId, event.facultyId)))
+    ) {
+      stages.push('faculty');
+    }
+
+    if (!event.facultyId || event.isFeatured || configured.includes('central') || stages.length === 0) {
+      stages.push('central');
+    }
+
+    return stages;
+  }
+
+  /**
+   * Check whether a stage has at least one reviewer in the given scope
+   */
+  private async hasReviewers(stage: ApprovalStage, scope: SQL) {
+    const reviewer = await db.query.approvalReviewers.findFirst({
+      where: and(eq(approvalReviewers.stage, stage), scope),
+      columns: { id: true },
+    });
+
+    return !!reviewer;
+  }
+
+  /**
+   * Check whether a user can review an event at its current stage.
+   * Admins review the central stage; department and faculty stages belong to
+   * their assigned reviewers, and admins act on them only through an override.
+   */
+  async canReview(user: AuthUser, event: ReviewableEvent) {
+    const stage = event.approvalStage ?? 'central';
+
+    if (stage === 'central' && user.role === 'admin') {
+      return true;
+    }
+
+    const conditions = [eq(approvalReviewers.userId, user.id), eq(approvalReviewers.stage, stage)];
+
+    if (stage === 'department') {
+      if (!event.departmentId) return false;
+      conditions.push(eq(approvalReviewers.departmentId, event.departmentId));
+    } else if (stage === 'faculty') {
+      if (!event.facultyId) return false;
+      conditions.push(eq(approvalReviewers.facultyId, event.facultyId));
+    }
+
+    const assignment = await db.query.approvalReviewers.findFirst({
+      where: and(...conditions),
+      columns: { id: true },
+    });
+
+    return !!assignment;
+  }
+
+  /**
+   * Check whether a user reviews any stage of an event's pipeline
+   */
+  async isReviewerFor(user: AuthUser, event: Omit<ReviewableEvent, 'approvalStage'>) {
+    const stages: ApprovalStage[] = ['department', 'faculty', 'central'];
+
+    for (const approvalStage of stages) {
+      if (await this.canReview(user, { ...event, approvalStage })) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Record a reviewer's decision on a stage
+   */
+  async recordDecision(input: RecordDecisionInput) {
+    const [approval] = await db
+      .insert(eventApprovals)
+      .values({
+        eventId: input.eventId,
+        stage: input.stage,
+        reviewerId: input.reviewerId,
+        decision: input.decision,
+        comment: input.comment ?? null,
+        isOverride: input.isOverride ?? false,
+      })
+      .returning();
+
+    log.info(
+      `Event ${input.eventId} ${input.decision} at ${input.stage} stage by ${input.reviewerId}` +
+        (input.isOverride ? ' (admin override)' : '')
+    );
+    return approval;
+  }
+
+  /**
+   * Get the pipeline, current stage and decisions of an event
+   */
+  async getEventApprovals(eventId: string) {
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+      columns: { id: true, status: true, approvalStage: true, approvalStages: true },
+    });
+
+    if (!event) {
+      return null;
+    }
+
+    const decisions = await db.query.eventApprovals.findMany({
+      where: eq(eventApprovals.eventId, eventId),
+      orderBy: [asc(eventApprovals.createdAt)],
+      with: {
+        reviewer: {
+          columns: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    return {
+      eventId: event.id,
+      status: event.status,
+      stages: event.approvalStages ?? [],
+      currentStage: event.approvalStage,
+      decisions,
+    };
+  }
+
+  /**
+   * Get pending events the user can review at their current stage
+   */
+  async getReviewQueue(user: AuthUser, stage?: ApprovalStage) {
+    const conditions = [eq(events.status, 'pending')];
+
+    if (stage === 'central') {
+      // Events submitted before pipelines existed have no stage and go to central review
+      conditions.push(or(eq(events.approvalStage, 'central'), isNull(events.approvalStage))!);
+    } else if (stage) {
+      conditions.push(eq(events.approvalStage, stage));
+    }
+
+    const assignments = await db.query.approvalReviewers.findMany({
+      where: eq(approvalReviewers.userId, user.id),
+    });
+
+    const departmentIds = assignments
+      .filter((a) => a.stage === 'department' && a.departmentId)
+      .map((a) => a.departmentId!);
+    const facultyIds = assignments
+      .filter((a) => a.stage === 'faculty' && a.facultyId)
+      .map((a) => a.facultyId!);
+    const isCentral = user.role === 'admin' || assignments.some((a) => a.stage === 'central');
+
+    const scopes: SQL[] = [];
+
+    if (departmentIds.length > 0) {
+      scopes.push(and(eq(events.approvalStage, 'department'), inArray(events.departmentId, departmentIds))!);
+    }
+    if (facultyIds.length > 0) {
+      scopes.push(and(eq(events.approvalStage, 'faculty'), inArray(events.facultyId, facultyIds))!);
+    }
+    if (isCentral) {
+      scopes.push(or(eq(events.approvalStage, 'central'), isNull(events.approvalStage))!);
+    }
+
+    if (scopes.length === 0) {
+      return [];
+    }
+
+    conditions.push(or(...scopes)!);
+
+    return db.query.events.findMany({
+      where: and(...conditions),
+      with: {
+        organizer: {
+          columns: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+        faculty: true,
+        department: true,
+      },
+      orderBy: [asc(events.createdAt)],
+    });
+  }
+
+  /**
+   * List reviewer assignments
+   */
+  async listReviewers(query: ListReviewersQuery) {
+    const conditions = [];
+
+    if (query.stage) {
+      conditions.push(eq(approvalReviewers.stage, query.stage));
+    }
+    if (query.facultyId) {
+      conditions.push(eq(approvalReviewers.facultyId, query.facultyId));
+    }
+    if (query.departmentId) {
+      conditions.push(eq(approvalReviewers.departmentId, query.departmentId));
+    }
+
+    return db.query.approvalReviewers.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      orderBy: [asc(approvalReviewers.stage), asc(approvalReviewers.createdAt)],
+      with: {
+        user: {
+          columns: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        faculty: true,
+        department: true,
+      },
+    });
+  }
+
+  /**
+   * Assign a user as reviewer for a stage
+   */
+  async addReviewer(createdBy: string, input: AddReviewerInput) {
+    const user = await db.query.users.findFirst({
+      where: eq(users.email, input.email.toLowerCase()),
+      columns: { id: true, isActive: true },
+    });
+
+    if (!user || !user.isActive) {
+      throw new Error('No active user found with this email');
+    }
+
+    let facultyId: string | null = null;
+    let departmentId: string | null = null;
+
+    if (input.stage === 'department') {
+      const department = await db.query.departments.findFirst({
+        where: eq(departments.id, input.departmentId!),
+        columns: { id: true, facultyId: true },
+      });
+
+      if (!department) {
+        throw new Error('Department not found');
+      }
+
+      departmentId = department.id;
+      facultyId = department.facultyId;
+    } else if (input.stage === 'faculty') {
+      const faculty = await db.query.faculties.findFirst({
+        where: eq(faculties.id, input.facultyId!),
+        columns: { id: true },
+      });
+
+      if (!faculty) {
+        throw new Error('Faculty not found');
+      }
+
+      facultyId = faculty.id;
+    }
+
+    const existing = await db.query.approvalReviewers.findFirst({
+      where: and(
+        eq(approvalReviewers.userId, user.id),
+        eq(approvalReviewers.stage, input.stage),
+        facultyId ? eq(approvalReviewers.facultyId, facultyId) : isNull(approvalReviewers.facultyId),
+        departmentId ? eq(approvalReviewers.departmentId, departmentId) : isNull(approvalReviewers.departmentId)
+      ),
+      columns: { id: true },
+    });
+
+    if (existing) {
+      throw new Error('User is already a reviewer for this stage');
+    }
+
+    const [reviewer] = await db
+      .insert(approvalReviewers)
+      .values({
+        userId: user.id,
+        stage: input.stage,
+        facultyId,
+        departmentId,
+        createdBy,
+      })
+      .returning();
+
+    log.info(`User ${user.id} assigned as ${input.stage} reviewer by ${createdBy}`);
+    return reviewer;
+  }
+
+  /**
+   * Remove a reviewer assignment
+   */
+  async removeReviewer(id: string) {
+    const [deleted] = await db
+      .delete(approvalReviewers)
+      .where(eq(approvalReviewers.id, id))
+      .returning();
+
+    if (!deleted) {
+      throw new Error('Reviewer not found');
+    }
+
+    log.info(`Reviewer assignment ${id} removed`);
+  }
+}
+
+export const approvalsService = new ApprovalsService();
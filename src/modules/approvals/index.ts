@@ -0,0 +1,3 @@
+export { approvalsController } from './approvals.controller';
+export { approvalsService } from './approvals.service';
+export * from './approvals.schema';
@@ -0,0 +1,78 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { calendarService } from './calendar.service';
+import { calendarFeedQuerySchema } from './calendar.schema';
+import { auth } from '../../middleware/auth';
+import { success, error, notFound } from '../../utils/response';
+import type { AuthUser } from '../../types';
+import type { Env } from '../../types/hono';
+
+const calendarController = new Hono<Env>();
+
+// Build the subscription URL for a feed token
+function feedUrl(requestUrl: string, token: string) {
+  return `${new URL(requestUrl).origin}/api/v1/calendar/${token}.ics`;
+}
+
+/**
+ * GET /calendar/feed
+ * Get the current user's personal calendar feed URL
+ */
+calendarController.get('/feed', auth(), async (c) => {
+  try {
+    const user = c.get('user') as AuthUser;
+    const token = await calendarService.getFeedToken(user.id);
+    const url = feedUrl(c.req.url, token);
+    return success(c, { url, urlWithFavorites: `${url}?favorites=true` });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get calendar feed';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /calendar/feed/reset
+ * Issue a new feed URL, revoking the previous one
+ */
+calendarController.post('/feed/reset', auth(), async (c) => {
+  try {
+    const user = c.get('user') as AuthUser;
+    const token = await calendarService.resetFeedToken(user.id);
+    const url = feedUrl(c.req.url, token);
+    return success(c, { url, urlWithFavorites: `${url}?favorites=true` });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to reset calendar feed';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /calendar/:token.ics
+ * Personal calendar feed (public, authenticated by the secret token)
+ */
+calendarController.get(
+  '/:file{[a-f0-9]+\\.ics}',
+  zValidator('query', calendarFeedQuerySchema),
+  async (c) => {
+    try {
+      const token = c.req.param('file').replace(/\.ics$/, '');
+      const { favorites } = c.req.valid('query');
+
+      const calendar = await calendarService.getFeed(token, favorites === 'true');
+
+      if (!calendar) {
+        return notFound(c, 'Calendar feed not found');
+      }
+
+      return c.body(calendar, 200, {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=900',
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to get calendar feed';
+      return error(c, message, 400);
+    }
+  }
+);
+
+export { calendarController };
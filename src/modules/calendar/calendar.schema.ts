@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+// Calendar feed query schema
+export const calendarFeedQuerySchema = z.object({
+  favorites: z.enum(['true', 'false']).optional().default('false'),
+});
+
+// Types
+export type CalendarFeedQuery = z.infer<typeof calendarFeedQuerySchema>;
@@ -0,0 +1,138 @@
+import { randomBytes } from 'node:crypto';
+import { eq, and, inArray } from 'drizzle-orm';
+import { db, users, eventRegistrations, eventFavorites } from '../../db';
+import { log } from '../../middleware/logger';
+import { buildCalendar } from '../../utils/ical';
+import type { IcsEvent } from '../../utils/ical';
+import { publicEventStatuses } from '../events/events.service';
+import type { SelectEvent } from '../../types';
+
+// Feeds skip events that ended longer ago than this
+const FEED_HISTORY_MS = 180 * 24 * 60 * 60 * 1000;
+
+export class CalendarService {
+  /**
+   * Map an event to an iCalendar VEVENT. The UID is stable per event and the
+   * SEQUENCE grows on every reschedule or cancellation.
+   */
+  toIcsEvent(event: SelectEvent): IcsEvent {
+    const cancelled = event.status === 'cancelled';
+    const location = event.isOnline
+      ? event.onlineLink ?? event.location
+      : [event.location, event.address].filter(Boolean).join(', ');
+
+    return {
+      uid: `${event.id}@usv-events`,
+      sequence: event.sequence,
+      title: event.title,
+      description: cancelled
+        ? `This event has been cancelled. ${event.cancellationReason ?? ''}`.trim()
+        : event.shortDescription ?? event.description,
+      location,
+      startDate: event.startDate,
+      endDate: event.endDate,
+      lastModified: event.updatedAt,
+      cancelled,
+    };
+  }
+
+  /**
+   * Build an .ics document for a single event
+   */
+  buildEventCalendar(event: SelectEvent) {
+    return buildCalendar(event.title, [this.toIcsEvent(event)]);
+  }
+
+  /**
+   * Get the user's calendar feed token, creating one on first use
+   */
+  async getFeedToken(userId: string) {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { calendarToken: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user.calendarToken ?? this.resetFeedToken(userId);
+  }
+
+  /**
+   * Issue a new feed token, invalidating previously shared feed URLs
+   */
+  async resetFeedToken(userId: string) {
+    const calendarToken = randomBytes(32).toString('hex');
+
+    await db
+      .update(users)
+      .set({ calendarToken, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+
+    log.info(`Calendar feed token issued for user ${userId}`);
+    return calendarToken;
+  }
+
+  /**
+   * Build the personal feed for a token: confirmed registrations and,
+   * optionally, favorites. Returns null for unknown tokens.
+   */
+  async getFeed(token: string, includeFavorites = false) {
+    const user = await db.query.users.findFirst({
+      where: and(eq(users.calendarToken, token), eq(users.isActive, true)),
+      columns: { id: true },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    const registrations = await db.query.eventRegistrations.findMany({
+      where: and(
+        eq(eventRegistrations.userId, user.id),
+        inArray(eventRegistrations.status, ['confirmed', 'attended', 'no_show', 'cancelled'])
+      ),
+      with: {
+        event: true,
+      },
+    });
+
+    // Registrations cancelled together with their event stay in the feed so
+    // subscribed calendars receive the cancellation
+    const feedEvents = registrations
+      .filter(({ status, event }) => status !== 'cancelled' || event.status === 'cancelled')
+      .map(({ event }) => event);
+
+    if (includeFavorites) {
+      const favorites = await db.query.eventFavorites.findMany({
+        where: eq(eventFavorites.userId, user.id),
+        with: {
+          event: true,
+        },
+      });
+
+      feedEvents.push(
+        ...favorites
+          .map((favorite) => favorite.event)
+          .filter((event) => publicEventStatuses.includes(event.status))
+      );
+    }
+
+    const since = Date.now() - FEED_HISTORY_MS;
+    const unique = new Map(
+      feedEvents
+        .filter((event) => event.endDate.getTime() >= since)
+        .map((event) => [event.id, event])
+    );
+
+    return buildCalendar(
+      'USV Events',
+      Array.from(unique.values())
+        .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
+        .map((event) => this.toIcsEvent(event))
+    );
+  }
+}
+
+export const calendarService = new CalendarService();
@@ -0,0 +1,3 @@
+export { calendarController } from './calendar.controller';
+export { calendarService } from './calendar.service';
+export * from './calendar.schema';
@@ -0,0 +1,133 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { certificatesService } from './certificates.service';
+import { generateCertificatesSchema } from './certificates.schema';
+import { auth } from '../../middleware/auth';
+import { requireEventPermission } from '../../middleware/rbac';
+import { success, error, notFound } from '../../utils/response';
+import type { AuthUser } from '../../types';
+import type { Env } from '../../types/hono';
+
+// Mounted under /events, next to the events controller
+const certificatesController = new Hono<Env>();
+
+/**
+ * GET /events/:id/certificates/me
+ * Download the current user's certificate of attendance as a PDF
+ */
+certificatesController.get('/:id/certificates/me', auth(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const certificate = await certificatesService.getUserCertificate(id, user.id);
+
+    return c.body(new Uint8Array(certificatesService.renderCertificatePdf(certificate)), 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="certificate-${certificate.code}.pdf"`,
+      'Cache-Control': 'private, no-store',
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to generate certificate';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /events/:id/certificates
+ * List the certificates issued for an event (organizer, staff or admin)
+ */
+certificatesController.get('/:id/certificates', auth(), requireEventPermission('participants'), async (c) => {
+  try {
+    const { id } = c.req.param();
+
+    const certificates = await certificatesService.listEventCertificates(id);
+    return success(c, certificates);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get certificates';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /events/:id/certificates/generate
+ * Issue certificates to all attendees who don't have one yet (organizer, co-organizer or admin)
+ */
+certificatesController.post(
+  '/:id/certificates/generate',
+  auth(),
+  requireEventPermission('update'),
+  zValidator('json', generateCertificatesSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const { notify } = c.req.valid('json');
+
+      const result = await certificatesService.generateEventCertificates(id, notify);
+      return success(c, result);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to generate certificates';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * Verify and download certificates by their code (public)
+ */
+const certificateVerificationController = new Hono<Env>();
+
+/**
+ * GET /certificates/verify/:code
+ * Confirm a certificate is authentic
+ */
+certificateVerificationController.get('/verify/:code', async (c) => {
+  try {
+    const { code } = c.req.param();
+
+    const certificate = await certificatesService.getCertificateByCode(code);
+
+    if (!certificate) {
+      return notFound(c, 'Certificate not found');
+    }
+
+    return success(c, {
+      valid: true,
+      code: certificate.code,
+      recipientName: certificate.recipientName,
+      title: certificate.title,
+      issuedAt: certificate.issuedAt,
+      event: certificate.event,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to verify certificate';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /certificates/:code/pdf
+ * Download a certificate as a PDF
+ */
+certificateVerificationController.get('/:code/pdf', async (c) => {
+  try {
+    const { code } = c.req.param();
+
+    const certificate = await certificatesService.getCertificateByCode(code);
+
+    if (!certificate) {
+      return notFound(c, 'Certificate not found');
+    }
+
+    return c.body(new Uint8Array(certificatesService.renderCertificatePdf(certificate)), 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="certificate-${certificate.code}.pdf"`,
+      'Cache-Control': 'private, no-store',
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to generate certificate';
+    return error(c, message, 400);
+  }
+});
+
+export { certificatesController, certificateVerificationController };
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+// Bulk certificate generation schema
+export const generateCertificatesSchema = z.object({
+  notify: z.boolean().default(true), // Tell recipients their certificate is ready
+});
+
+// Types
+export type GenerateCertificatesInput = z.infer<typeof generateCertificatesSchema>;
@@ -0,0 +1,436 @@
+import { eq, and, asc } from 'drizzle-orm';
+import { db, events, eventRegistrations, certificates } from '../../db';
+import { config } from '../../config';
+import { log } from '../../middleware/logger';
+import { checkInService } from '../checkin/checkin.service';
+import { notificationsService } from '../notifications/notifications.service';
+import { sendEmail } from '../../utils/mailer';
+import { encodeQr } from '../../utils/qr';
+import { buildPdf, wrapText, estimateTextWidth } from '../../utils/pdf';
+import type { PdfText, PdfRect } from '../../utils/pdf';
+import { generateCertificateCode, renderCertificateText } from '../../utils/certificate-template';
+import type { CertificatePlaceholder } from '../../utils/certificate-template';
+import type { SelectEvent } from '../../types';
+
+type Certificate = typeof certificates.$inferSelect;
+type Registration = typeof eventRegistrations.$inferSelect;
+
+interface Recipient {
+  registration: Registration;
+  user: { firstName: string; lastName: string } | null;
+}
+
+// A4 landscape, in points
+const CERTIFICATE_PAGE = { width: 842, height: 595, margin: 60 };
+
+/**
+ * Public page where a certificate can be checked and downloaded
+ */
+export function buildVerificationLink(code: string) {
+  return `${config.frontend.url}/certificates/${encodeURIComponent(code)}`;
+}
+
+function recipientName({ registration, user }: Recipient) {
+  return user ? `${user.firstName} ${user.lastName}`.trim() : registration.guestName ?? '';
+}
+
+/**
+ * Format a length of time in hours with at most one decimal, e.g. "2.5"
+ */
+function formatHours(seconds: number) {
+  return Number((seconds / 3600).toFixed(1)).toString();
+}
+
+export class CertificatesService {
+  private async getEvent(eventId: string) {
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+      with: {
+        organizer: {
+          columns: {
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    return event;
+  }
+
+  /**
+   * Make sure an event offers certificates and they can be issued yet
+   */
+  private assertCertificatesAvailable(event: SelectEvent) {
+    if (!event.certificateTemplate?.enabled) {
+      throw new Error('Certificates are not enabled for this event');
+    }
+
+    if (event.endDate > new Date()) {
+      throw new Error('Certificates are available once the event has ended');
+    }
+  }
+
+  /**
+   * Values for the template placeholders
+   */
+  private getPlaceholderValues(
+    event: Awaited<ReturnType<CertificatesService['getEvent']>>,
+    recipient: Recipient,
+    attendedSeconds: number
+  ): Record<CertificatePlaceholder, string> {
+    const formatDate = new Intl.DateTimeFormat('en-GB', {
+      dateStyle: 'long',
+      timeZone: config.calendar.timeZone,
+    });
+    const start = formatDate.format(event.startDate);
+    const end = formatDate.format(event.endDate);
+
+    return {
+      name: recipientName(recipient),
+      event: event.title,
+      date: start === end ? start : `${start} - ${end}`,
+      location: event.isOnline ? 'Online' : event.location,
+      hours: formatHours(attendedSeconds),
+      organizer: `${event.organizer.firstName} ${event.organizer.lastName}`.trim(),
+    };
+  }
+
+  /**
+   * Issue a certificate from the event's template; an existing certificate is
+   * kept as issued. Returns null when the registration did not attend enough.
+   */
+  private async issue(
+    event: Awaited<ReturnType<CertificatesService['getEvent']>>,
+    recipient: Recipient,
+    rule: { scheduledSeconds: number; requiredSeconds: number | null }
+  ): Promise<{ certificate: Certificate; created: boolean } | null> {
+    const { registration } = recipient;
+
+    const existing = await db.query.certificates.findFirst({
+      where: eq(certificates.registrationId, registration.id),
+    });
+
+    if (existing) {
+      return { certificate: existing, created: false };
+    }
+
+    if (
+      registration.status !== 'attended' ||
+      (rule.requiredSeconds !== null && registration.attendanceSeconds < rule.requiredSeconds)
+    ) {
+      return null;
+    }
+
+    const template = event.certificateTemplate!;
+    // Check-ins from before attendance tracking have no scans and count the scheduled time
+    const legacyCheckIn =
+      registration.attendanceSeconds === 0 && !(await checkInService.hasAttendanceScans(registration.id));
+    const values = this.getPlaceholderValues(
+      event,
+      recipient,
+      legacyCheckIn ? rule.scheduledSeconds : registration.attendanceSeconds
+    );
+
+    const [certificate] = await db
+      .insert(certificates)
+      .values({
+        eventId: event.id,
+        registrationId: registration.id,
+        code: generateCertificateCode(),
+        recipientName: values.name,
+        title: renderCertificateText(template.title, values),
+        body: renderCertificateText(template.body, values),
+        signatoryName: template.signatoryName ?? null,
+        signatoryTitle: template.signatoryTitle ?? null,
+      })
+      .onConflictDoNothing({ target: certificates.registrationId })
+      .returning();
+
+    if (!certificate) {
+      // Issued by a concurrent request
+      const issued = await db.query.certificates.findFirst({
+        where: eq(certificates.registrationId, registration.id),
+      });
+
+      return { certificate: issued!, created: false };
+    }
+
+    log.info(`Certificate ${certificate.code} issued for registration ${registration.id}`);
+    return { certificate, created: true };
+  }
+
+  /**
+   * Get the current user's certificate for an event, issuing it on first download
+   */
+  async getUserCertificate(eventId: string, userId: string) {
+    const event = await this.getEvent(eventId);
+
+    const registration = await db.query.eventRegistrations.findFirst({
+      where: and(eq(eventRegistrations.eventId, eventId), eq(eventRegistrations.userId, userId)),
+      with: {
+        user: {
+          columns: {
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    if (!registration || registration.status !== 'attended') {
+      throw new Error('Only attendees can get a certificate for this event');
+    }
+
+    const existing = await db.query.certificates.findFirst({
+      where: eq(certificates.registrationId, registration.id),
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    this.assertCertificatesAvailable(event);
+
+    const rule = await checkInService.getAttendanceRule(eventId);
+    const issued = await this.issue(event, { registration, user: registration.user }, rule);
+
+    if (!issued) {
+      throw new Error('You did not attend enough of the event to get a certificate');
+    }
+
+    return issued.certificate;
+  }
+
+  /**
+   * Issue certificates to every attendee who has none yet and, optionally,
+   * tell them it is ready
+   */
+  async generateEventCertificates(eventId: string, notify: boolean) {
+    const event = await this.getEvent(eventId);
+    this.assertCertificatesAvailable(event);
+
+    const rule = await checkInService.getAttendanceRule(eventId);
+    const attendees = await db.query.eventRegistrations.findMany({
+      where: and(eq(eventRegistrations.eventId, eventId), eq(eventRegistrations.status, 'attended')),
+      with: {
+        user: {
+          columns: {
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    const created: { registration: Registration; certificate: Certificate }[] = [];
+    let alreadyIssued = 0;
+    let skipped = 0;
+
+    for (const registration of attendees) {
+      const result = await this.issue(event, { registration, user: registration.user }, rule);
+
+      if (!result) {
+        skipped++;
+      } else if (result.created) {
+        created.push({ registration, certificate: result.certificate });
+      } else {
+        alreadyIssued++;
+      }
+    }
+
+    if (notify && created.length > 0) {
+      await this.notifyRecipients(event.id, event.title, created);
+    }
+
+    log.info(`Generated ${created.length} certificate(s) for event ${eventId}`);
+    return { issued: created.length, alreadyIssued, skipped };
+  }
+
+  /**
+   * Notify users in the app and email guests, who have no account, a link to their certificate
+   */
+  private async notifyRecipients(
+    eventId: string,
+    eventTitle: string,
+    recipients: { registration: Registration; certificate: Certificate }[]
+  ) {
+    for (const { registration, certificate } of recipients) {
+      if (registration.userId) {
+        await notificationsService.sendCertificateAvailable(registration.userId, eventId, eventTitle, certificate.code);
+      }
+    }
+
+    const results = await Promise.allSettled(
+      recipients
+        .filter(({ registration }) => !registration.userId && registration.guestEmail)
+        .map(({ registration, certificate }) =>
+          sendEmail({
+            to: registration.guestEmail!,
+            subject: `Your certificate for ${eventTitle}`,
+            text: [
+              `Hello ${certificate.recipientName},`,
+              '',
+              `Thank you for attending "${eventTitle}". Your certificate of attendance is ready and can be downloaded here:`,
+              buildVerificationLink(certificate.code),
+              '',
+              `Verification code: ${certificate.code}`,
+            ].join('\n'),
+          })
+        )
+    );
+
+    const failed = results.filter((result) => result.status === 'rejected').length;
+
+    if (failed > 0) {
+      log.warn(`Failed to email ${failed} guest(s) about their certificate for "${eventTitle}"`);
+    }
+  }
+
+  /**
+   * List the certificates issued for an event
+   */
+  async listEventCertificates(eventId: string) {
+    return db.query.certificates.findMany({
+      where: eq(certificates.eventId, eventId),
+      with: {
+        registration: {
+          columns: {
+            userId: true,
+            guestEmail: true,
+            ticketNumber: true,
+            attendanceSeconds: true,
+          },
+        },
+      },
+      orderBy: [asc(certificates.recipientName)],
+    });
+  }
+
+  /**
+   * Find a certificate by its verification code
+   */
+  async getCertificateByCode(code: string) {
+    const certificate = await db.query.certificates.findFirst({
+      where: eq(certificates.code, code.trim().toUpperCase()),
+      with: {
+        event: {
+          columns: {
+            id: true,
+            title: true,
+            startDate: true,
+            endDate: true,
+            location: true,
+            isOnline: true,
+          },
+        },
+      },
+    });
+
+    return certificate ?? null;
+  }
+
+  /**
+   * Render a certificate as a landscape A4 PDF with a QR code linking to its verification page
+   */
+  renderCertificatePdf(certificate: Certificate) {
+    const { width, height, margin } = CERTIFICATE_PAGE;
+    const contentWidth = width - margin * 2;
+    const texts: PdfText[] = [];
+
+    // Frame: a dark border with a white page on top
+    const rects: PdfRect[] = [
+      { x: 20, y: 20, width: width - 40, height: height - 40, gray: 0.15 },
+      { x: 26, y: 26, width: width - 52, height: height - 52, gray: 1 },
+      { x: 32, y: 32, width: width - 64, height: height - 64, gray: 0.6 },
+      { x: 33, y: 33, width: width - 66, height: height - 66, gray: 1 },
+    ];
+
+    const centered = (text: string, y: number, size: number, bold = false, gray?: number) => {
+      texts.push({ x: (width - estimateTextWidth(text, size, bold)) / 2, y, size, text, bold, gray });
+    };
+
+    centered('USV EVENTS', height - 80, 10, true, 0.4);
+
+    let y = height - 125;
+    for (const line of wrapText(certificate.title.toUpperCase(), 28, contentWidth, true).slice(0, 2)) {
+      centered(line, y, 28, true);
+      y -= 34;
+    }
+
+    centered('This certificate is presented to', y - 8, 12, false, 0.35);
+    y -= 50;
+
+    const nameSize = estimateTextWidth(certificate.recipientName, 26, true) > contentWidth ? 18 : 26;
+    centered(certificate.recipientName, y, nameSize, true);
+    rects.push({ x: (width - 360) / 2, y: y - 12, width: 360, height: 0.8, gray: 0.6 });
+    y -= 44;
+
+    for (const line of wrapText(certificate.body, 12, contentWidth - 80).slice(0, 8)) {
+      centered(line, y, 12);
+      y -= 17;
+    }
+
+    // Signature line
+    if (certificate.signatoryName) {
+      const lineWidth = 200;
+      const lineX = margin + 20;
+      rects.push({ x: lineX, y: 128, width: lineWidth, height: 0.8 });
+      texts.push({
+        x: lineX + (lineWidth - estimateTextWidth(certificate.signatoryName, 11, true)) / 2,
+        y: 112,
+        size: 11,
+        text: certificate.signatoryName,
+        bold: true,
+      });
+
+      if (certificate.signatoryTitle) {
+        texts.push({
+          x: lineX + (lineWidth - estimateTextWidth(certificate.signatoryTitle, 9)) / 2,
+          y: 98,
+          size: 9,
+          text: certificate.signatoryTitle,
+          gray: 0.35,
+        });
+      }
+    }
+
+    const issuedOn = new Intl.DateTimeFormat('en-GB', {
+      dateStyle: 'long',
+      timeZone: config.calendar.timeZone,
+    }).format(certificate.issuedAt);
+    const link = buildVerificationLink(certificate.code);
+
+    texts.push({ x: margin + 20, y: 72, size: 8, text: `Issued on ${issuedOn}`, gray: 0.35 });
+    texts.push({ x: margin + 20, y: 60, size: 8, text: `Verification code: ${certificate.code}`, gray: 0.35 });
+    texts.push({ x: margin + 20, y: 48, size: 8, text: `Verify at ${link}`, gray: 0.35 });
+
+    // QR code of the verification link in the bottom right corner
+    const matrix = encodeQr(link);
+    const qrSize = 90;
+    const moduleSize = qrSize / matrix.length;
+    const qrX = width - margin - 20 - qrSize;
+    const qrTop = 48 + qrSize;
+
+    matrix.forEach((row, my) => {
+      row.forEach((dark, mx) => {
+        if (dark) {
+          rects.push({
+            x: qrX + mx * moduleSize,
+            y: qrTop - (my + 1) * moduleSize,
+            width: moduleSize,
+            height: moduleSize,
+          });
+        }
+      });
+    });
+
+    return buildPdf({ width, height, title: `${certificate.title} - ${certificate.recipientName}`, texts, rects });
+  }
+}
+
+export const certificatesService = new CertificatesService();
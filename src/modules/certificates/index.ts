@@ -0,0 +1,3 @@
+export { certificatesController, certificateVerificationController } from './certificates.controller';
+export { certificatesService } from './certificates.service';
+export * from './certificates.schema';
@@ -0,0 +1,122 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { checkInService } from './checkin.service';
+import { attendanceScanSchema, syncCheckInsSchema } from './checkin.schema';
+import { auth } from '../../middleware/auth';
+import { requireEventPermission } from '../../middleware/rbac';
+import { success, error } from '../../utils/response';
+import type { AuthUser } from '../../types';
+import type { Env } from '../../types/hono';
+
+// Mounted under /events, next to the events controller
+const checkInController = new Hono<Env>();
+
+/**
+ * POST /events/:id/check-out
+ * Check out a participant who leaves (organizer, co-organizer, check-in staff or admin)
+ */
+checkInController.post(
+  '/:id/check-out',
+  auth(),
+  requireEventPermission('check_in'),
+  zValidator('json', attendanceScanSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const { ticketNumber, qrCode } = c.req.valid('json');
+
+      const registration = await checkInService.checkOut(id, user.id, ticketNumber, qrCode);
+      return success(c, registration);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to check out participant';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /events/:id/check-in/rescan
+ * Confirm a checked-in participant is still present (organizer, co-organizer, check-in staff or admin)
+ */
+checkInController.post(
+  '/:id/check-in/rescan',
+  auth(),
+  requireEventPermission('check_in'),
+  zValidator('json', attendanceScanSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const { ticketNumber, qrCode } = c.req.valid('json');
+
+      const registration = await checkInService.rescan(id, user.id, ticketNumber, qrCode);
+      return success(c, registration);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to re-scan participant';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * GET /events/:id/attendance
+ * Get attendance time per checked-in participant and whether it meets the
+ * minimum-attendance rule (organizer, staff or admin)
+ */
+checkInController.get('/:id/attendance', auth(), requireEventPermission('participants'), async (c) => {
+  try {
+    const { id } = c.req.param();
+
+    const attendance = await checkInService.getAttendance(id);
+    return success(c, attendance);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get attendance';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /events/:id/check-in/snapshot
+ * Download a signed snapshot of the event's valid tickets for offline scanning
+ * (organizer, co-organizer, check-in staff or admin)
+ */
+checkInController.get('/:id/check-in/snapshot', auth(), requireEventPermission('check_in'), async (c) => {
+  try {
+    const { id } = c.req.param();
+
+    const snapshot = await checkInService.getSnapshot(id);
+    c.header('Cache-Control', 'private, no-store');
+    return success(c, snapshot);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get check-in snapshot';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /events/:id/check-in/sync
+ * Upload scans recorded offline and get the outcome of each one
+ * (organizer, co-organizer, check-in staff or admin)
+ */
+checkInController.post(
+  '/:id/check-in/sync',
+  auth(),
+  requireEventPermission('check_in'),
+  zValidator('json', syncCheckInsSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+
+      const result = await checkInService.syncScans(id, user.id, input);
+      return success(c, result);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to sync check-ins';
+      return error(c, message, 400);
+    }
+  }
+);
+
+export { checkInController };
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+// A scan recorded offline by a scanner device
+export const checkInScanSchema = z.object({
+  scanId: z.string().min(1, 'Scan ID is required').max(100), // Unique per device; re-uploads are skipped
+  ticketNumber: z.string().max(50).optional(),
+  qrCode: z.string().max(500).optional(),
+  type: z.enum(['check_in', 'check_out']).default('check_in'), // Exit scanners record check-outs
+  scannedAt: z.string().datetime({ offset: true, message: 'Invalid scan time' }), // Device clock
+}).refine(
+  (data) => data.ticketNumber || data.qrCode,
+  {
+    message: 'Either ticket number or QR code is required',
+  }
+);
+
+// Check out or re-scan a participant schema
+export const attendanceScanSchema = z.object({
+  ticketNumber: z.string().optional(),
+  qrCode: z.string().optional(),
+}).refine(
+  (data) => data.ticketNumber || data.qrCode,
+  {
+    message: 'Either ticket number or QR code is required',
+  }
+);
+
+// Upload a batch of offline scans schema
+export const syncCheckInsSchema = z.object({
+  deviceId: z.string().trim().min(1, 'Device ID is required').max(100),
+  scans: z
+    .array(checkInScanSchema)
+    .min(1, 'Upload at least one scan')
+    .max(1000, 'At most 1000 scans can be uploaded at once'),
+});
+
+// Types
+export type AttendanceScanInput = z.infer<typeof attendanceScanSchema>;
+export type CheckInScanInput = z.infer<typeof checkInScanSchema>;
+export type SyncCheckInsInput = z.infer<typeof syncCheckInsSchema>;
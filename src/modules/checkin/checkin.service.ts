@@ -0,0 +1,652 @@
+import { eq, and, or, gt, gte, asc, inArray, isNull } from 'drizzle-orm';
+import { db, events, eventSessions, eventRegistrations, checkInScans, attendanceScans } from '../../db';
+import { log } from '../../middleware/logger';
+import { signSnapshot, verifyTicket } from '../../utils/ticket-signing';
+import type { TicketClaims } from '../../utils/ticket-signing';
+import { computeAttendanceSeconds, mergeWindows, windowSeconds } from '../../utils/attendance';
+import type { AttendanceScanType, TimeWindow } from '../../utils/attendance';
+import type { CheckInScanInput, SyncCheckInsInput } from './checkin.schema';
+import type { RegistrationStatus, SelectEvent } from '../../types';
+
+type Registration = typeof eventRegistrations.$inferSelect;
+type NewAttendanceScan = typeof attendanceScans.$inferInsert;
+type CheckInScanResult = (typeof checkInScans.$inferSelect)['result'];
+
+export interface CheckInScanOutcome {
+  scanId: string;
+  result: CheckInScanResult;
+  reason: string | null;
+  registrationId: string | null;
+  ticketNumber: string | null;
+  checkedInAt: Date | null; // Effective check-in after this sync (the earliest scan)
+  checkedInDeviceId: string | null; // Null when the check-in happened online
+}
+
+// Registrations that hold a valid ticket
+const ticketStatuses: RegistrationStatus[] = ['confirmed', 'attended'];
+
+// Snapshots stay valid until a day after the event ends
+const SNAPSHOT_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Device clocks may run slightly ahead of the server
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+function toSeconds(date: Date) {
+  return Math.floor(date.getTime() / 1000);
+}
+
+export class CheckInService {
+  private async getEvent(eventId: string) {
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    return event;
+  }
+
+  // ==================== ATTENDANCE ====================
+
+  /**
+   * Scheduled time attendance is measured against: the event's sessions when
+   * it has any (so breaks and nights of multi-day events don't count), else
+   * the whole event
+   */
+  private async getScheduledWindows(event: SelectEvent): Promise<TimeWindow[]> {
+    const sessions = await db.query.eventSessions.findMany({
+      where: eq(eventSessions.eventId, event.id),
+      columns: { startDate: true, endDate: true },
+    });
+
+    return mergeWindows(
+      sessions.length > 0
+        ? sessions.map((session) => ({ start: session.startDate, end: session.endDate }))
+        : [{ start: event.startDate, end: event.endDate }]
+    );
+  }
+
+  /**
+   * Get an event's minimum-attendance rule; requiredSeconds is null when the
+   * event has none and every checked-in registration counts as attended
+   */
+  async getAttendanceRule(eventId: string) {
+    const event = await this.getEvent(eventId);
+    const windows = await this.getScheduledWindows(event);
+    const scheduledSeconds = windowSeconds(windows);
+
+    return {
+      minAttendancePercent: event.minAttendancePercent,
+      scheduledSeconds,
+      requiredSeconds: event.minAttendancePercent
+        ? Math.ceil((scheduledSeconds * event.minAttendancePercent) / 100)
+        : null,
+      windows,
+    };
+  }
+
+  /**
+   * Recompute a registration's attendance time and check-out state from its
+   * scan history since it was last registered
+   */
+  private async refreshAttendance(registrationId: string, windows: TimeWindow[]) {
+    const scans = await db
+      .select({ type: attendanceScans.type, scannedAt: attendanceScans.scannedAt })
+      .from(attendanceScans)
+      .innerJoin(eventRegistrations, eq(attendanceScans.registrationId, eventRegistrations.id))
+      .where(
+        and(
+          eq(attendanceScans.registrationId, registrationId),
+          gte(attendanceScans.scannedAt, eventRegistrations.registeredAt)
+        )
+      )
+      .orderBy(asc(attendanceScans.scannedAt));
+
+    const last = scans[scans.length - 1];
+
+    const [updated] = await db
+      .update(eventRegistrations)
+      .set({
+        attendanceSeconds: computeAttendanceSeconds(scans, windows),
+        checkedOutAt: last?.type === 'check_out' ? last.scannedAt : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(eventRegistrations.id, registrationId))
+      .returning();
+
+    return updated;
+  }
+
+  /**
+   * Record check-in, re-scan or check-out scans and update the attendance of
+   * the registrations they belong to
+   */
+  async recordAttendance(eventId: string, scans: NewAttendanceScan[]) {
+    if (scans.length === 0) {
+      return [];
+    }
+
+    await db.insert(attendanceScans).values(scans);
+
+    const { windows } = await this.getAttendanceRule(eventId);
+    const updated: Registration[] = [];
+
+    for (const registrationId of new Set(scans.map((scan) => scan.registrationId))) {
+      updated.push(await this.refreshAttendance(registrationId, windows));
+    }
+
+    return updated;
+  }
+
+  /**
+   * Check whether a registration has any attendance scans; check-ins from
+   * before attendance tracking have none
+   */
+  async hasAttendanceScans(registrationId: string) {
+    const scan = await db.query.attendanceScans.findFirst({
+      where: eq(attendanceScans.registrationId, registrationId),
+      columns: { id: true },
+    });
+
+    return !!scan;
+  }
+
+  /**
+   * Find the registration behind a ticket number or signed QR code. A validly
+   * signed code is revoked once the registration is cancelled or its ticket reissued.
+   */
+  async findTicket(eventId: string, ticketNumber?: string, qrCode?: string) {
+    const conditions = [eq(eventRegistrations.eventId, eventId)];
+
+    if (ticketNumber) {
+      conditions.push(eq(eventRegistrations.ticketNumber, ticketNumber));
+    } else if (qrCode) {
+      const claims = await verifyTicket(qrCode);
+
+      if (!claims) {
+        throw new Error('Invalid ticket signature');
+      }
+
+      if (claims.eventId !== eventId) {
+        throw new Error('This ticket is for another event');
+      }
+
+      conditions.push(eq(eventRegistrations.id, claims.registrationId));
+    }
+
+    const [registration] = await db
+      .select()
+      .from(eventRegistrations)
+      .where(and(...conditions))
+      .limit(1);
+
+    if (!registration) {
+      throw new Error('Registration not found');
+    }
+
+    if (
+      registration.status === 'cancelled' ||
+      registration.status === 'rejected' ||
+      (!ticketNumber && registration.qrCode !== qrCode)
+    ) {
+      throw new Error('This ticket has been revoked');
+    }
+
+    if (!ticketStatuses.includes(registration.status)) {
+      throw new Error('Registration is not confirmed');
+    }
+
+    return registration;
+  }
+
+  /**
+   * Record a scan for a participant who is checked in and has not left
+   */
+  private async scanCheckedIn(
+    eventId: string,
+    type: Extract<AttendanceScanType, 'rescan' | 'check_out'>,
+    scannedBy: string,
+    ticketNumber?: string,
+    qrCode?: string
+  ) {
+    const registration = await this.findTicket(eventId, ticketNumber, qrCode);
+
+    if (!registration.checkedInAt) {
+      throw new Error('Participant is not checked in');
+    }
+
+    if (registration.checkedOutAt) {
+      throw new Error('Participant already checked out');
+    }
+
+    const [updated] = await this.recordAttendance(eventId, [
+      { eventId, registrationId: registration.id, type, scannedAt: new Date(), scannedBy },
+    ]);
+
+    return updated;
+  }
+
+  /**
+   * Check out a participant when they leave; checking in again re-enters them
+   */
+  async checkOut(eventId: string, scannedBy: string, ticketNumber?: string, qrCode?: string) {
+    const registration = await this.scanCheckedIn(eventId, 'check_out', scannedBy, ticketNumber, qrCode);
+
+    log.info(`Participant ${registration.userId ?? registration.guestEmail} checked out of event ${eventId}`);
+    return registration;
+  }
+
+  /**
+   * Re-scan a participant who is still inside (e.g. at the start of each day
+   * of a multi-day event), extending their attendance up to now
+   */
+  async rescan(eventId: string, scannedBy: string, ticketNumber?: string, qrCode?: string) {
+    return this.scanCheckedIn(eventId, 'rescan', scannedBy, ticketNumber, qrCode);
+  }
+
+  /**
+   * Attendance time of every checked-in registration and whether it meets
+   * the event's minimum-attendance rule
+   */
+  async getAttendance(eventId: string) {
+    const rule = await this.getAttendanceRule(eventId);
+
+    const registrations = await db.query.eventRegistrations.findMany({
+      where: and(eq(eventRegistrations.eventId, eventId), eq(eventRegistrations.status, 'attended')),
+      columns: {
+        id: true,
+        ticketNumber: true,
+        guestName: true,
+        checkedInAt: true,
+        checkedOutAt: true,
+        attendanceSeconds: true,
+      },
+      with: {
+        user: {
+          columns: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: [asc(eventRegistrations.checkedInAt)],
+    });
+
+    return {
+      minAttendancePercent: rule.minAttendancePercent,
+      scheduledSeconds: rule.scheduledSeconds,
+      requiredSeconds: rule.requiredSeconds,
+      attendees: registrations.map((registration) => ({
+        ...registration,
+        meetsMinimum: rule.requiredSeconds === null || registration.attendanceSeconds >= rule.requiredSeconds,
+      })),
+    };
+  }
+
+  // ==================== OFFLINE SCANNERS ====================
+
+  /**
+   * Build a signed snapshot of an event's valid tickets for scanners that
+   * check in offline. Scanners verify it with the ticket public key and
+   * compare the ticket number in a QR code with the snapshot, since a
+   * reissued ticket keeps its registration ID.
+   */
+  async getSnapshot(eventId: string) {
+    const event = await this.getEvent(eventId);
+
+    const registrations = await db.query.eventRegistrations.findMany({
+      where: and(eq(eventRegistrations.eventId, eventId), inArray(eventRegistrations.status, ticketStatuses)),
+      columns: {
+        id: true,
+        ticketNumber: true,
+        ticketTypeId: true,
+        guestName: true,
+        checkedInAt: true,
+      },
+      with: {
+        user: {
+          columns: {
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    const tickets = registrations
+      .filter((registration) => registration.ticketNumber)
+      .map((registration) => ({
+        registrationId: registration.id,
+        ticketNumber: registration.ticketNumber,
+        ticketTypeId: registration.ticketTypeId,
+        attendeeName: registration.user
+          ? `${registration.user.firstName} ${registration.user.lastName}`
+          : registration.guestName,
+        checkedInAt: registration.checkedInAt?.toISOString() ?? null,
+      }));
+
+    const generatedAt = new Date();
+    const expiresAt = new Date(
+      Math.max(event.endDate.getTime() + SNAPSHOT_GRACE_MS, generatedAt.getTime() + 60 * 60 * 1000)
+    );
+
+    const snapshot = await signSnapshot({
+      typ: 'check-in-snapshot',
+      eid: eventId,
+      iat: toSeconds(generatedAt),
+      exp: toSeconds(expiresAt),
+      tickets,
+    });
+
+    log.info(`Check-in snapshot of ${tickets.length} ticket(s) generated for event ${eventId}`);
+    return { eventId, snapshot, ticketCount: tickets.length, generatedAt, expiresAt };
+  }
+
+  /**
+   * Find the registration a scan refers to, or why it cannot be admitted
+   */
+  private resolveScan(
+    eventId: string,
+    scan: CheckInScanInput,
+    claims: TicketClaims | null | undefined,
+    byId: Map<string, Registration>,
+    byTicketNumber: Map<string, Registration>
+  ): { registration?: Registration; reason?: string } {
+    let registration: Registration | undefined;
+
+    if (scan.ticketNumber) {
+      registration = byTicketNumber.get(scan.ticketNumber);
+    } else {
+      if (!claims) {
+        return { reason: 'Invalid ticket signature' };
+      }
+
+      if (claims.eventId !== eventId) {
+        return { reason: 'This ticket is for another event' };
+      }
+
+      registration = byId.get(claims.registrationId);
+    }
+
+    if (!registration) {
+      return { reason: 'Registration not found' };
+    }
+
+    if (
+      registration.status === 'cancelled' ||
+      registration.status === 'rejected' ||
+      (!scan.ticketNumber && registration.qrCode !== scan.qrCode)
+    ) {
+      return { registration, reason: 'This ticket has been revoked' };
+    }
+
+    if (!ticketStatuses.includes(registration.status)) {
+      return { registration, reason: 'Registration is not confirmed' };
+    }
+
+    if (new Date(scan.scannedAt).getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+      return { registration, reason: 'Scan time is in the future' };
+    }
+
+    return { registration };
+  }
+
+  /**
+   * Record a valid scan. The earliest scan of a ticket is its check-in,
+   * whichever device uploads first; later scans are duplicates on the same
+   * device and conflicts elsewhere (e.g. the same ticket at two doors).
+   */
+  private async applyScan(
+    registration: Registration,
+    scannedAt: Date,
+    deviceId: string,
+    uploadedBy: string
+  ): Promise<{ result: CheckInScanResult; reason: string | null }> {
+    const previousAt = registration.checkedInAt;
+    const previousDeviceId = registration.checkInDeviceId;
+
+    if (!previousAt || scannedAt < previousAt) {
+      const [updated] = await db
+        .update(eventRegistrations)
+        .set({
+          status: 'attended',
+          checkedInAt: scannedAt,
+          checkedInBy: uploadedBy,
+          checkInDeviceId: deviceId,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(eventRegistrations.id, registration.id),
+            inArray(eventRegistrations.status, ticketStatuses),
+            or(isNull(eventRegistrations.checkedInAt), gt(eventRegistrations.checkedInAt, scannedAt))
+          )
+        )
+        .returning();
+
+      if (!updated) {
+        // Cancelled or checked in earlier since the batch was loaded
+        const [current] = await db
+          .select()
+          .from(eventRegistrations)
+          .where(eq(eventRegistrations.id, registration.id));
+
+        if (!current || !ticketStatuses.includes(current.status)) {
+          return { result: 'rejected', reason: 'This ticket has been revoked' };
+        }
+
+        Object.assign(registration, current);
+        return this.applyScan(registration, scannedAt, deviceId, uploadedBy);
+      }
+
+      Object.assign(registration, updated);
+
+      if (!previousAt) {
+        return { result: 'checked_in', reason: null };
+      }
+    }
+
+    if (previousDeviceId === deviceId) {
+      return { result: 'duplicate', reason: 'Already scanned on this device' };
+    }
+
+    const where = previousDeviceId ? `on device ${previousDeviceId}` : 'online';
+    return {
+      result: 'conflict',
+      reason:
+        scannedAt < previousAt
+          ? `Scanned before the check-in ${where}; this scan is now the check-in`
+          : `Already checked in ${where} at ${previousAt.toISOString()}`,
+    };
+  }
+
+  /**
+   * Apply a batch of scans recorded offline by a scanner device, in the
+   * order they were scanned, and report the outcome of each one. Scans the
+   * device already uploaded keep their earlier result, so retrying an
+   * interrupted upload is safe.
+   */
+  async syncScans(eventId: string, uploadedBy: string, input: SyncCheckInsInput) {
+    await this.getEvent(eventId);
+
+    const { deviceId } = input;
+    const scans = [...new Map(input.scans.map((scan) => [scan.scanId, scan])).values()];
+
+    const uploaded = await db
+      .select()
+      .from(checkInScans)
+      .where(
+        and(
+          eq(checkInScans.deviceId, deviceId),
+          inArray(checkInScans.scanId, scans.map((scan) => scan.scanId))
+        )
+      );
+    const uploadedByScanId = new Map(uploaded.map((scan) => [scan.scanId, scan]));
+    const newScans = scans.filter((scan) => !uploadedByScanId.has(scan.scanId));
+
+    const claimsByScanId = new Map<string, TicketClaims | null>();
+    for (const scan of newScans) {
+      if (!scan.ticketNumber && scan.qrCode) {
+        claimsByScanId.set(scan.scanId, await verifyTicket(scan.qrCode));
+      }
+    }
+
+    const registrationIds = [
+      ...[...claimsByScanId.values()].flatMap((claims) => (claims?.eventId === eventId ? [claims.registrationId] : [])),
+      ...uploaded.flatMap((scan) => (scan.registrationId ? [scan.registrationId] : [])),
+    ];
+    const ticketNumbers = newScans.flatMap((scan) => (scan.ticketNumber ? [scan.ticketNumber] : []));
+    const lookups = [
+      ...(registrationIds.length ? [inArray(eventRegistrations.id, registrationIds)] : []),
+      ...(ticketNumbers.length ? [inArray(eventRegistrations.ticketNumber, ticketNumbers)] : []),
+    ];
+
+    const registrations = lookups.length
+      ? await db
+          .select()
+          .from(eventRegistrations)
+          .where(and(eq(eventRegistrations.eventId, eventId), or(...lookups)))
+      : [];
+    const byId = new Map(registrations.map((registration) => [registration.id, registration]));
+    const byTicketNumber = new Map(
+      registrations.flatMap((registration) =>
+        registration.ticketNumber ? [[registration.ticketNumber, registration] as const] : []
+      )
+    );
+
+    const outcomes = new Map<string, CheckInScanOutcome>();
+    const toOutcome = (
+      scanId: string,
+      result: CheckInScanResult,
+      reason: string | null,
+      registration?: Registration
+    ): CheckInScanOutcome => ({
+      scanId,
+      result,
+      reason,
+      registrationId: registration?.id ?? null,
+      ticketNumber: registration?.ticketNumber ?? null,
+      checkedInAt: registration?.checkedInAt ?? null,
+      checkedInDeviceId: registration?.checkInDeviceId ?? null,
+    });
+
+    const ordered = [...newScans].sort(
+      (a, b) => new Date(a.scannedAt).getTime() - new Date(b.scannedAt).getTime()
+    );
+
+    const attendance: NewAttendanceScan[] = [];
+
+    for (const scan of ordered) {
+      const { registration, reason } = this.resolveScan(
+        eventId,
+        scan,
+        claimsByScanId.get(scan.scanId),
+        byId,
+        byTicketNumber
+      );
+
+      if (!registration || reason) {
+        outcomes.set(scan.scanId, toOutcome(scan.scanId, 'rejected', reason ?? null, registration));
+        continue;
+      }
+
+      const scannedAt = new Date(scan.scannedAt);
+      let applied: { result: CheckInScanResult; reason: string | null };
+
+      if (scan.type === 'check_out') {
+        applied = !registration.checkedInAt
+          ? { result: 'rejected', reason: 'Participant is not checked in' }
+          : registration.checkedOutAt
+            ? { result: 'rejected', reason: 'Participant already checked out' }
+            : { result: 'checked_out', reason: null };
+
+        if (applied.result === 'checked_out') {
+          registration.checkedOutAt = scannedAt;
+        }
+      } else if (registration.checkedOutAt && scannedAt > registration.checkedOutAt) {
+        registration.checkedOutAt = null;
+        applied = { result: 'checked_in', reason: 'Re-entry after check-out' };
+      } else {
+        applied = await this.applyScan(registration, scannedAt, deviceId, uploadedBy);
+      }
+
+      // Every admitted scan is evidence of presence for the attendance time
+      if (applied.result !== 'rejected') {
+        attendance.push({
+          eventId,
+          registrationId: registration.id,
+          type: scan.type,
+          scannedAt,
+          scannedBy: uploadedBy,
+          deviceId,
+        });
+      }
+
+      outcomes.set(scan.scanId, toOutcome(scan.scanId, applied.result, applied.reason, registration));
+    }
+
+    for (const updated of await this.recordAttendance(eventId, attendance)) {
+      Object.assign(byId.get(updated.id)!, updated);
+    }
+
+    if (newScans.length > 0) {
+      await db
+        .insert(checkInScans)
+        .values(
+          newScans.map((scan) => {
+            const outcome = outcomes.get(scan.scanId)!;
+
+            return {
+              eventId,
+              registrationId: outcome.registrationId,
+              deviceId,
+              scanId: scan.scanId,
+              ticketNumber: outcome.ticketNumber ?? scan.ticketNumber ?? null,
+              scannedAt: new Date(scan.scannedAt),
+              uploadedBy,
+              result: outcome.result,
+              reason: outcome.reason,
+            };
+          })
+        )
+        .onConflictDoNothing();
+    }
+
+    // Outcomes are reported with the final check-in of each ticket, in upload order
+    const results = scans.map((scan) => {
+      const previous = uploadedByScanId.get(scan.scanId);
+
+      if (previous) {
+        const registration = previous.registrationId ? byId.get(previous.registrationId) : undefined;
+        return { ...toOutcome(scan.scanId, previous.result, previous.reason, registration), alreadySynced: true };
+      }
+
+      const outcome = outcomes.get(scan.scanId)!;
+      const registration = outcome.registrationId ? byId.get(outcome.registrationId) : undefined;
+      return { ...toOutcome(scan.scanId, outcome.result, outcome.reason, registration), alreadySynced: false };
+    });
+
+    const summary = {
+      checkedIn: results.filter((r) => !r.alreadySynced && r.result === 'checked_in').length,
+      checkedOut: results.filter((r) => !r.alreadySynced && r.result === 'checked_out').length,
+      duplicates: results.filter((r) => !r.alreadySynced && r.result === 'duplicate').length,
+      conflicts: results.filter((r) => !r.alreadySynced && r.result === 'conflict').length,
+      rejected: results.filter((r) => !r.alreadySynced && r.result === 'rejected').length,
+      alreadySynced: uploaded.length,
+    };
+
+    log.info(
+      `Device ${deviceId} synced ${newScans.length} scan(s) for event ${eventId}: ` +
+        `${summary.checkedIn} checked in, ${summary.checkedOut} checked out, ${summary.duplicates} duplicate(s), ` +
+        `${summary.conflicts} conflict(s), ${summary.rejected} rejected`
+    );
+
+    return { deviceId, syncedAt: new Date(), summary, results };
+  }
+}
+
+export const checkInService = new CheckInService();
@@ -0,0 +1,3 @@
+export { checkInController } from './checkin.controller';
+export { checkInService } from './checkin.service';
+export * from './checkin.schema';
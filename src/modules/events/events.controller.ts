@@ -1,18 +1,34 @@
 import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
-import { eventsService } from './events.service';
+import { eventsService, publicEventStatuses, EventInUseError } from './events.service';
 import {
   createEventSchema,
   updateEventSchema,
+  updateEventQuerySchema,
   reviewEventSchema,
   listEventsQuerySchema,
   registerForEventSchema,
   checkInSchema,
   exportParticipantsQuerySchema,
+  importEventsSchema,
+  moveWaitlistEntrySchema,
+  registrationDecisionSchema,
+  bulkRegistrationDecisionSchema,
+  cancelEventSchema,
+  searchSuggestQuerySchema,
+  mapEventsQuerySchema,
 } from './events.schema';
+import { seriesService } from '../series/series.service';
+import { staffService } from '../staff/staff.service';
+import { calendarService } from '../calendar/calendar.service';
+import { approvalsService } from '../approvals/approvals.service';
+import { reviewQueueQuerySchema } from '../approvals/approvals.schema';
+import { VenueConflictError } from '../venues/venues.service';
 import { auth, optionalAuth } from '../../middleware/auth';
-import { requireOrganizer, requireAdmin, requireOwnerOrRole } from '../../middleware/rbac';
+import { requireOrganizer, requireAdmin, requireOwnerOrRole, hasEventPermission } from '../../middleware/rbac';
 import { success, error, successMessage, paginated, notFound, forbidden } from '../../utils/response';
+import { toCsv } from '../../utils/csv';
+import { buildXlsx } from '../../utils/xlsx';
 import type { AuthUser } from '../../types';
 import type { Env } from '../../types/hono';
 import { db, events } from '../../db';
@@ -50,13 +66,45 @@ eventsController.get(
   }
 );
 
+/**
+ * GET /events/search/suggest
+ * Autocomplete event titles from a prefix (public)
+ */
+eventsController.get('/search/suggest', zValidator('query', searchSuggestQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid('query');
+    const suggestions = await eventsService.suggestEvents(query);
+    return success(c, suggestions);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get suggestions';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /events/map
+ * Get clustered markers for upcoming approved events in a bounding box (public)
+ */
+eventsController.get('/map', zValidator('query', mapEventsQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid('query');
+    const markers = await eventsService.getMapMarkers(query);
+    return success(c, markers);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get map markers';
+    return error(c, message, 400);
+  }
+});
+
 /**
  * GET /events/pending
- * Get pending events for approval (admin only)
+ * Get the review queue: pending events at a stage the user reviews (reviewers, admin)
  */
-eventsController.get('/pending', auth(), requireAdmin(), async (c) => {
+eventsController.get('/pending', auth(), zValidator('query', reviewQueueQuerySchema), async (c) => {
   try {
-    const events = await eventsService.getPendingEvents();
+    const user = c.get('user') as AuthUser;
+    const { stage } = c.req.valid('query');
+    const events = await approvalsService.getReviewQueue(user, stage);
     return success(c, events);
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Failed to get pending events';
@@ -79,6 +127,21 @@ eventsController.get('/my-events', auth(), requireOrganizer(), async (c) => {
   }
 });
 
+/**
+ * GET /events/staffing
+ * Get events the current user is staff for
+ */
+eventsController.get('/staffing', auth(), async (c) => {
+  try {
+    const user = c.get('user') as AuthUser;
+    const events = await staffService.getUserStaffEvents(user.id);
+    return success(c, events);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get events';
+    return error(c, message, 400);
+  }
+});
+
 /**
  * GET /events/registrations
  * Get current user's event registrations
@@ -125,12 +188,42 @@ eventsController.post(
       const event = await eventsService.createEvent(user.id, input);
       return success(c, event, 201);
     } catch (err) {
+      if (err instanceof VenueConflictError) {
+        return error(c, err.message, 409);
+      }
       const message = err instanceof Error ? err.message : 'Failed to create event';
       return error(c, message, 400);
     }
   }
 );
 
+/**
+ * POST /events/import
+ * Import events from a CSV or XLSX file as drafts; validates only unless dryRun is false (organizer only)
+ */
+eventsController.post(
+  '/import',
+  auth(),
+  requireOrganizer(),
+  zValidator('form', importEventsSchema),
+  async (c) => {
+    try {
+      const user = c.get('user') as AuthUser;
+      const { file, dryRun } = c.req.valid('form');
+
+      const result = await eventsService.importEvents(
+        user.id,
+        { name: file.name, data: Buffer.from(await file.arrayBuffer()) },
+        dryRun
+      );
+      return success(c, result, dryRun || result.created.length === 0 ? 200 : 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to import events';
+      return error(c, message, 400);
+    }
+  }
+);
+
 /**
  * GET /events/:id
  * Get event by ID
@@ -144,11 +237,11 @@ eventsController.get('/:id', optionalAuth(), async (c) => {
       return notFound(c, 'Event not found');
     }
 
-    // Only show non-approved events to organizer or admin
+    // Only show non-public events to organizer, staff or admin
     const user = c.get('user') as AuthUser | undefined;
     if (
-      event.status !== 'approved' &&
-      (!user || (user.id !== event.organizerId && user.role !== 'admin'))
+      !publicEventStatuses.includes(event.status) &&
+      (!user || !(await hasEventPermission(user, event, 'view')))
     ) {
       return notFound(c, 'Event not found');
     }
@@ -175,8 +268,8 @@ eventsController.get('/slug/:slug', optionalAuth(), async (c) => {
 
     const user = c.get('user') as AuthUser | undefined;
     if (
-      event.status !== 'approved' &&
-      (!user || (user.id !== event.organizerId && user.role !== 'admin'))
+      !publicEventStatuses.includes(event.status) &&
+      (!user || !(await hasEventPermission(user, event, 'view')))
     ) {
       return notFound(c, 'Event not found');
     }
@@ -188,18 +281,52 @@ eventsController.get('/slug/:slug', optionalAuth(), async (c) => {
   }
 });
 
+/**
+ * GET /events/:id/calendar.ics
+ * Download the event as an iCalendar file
+ */
+eventsController.get('/:id/calendar.ics', optionalAuth(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const event = await eventsService.getEventById(id);
+
+    if (!event) {
+      return notFound(c, 'Event not found');
+    }
+
+    const user = c.get('user') as AuthUser | undefined;
+    if (
+      !publicEventStatuses.includes(event.status) &&
+      (!user || !(await hasEventPermission(user, event, 'view')))
+    ) {
+      return notFound(c, 'Event not found');
+    }
+
+    return c.body(calendarService.buildEventCalendar(event), 200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${event.slug}.ics"`,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to export event';
+    return error(c, message, 400);
+  }
+});
+
 /**
  * PATCH /events/:id
- * Update event (organizer/owner or admin)
+ * Update event (organizer, co-organizer or admin)
+ * For series occurrences, ?scope=this|following|all selects which occurrences change
  */
 eventsController.patch(
   '/:id',
   auth(),
+  zValidator('query', updateEventQuerySchema),
   zValidator('json', updateEventSchema),
   async (c) => {
     try {
       const { id } = c.req.param();
       const user = c.get('user') as AuthUser;
+      const { scope } = c.req.valid('query');
       const input = c.req.valid('json');
 
       const event = await eventsService.getEventById(id);
@@ -208,14 +335,17 @@ eventsController.patch(
         return notFound(c, 'Event not found');
       }
 
-      // Check ownership or admin role
-      if (event.organizerId !== user.id && user.role !== 'admin') {
+      // Check ownership, co-organizer or admin role
+      if (!(await hasEventPermission(user, event, 'update'))) {
         return forbidden(c, 'You do not have permission to update this event');
       }
 
-      const updated = await eventsService.updateEvent(id, input);
+      const updated = await seriesService.updateOccurrences(id, input, scope, user.id);
       return success(c, updated);
     } catch (err) {
+      if (err instanceof VenueConflictError) {
+        return error(c, err.message, 409);
+      }
       const message = err instanceof Error ? err.message : 'Failed to update event';
       return error(c, message, 400);
     }
@@ -242,8 +372,17 @@ eventsController.delete('/:id', auth(), async (c) => {
     }
 
     await eventsService.deleteEvent(id);
+
+    // Keep the series rule in sync with the removed occurrence
+    if (event.seriesId && event.occurrenceDate) {
+      await seriesService.excludeOccurrence(event.seriesId, event.occurrenceDate);
+    }
+
     return successMessage(c, 'Event deleted successfully');
   } catch (err) {
+    if (err instanceof EventInUseError) {
+      return error(c, err.message, 409);
+    }
     const message = err instanceof Error ? err.message : 'Failed to delete event';
     return error(c, message, 400);
   }
@@ -275,19 +414,54 @@ eventsController.post('/:id/submit', auth(), requireOrganizer(), async (c) => {
     const updated = await eventsService.submitForApproval(id);
     return success(c, updated);
   } catch (err) {
+    if (err instanceof VenueConflictError) {
+      return error(c, err.message, 409);
+    }
     const message = err instanceof Error ? err.message : 'Failed to submit event';
     return error(c, message, 400);
   }
 });
 
+/**
+ * POST /events/:id/cancel
+ * Cancel event with a reason (organizer/owner or admin)
+ */
+eventsController.post(
+  '/:id/cancel',
+  auth(),
+  zValidator('json', cancelEventSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+
+      const event = await eventsService.getEventById(id);
+
+      if (!event) {
+        return notFound(c, 'Event not found');
+      }
+
+      if (event.organizerId !== user.id && user.role !== 'admin') {
+        return forbidden(c, 'You do not have permission to cancel this event');
+      }
+
+      const updated = await eventsService.cancelEvent(id, user.id, input);
+      return success(c, updated);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to cancel event';
+      return error(c, message, 400);
+    }
+  }
+);
+
 /**
  * POST /events/:id/review
- * Review event (admin only)
+ * Approve or reject the current approval stage (stage reviewer, or admin for central review and overrides)
  */
 eventsController.post(
   '/:id/review',
   auth(),
-  requireAdmin(),
   zValidator('json', reviewEventSchema),
   async (c) => {
     try {
@@ -305,7 +479,13 @@ eventsController.post(
         return error(c, 'Only pending events can be reviewed', 400);
       }
 
-      const updated = await eventsService.reviewEvent(id, user.id, input);
+      const isOverride = !(await approvalsService.canReview(user, event));
+
+      if (isOverride && !(input.override && user.role === 'admin')) {
+        return forbidden(c, `You are not a reviewer for the ${event.approvalStage ?? 'central'} stage of this event`);
+      }
+
+      const updated = await eventsService.reviewEvent(id, user.id, input, isOverride);
       return success(c, updated);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to review event';
@@ -314,6 +494,33 @@ eventsController.post(
   }
 );
 
+/**
+ * GET /events/:id/approvals
+ * Get the approval pipeline and decisions (organizer, staff, reviewers or admin)
+ */
+eventsController.get('/:id/approvals', auth(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const event = await eventsService.getEventById(id);
+
+    if (!event) {
+      return notFound(c, 'Event not found');
+    }
+
+    if (!(await hasEventPermission(user, event, 'view')) && !(await approvalsService.isReviewerFor(user, event))) {
+      return forbidden(c, 'You do not have permission to view approvals for this event');
+    }
+
+    const approvals = await approvalsService.getEventApprovals(id);
+    return success(c, approvals);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get approvals';
+    return error(c, message, 400);
+  }
+});
+
 /**
  * POST /events/:id/register
  * Register for an event
@@ -356,7 +563,7 @@ eventsController.delete('/:id/register', auth(), async (c) => {
 
 /**
  * GET /events/:id/participants
- * Get event participants (organizer/owner or admin)
+ * Get event participants (organizer, staff or admin)
  */
 eventsController.get('/:id/participants', auth(), async (c) => {
   try {
@@ -370,7 +577,7 @@ eventsController.get('/:id/participants', auth(), async (c) => {
       return notFound(c, 'Event not found');
     }
 
-    if (event.organizerId !== user.id && user.role !== 'admin') {
+    if (!(await hasEventPermission(user, event, 'participants'))) {
       return forbidden(c, 'You do not have permission to view participants');
     }
 
@@ -382,9 +589,249 @@ eventsController.get('/:id/participants', auth(), async (c) => {
   }
 });
 
+/**
+ * GET /events/:id/participants/export
+ * Export participants as CSV or XLSX with the chosen columns (organizer, staff or admin)
+ */
+eventsController.get(
+  '/:id/participants/export',
+  auth(),
+  zValidator('query', exportParticipantsQuerySchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const query = c.req.valid('query');
+
+      const event = await eventsService.getEventById(id);
+
+      if (!event) {
+        return notFound(c, 'Event not found');
+      }
+
+      if (!(await hasEventPermission(user, event, 'participants'))) {
+        return forbidden(c, 'You do not have permission to export participants');
+      }
+
+      const { header, rows } = await eventsService.exportParticipants(event, query);
+
+      if (query.format === 'json') {
+        return success(c, { columns: header, rows });
+      }
+
+      const filename = `participants-${event.slug}.${query.format}`;
+      const headers = {
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      };
+
+      if (query.format === 'xlsx') {
+        return c.body(new Uint8Array(buildXlsx('Participants', [header, ...rows])), 200, {
+          ...headers,
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        });
+      }
+
+      return c.body(toCsv([header, ...rows]), 200, {
+        ...headers,
+        'Content-Type': 'text/csv; charset=utf-8',
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to export participants';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * GET /events/:id/participants/waitlist
+ * Get event waitlist in queue order (organizer, staff or admin)
+ */
+eventsController.get('/:id/participants/waitlist', auth(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const event = await eventsService.getEventById(id);
+
+    if (!event) {
+      return notFound(c, 'Event not found');
+    }
+
+    if (!(await hasEventPermission(user, event, 'participants'))) {
+      return forbidden(c, 'You do not have permission to view the waitlist');
+    }
+
+    const waitlist = await eventsService.getEventWaitlist(id);
+    return success(c, waitlist);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get waitlist';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * PATCH /events/:id/participants/waitlist/:registrationId
+ * Move a waitlist entry to a new position (organizer, co-organizer or admin)
+ */
+eventsController.patch(
+  '/:id/participants/waitlist/:registrationId',
+  auth(),
+  zValidator('json', moveWaitlistEntrySchema),
+  async (c) => {
+    try {
+      const { id, registrationId } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const { position } = c.req.valid('json');
+
+      const event = await eventsService.getEventById(id);
+
+      if (!event) {
+        return notFound(c, 'Event not found');
+      }
+
+      if (!(await hasEventPermission(user, event, 'update'))) {
+        return forbidden(c, 'You do not have permission to reorder the waitlist');
+      }
+
+      const waitlist = await eventsService.moveWaitlistEntry(id, registrationId, position);
+      return success(c, waitlist);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to reorder waitlist';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /events/:id/participants/review
+ * Approve or reject pending registrations in bulk (organizer, co-organizer or admin)
+ */
+eventsController.post(
+  '/:id/participants/review',
+  auth(),
+  zValidator('json', bulkRegistrationDecisionSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+
+      const event = await eventsService.getEventById(id);
+
+      if (!event) {
+        return notFound(c, 'Event not found');
+      }
+
+      if (!(await hasEventPermission(user, event, 'update'))) {
+        return forbidden(c, 'You do not have permission to review registrations');
+      }
+
+      const result = await eventsService.reviewRegistrations(id, user.id, input);
+      return success(c, result);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to review registrations';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /events/:id/participants/:registrationId/approve
+ * Approve a pending registration and issue its ticket (organizer, co-organizer or admin)
+ */
+eventsController.post(
+  '/:id/participants/:registrationId/approve',
+  auth(),
+  zValidator('json', registrationDecisionSchema),
+  async (c) => {
+    try {
+      const { id, registrationId } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const { message } = c.req.valid('json');
+
+      const event = await eventsService.getEventById(id);
+
+      if (!event) {
+        return notFound(c, 'Event not found');
+      }
+
+      if (!(await hasEventPermission(user, event, 'update'))) {
+        return forbidden(c, 'You do not have permission to review registrations');
+      }
+
+      const registration = await eventsService.approveRegistration(id, registrationId, user.id, message);
+      return success(c, registration);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to approve registration';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /events/:id/participants/:registrationId/reject
+ * Reject a pending registration (organizer, co-organizer or admin)
+ */
+eventsController.post(
+  '/:id/participants/:registrationId/reject',
+  auth(),
+  zValidator('json', registrationDecisionSchema),
+  async (c) => {
+    try {
+      const { id, registrationId } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const { message } = c.req.valid('json');
+
+      const event = await eventsService.getEventById(id);
+
+      if (!event) {
+        return notFound(c, 'Event not found');
+      }
+
+      if (!(await hasEventPermission(user, event, 'update'))) {
+        return forbidden(c, 'You do not have permission to review registrations');
+      }
+
+      const registration = await eventsService.rejectRegistration(id, registrationId, user.id, message);
+      return success(c, registration);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to reject registration';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /events/:id/participants/:registrationId/reissue-ticket
+ * Replace a participant's ticket, revoking the old QR code (organizer, co-organizer or admin)
+ */
+eventsController.post('/:id/participants/:registrationId/reissue-ticket', auth(), async (c) => {
+  try {
+    const { id, registrationId } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const event = await eventsService.getEventById(id);
+
+    if (!event) {
+      return notFound(c, 'Event not found');
+    }
+
+    if (!(await hasEventPermission(user, event, 'update'))) {
+      return forbidden(c, 'You do not have permission to reissue tickets');
+    }
+
+    const registration = await eventsService.reissueTicket(id, registrationId);
+    return success(c, registration);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to reissue ticket';
+    return error(c, message, 400);
+  }
+});
+
 /**
  * POST /events/:id/check-in
- * Check in a participant
+ * Check in a participant (organizer, co-organizer, check-in staff or admin)
  */
 eventsController.post(
   '/:id/check-in',
@@ -394,7 +841,7 @@ eventsController.post(
     try {
       const { id } = c.req.param();
       const user = c.get('user') as AuthUser;
-      const { ticketNumber, qrCode } = c.req.valid('json');
+      const { ticketNumber, qrCode, ticketTypeId } = c.req.valid('json');
 
       const event = await eventsService.getEventById(id);
 
@@ -402,7 +849,7 @@ eventsController.post(
         return notFound(c, 'Event not found');
       }
 
-      if (event.organizerId !== user.id && user.role !== 'admin') {
+      if (!(await hasEventPermission(user, event, 'check_in'))) {
         return forbidden(c, 'You do not have permission to check in participants');
       }
 
@@ -410,7 +857,8 @@ eventsController.post(
         id,
         user.id,
         ticketNumber,
-        qrCode
+        qrCode,
+        ticketTypeId
       );
       return success(c, registration);
     } catch (err) {
@@ -422,7 +870,7 @@ eventsController.post(
 
 /**
  * GET /events/:id/stats
- * Get event statistics
+ * Get event statistics (organizer, co-organizer, viewer or admin)
  */
 eventsController.get('/:id/stats', auth(), async (c) => {
   try {
@@ -435,7 +883,7 @@ eventsController.get('/:id/stats', auth(), async (c) => {
       return notFound(c, 'Event not found');
     }
 
-    if (event.organizerId !== user.id && user.role !== 'admin') {
+    if (!(await hasEventPermission(user, event, 'stats'))) {
       return forbidden(c, 'You do not have permission to view statistics');
     }
 
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { speakerIdsSchema } from '../speakers/speakers.schema';
+import { CERTIFICATE_PLACEHOLDERS, findUnknownPlaceholders } from '../../utils/certificate-template';
 
 // Event type enum
 const eventTypeEnum = z.enum([
@@ -23,8 +25,86 @@ const eventStatusEnum = z.enum([
   'completed',
 ]);
 
-// Create event schema
-export const createEventSchema = z.object({
+// Registration form field schema
+const registrationFormFieldSchema = z.object({
+  key: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]{0,49}$/, 'Field key must start with a letter and contain only lowercase letters, digits and underscores'),
+  label: z.string().min(1, 'Label is required').max(255),
+  type: z.enum(['text', 'choice', 'multi_choice', 'number', 'checkbox']),
+  required: z.boolean().default(false),
+  options: z.array(z.string().min(1).max(100)).min(2, 'Provide at least 2 options').max(50).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  maxLength: z.number().int().min(1).max(5000).optional(),
+}).superRefine((field, ctx) => {
+  const isChoice = field.type === 'choice' || field.type === 'multi_choice';
+
+  if (isChoice && !field.options) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Choice fields need options',
+      path: ['options'],
+    });
+  }
+
+  if (isChoice && field.options && new Set(field.options).size !== field.options.length) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Options must be unique',
+      path: ['options'],
+    });
+  }
+
+  if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Minimum must not exceed maximum',
+      path: ['max'],
+    });
+  }
+});
+
+// Registration form schema (organizer-defined questions)
+export const registrationFormSchema = z
+  .array(registrationFormFieldSchema)
+  .max(30, 'A registration form can have at most 30 fields')
+  .superRefine((fields, ctx) => {
+    const keys = fields.map((field) => field.key);
+
+    if (new Set(keys).size !== keys.length) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Field keys must be unique',
+      });
+    }
+  });
+
+// Certificate template schema (organizer-defined, with {{placeholders}})
+export const certificateTemplateSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    title: z.string().trim().min(3).max(100, 'Title must be at most 100 characters'),
+    body: z.string().trim().min(10).max(2000, 'Body must be at most 2000 characters'),
+    signatoryName: z.string().trim().max(100).optional(),
+    signatoryTitle: z.string().trim().max(100).optional(),
+  })
+  .superRefine((template, ctx) => {
+    for (const key of ['title', 'body'] as const) {
+      const unknown = findUnknownPlaceholders(template[key]);
+
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Unknown placeholder {{${unknown[0]}}}; use ${CERTIFICATE_PLACEHOLDERS.map((name) => `{{${name}}}`).join(', ')}`,
+          path: [key],
+        });
+      }
+    }
+  });
+
+// Event fields shared by single events and series
+export const eventFieldsSchema = z.object({
   title: z
     .string()
     .min(5, 'Title must be at least 5 characters')
@@ -45,6 +125,7 @@ export const createEventSchema = z.object({
     .string()
     .datetime({ message: 'Invalid registration deadline' })
     .optional(),
+  venueId: z.string().uuid('Invalid venue ID').nullable().optional(),
   location: z
     .string()
     .min(3, 'Location must be at least 3 characters')
@@ -52,43 +133,136 @@ export const createEventSchema = z.object({
   address: z.string().max(500).optional(),
   isOnline: z.boolean().default(false),
   onlineLink: z.string().url('Invalid URL').max(500).optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
   maxParticipants: z.number().int().positive().optional(),
   coverImage: z.string().url('Invalid URL').max(500).optional(),
   images: z.array(z.string().url()).optional(),
   tags: z.array(z.string().max(50)).optional(),
   requirements: z.string().optional(),
   targetAudience: z.string().max(255).optional(),
-}).refine(
-  (data) => new Date(data.endDate) > new Date(data.startDate),
-  {
-    message: 'End date must be after start date',
-    path: ['endDate'],
+  registrationForm: registrationFormSchema.optional(),
+  allowGuests: z.boolean().optional(),
+  requiresApproval: z.boolean().optional(),
+  minTeamSize: z.number().int().min(1).max(50).nullable().optional(),
+  maxTeamSize: z.number().int().min(1).max(50).nullable().optional(),
+  minAttendancePercent: z.number().int().min(1).max(100).nullable().optional(), // Share of the scheduled time attendees must stay
+  certificateTemplate: certificateTemplateSchema.nullable().optional(),
+  speakerIds: speakerIdsSchema.optional(),
+});
+
+// Date rules of a complete event, shared by creation and by updates merged onto the stored event
+export function getEventDateIssues(data: { startDate: Date; endDate: Date; registrationDeadline?: Date | null }) {
+  const issues: { message: string; path: string }[] = [];
+
+  if (data.endDate <= data.startDate) {
+    issues.push({ message: 'End date must be after start date', path: 'endDate' });
   }
-).refine(
-  (data) => {
-    if (data.registrationDeadline) {
-      return new Date(data.registrationDeadline) < new Date(data.startDate);
-    }
-    return true;
-  },
-  {
-    message: 'Registration deadline must be before start date',
-    path: ['registrationDeadline'],
+
+  if (data.registrationDeadline && data.registrationDeadline >= data.startDate) {
+    issues.push({ message: 'Registration deadline must be before start date', path: 'registrationDeadline' });
   }
-);
 
-// Update event schema
-export const updateEventSchema = createEventSchema.partial();
+  return issues;
+}
+
+// Date checks shared by event create schemas
+export function validateEventDates(
+  data: { startDate: string; endDate: string; registrationDeadline?: string },
+  ctx: z.RefinementCtx
+) {
+  const issues = getEventDateIssues({
+    startDate: new Date(data.startDate),
+    endDate: new Date(data.endDate),
+    registrationDeadline: data.registrationDeadline ? new Date(data.registrationDeadline) : null,
+  });
+
+  for (const issue of issues) {
+    ctx.addIssue({ code: 'custom', message: issue.message, path: [issue.path] });
+  }
+}
+
+// Latitude and longitude are set or cleared together
+export function validateCoordinates(
+  data: { latitude?: number | null; longitude?: number | null },
+  ctx: z.RefinementCtx
+) {
+  if ((data.latitude === undefined) !== (data.longitude === undefined) || (data.latitude === null) !== (data.longitude === null)) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Latitude and longitude must be provided together',
+      path: ['longitude'],
+    });
+  }
+}
+
+// A maximum team size makes the event a team event; a minimum needs one.
+// Teams are confirmed as they form, so team events cannot require approval.
+export function validateTeamSize(
+  data: { minTeamSize?: number | null; maxTeamSize?: number | null; requiresApproval?: boolean },
+  ctx: z.RefinementCtx
+) {
+  if (data.maxTeamSize && data.requiresApproval) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Team events cannot require approval',
+      path: ['requiresApproval'],
+    });
+  }
+
+  if (data.minTeamSize && !data.maxTeamSize) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Maximum team size must be provided with a minimum',
+      path: ['maxTeamSize'],
+    });
+  }
+
+  if (data.minTeamSize && data.maxTeamSize && data.minTeamSize > data.maxTeamSize) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Minimum team size cannot exceed the maximum',
+      path: ['minTeamSize'],
+    });
+  }
+}
+
+// Create event schema
+export const createEventSchema = eventFieldsSchema.superRefine((data, ctx) => {
+  validateEventDates(data, ctx);
+  validateCoordinates(data, ctx);
+  validateTeamSize(data, ctx);
+});
+
+// Update event schema (no defaults, so omitted fields stay untouched)
+export const updateEventSchema = eventFieldsSchema
+  .partial()
+  .extend({
+    type: eventTypeEnum.optional(),
+    isOnline: z.boolean().optional(),
+  })
+  .superRefine((data, ctx) => {
+    validateCoordinates(data, ctx);
+    validateTeamSize(data, ctx);
+  });
+
+// Update event query schema (series occurrences)
+export const updateEventQuerySchema = z.object({
+  scope: z.enum(['this', 'following', 'all']).optional().default('this'),
+});
 
 // Publish event schema (submit for approval)
 export const publishEventSchema = z.object({
   status: z.literal('pending'),
 });
 
-// Admin: Approve/reject event schema
+// Reviewer: Approve/reject the current approval stage
 export const reviewEventSchema = z.object({
   status: z.enum(['approved', 'rejected']),
+  comment: z.string().max(2000).optional(),
   rejectionReason: z.string().optional(),
+  // Admins only: decide a department or faculty stage they are not assigned to
+  override: z.boolean().optional().default(false),
 });
 
 // List events query schema
@@ -100,24 +274,52 @@ export const listEventsQuerySchema = z.object({
   facultyId: z.string().uuid().optional(),
   departmentId: z.string().uuid().optional(),
   organizerId: z.string().uuid().optional(),
+  speakerId: z.string().uuid().optional(),
   startDateFrom: z.string().datetime().optional(),
   startDateTo: z.string().datetime().optional(),
   isOnline: z.enum(['true', 'false']).optional(),
   isFeatured: z.enum(['true', 'false']).optional(),
-  search: z.string().optional(),
-  sortBy: z.enum(['startDate', 'createdAt', 'title']).optional().default('startDate'),
+  search: z.string().trim().max(200).optional(),
+  near: z
+    .string()
+    .regex(/^-?\d{1,2}(\.\d+)?,-?\d{1,3}(\.\d+)?$/, 'near must be "latitude,longitude"')
+    .optional(),
+  radiusKm: z.string().regex(/^\d+(\.\d+)?$/, 'radiusKm must be a number').optional(),
+  // Defaults to relevance when searching, to distance with near, otherwise to startDate
+  sortBy: z.enum(['relevance', 'distance', 'startDate', 'createdAt', 'title']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
 });
 
+// Map markers query schema
+export const mapEventsQuerySchema = z.object({
+  bbox: z
+    .string()
+    .regex(
+      /^-?\d{1,3}(\.\d+)?,-?\d{1,2}(\.\d+)?,-?\d{1,3}(\.\d+)?,-?\d{1,2}(\.\d+)?$/,
+      'bbox must be "minLng,minLat,maxLng,maxLat"'
+    ),
+  type: eventTypeEnum.optional(),
+  facultyId: z.string().uuid().optional(),
+});
+
+// Search autocomplete query schema
+export const searchSuggestQuerySchema = z.object({
+  q: z.string().trim().min(2, 'Type at least 2 characters').max(100),
+  limit: z.string().optional().default('8'),
+});
+
 // Register for event schema
 export const registerForEventSchema = z.object({
   notes: z.string().max(500).optional(),
+  ticketTypeId: z.string().uuid('Invalid ticket type ID').optional(),
+  answers: z.record(z.string(), z.unknown()).optional(),
 });
 
 // Check-in schema
 export const checkInSchema = z.object({
   ticketNumber: z.string().optional(),
   qrCode: z.string().optional(),
+  ticketTypeId: z.string().uuid('Invalid ticket type ID').optional(), // Only admit this ticket type, e.g. at a staff entrance
 }).refine(
   (data) => data.ticketNumber || data.qrCode,
   {
@@ -125,19 +327,99 @@ export const checkInSchema = z.object({
   }
 );
 
+// Registration status enum
+const registrationStatusEnum = z.enum([
+  'pending',
+  'confirmed',
+  'cancelled',
+  'attended',
+  'waitlisted',
+  'no_show',
+  'rejected',
+]);
+
+// Columns of a participant export; 'answers' adds one column per registration form question
+export const participantExportColumns = [
+  'name',
+  'email',
+  'phone',
+  'guest',
+  'status',
+  'ticketNumber',
+  'ticketType',
+  'team',
+  'registeredAt',
+  'checkedInAt',
+  'checkedOutAt',
+  'attendanceHours',
+  'answers',
+] as const;
+
 // Export participants query schema
 export const exportParticipantsQuerySchema = z.object({
-  format: z.enum(['json', 'csv']).default('json'),
-  status: z.enum(['pending', 'confirmed', 'cancelled', 'attended']).optional(),
+  format: z.enum(['json', 'csv', 'xlsx']).default('csv'),
+  status: registrationStatusEnum.optional(),
+  columns: z
+    .string()
+    .transform((value) => value.split(',').map((column) => column.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(participantExportColumns)).min(1, 'Choose at least one column'))
+    .optional(), // Comma-separated, in output order; all columns by default
+});
+
+// Bulk event import schema (multipart form with a CSV or XLSX file)
+export const importEventsSchema = z.object({
+  file: z
+    .instanceof(File, { message: 'Upload a CSV or XLSX file' })
+    .refine((file) => file.size <= 2 * 1024 * 1024, 'The file must be at most 2 MB'),
+  dryRun: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'), // Only validate; send false to create the valid rows
+});
+
+// Move waitlist entry schema (organizer)
+export const moveWaitlistEntrySchema = z.object({
+  position: z.number().int().min(1, 'Position must be at least 1'),
+});
+
+// Approve or reject a pending registration schema (organizer)
+export const registrationDecisionSchema = z.object({
+  message: z.string().max(1000, 'Message must be at most 1000 characters').optional(),
+});
+
+// Approve or reject pending registrations in bulk schema (organizer)
+export const bulkRegistrationDecisionSchema = registrationDecisionSchema.extend({
+  registrationIds: z
+    .array(z.string().uuid('Invalid registration ID'))
+    .min(1, 'Select at least one registration')
+    .max(200, 'At most 200 registrations can be reviewed at once'),
+  decision: z.enum(['approve', 'reject']),
+});
+
+// Cancel event schema (organizer/admin)
+export const cancelEventSchema = z.object({
+  reason: z
+    .string()
+    .min(10, 'Reason must be at least 10 characters')
+    .max(1000, 'Reason must be at most 1000 characters'),
 });
 
 // Types
 export type CreateEventInput = z.infer<typeof createEventSchema>;
 export type UpdateEventInput = z.infer<typeof updateEventSchema>;
+export type UpdateEventQuery = z.infer<typeof updateEventQuerySchema>;
 export type PublishEventInput = z.infer<typeof publishEventSchema>;
 export type ReviewEventInput = z.infer<typeof reviewEventSchema>;
 export type ListEventsQuery = z.infer<typeof listEventsQuerySchema>;
+export type SearchSuggestQuery = z.infer<typeof searchSuggestQuerySchema>;
+export type MapEventsQuery = z.infer<typeof mapEventsQuerySchema>;
 export type RegisterForEventInput = z.infer<typeof registerForEventSchema>;
 export type CheckInInput = z.infer<typeof checkInSchema>;
 export type ExportParticipantsQuery = z.infer<typeof exportParticipantsQuerySchema>;
+export type ParticipantExportColumn = (typeof participantExportColumns)[number];
+export type ImportEventsInput = z.infer<typeof importEventsSchema>;
+export type MoveWaitlistEntryInput = z.infer<typeof moveWaitlistEntrySchema>;
+export type RegistrationDecisionInput = z.infer<typeof registrationDecisionSchema>;
+export type BulkRegistrationDecisionInput = z.infer<typeof bulkRegistrationDecisionSchema>;
+export type CancelEventInput = z.infer<typeof cancelEventSchema>;
 
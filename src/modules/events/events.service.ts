@@ -1,28 +1,271 @@
-import { eq, and, or, ilike, gte, lte, desc, asc, count, sql } from 'drizzle-orm';
-import { db, events, eventRegistrations, eventFavorites, users } from '../../db';
+import { randomUUID } from 'node:crypto';
+import { eq, and, or, gt, gte, lt, lte, isNull, isNotNull, desc, asc, count, max, inArray, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import {
+  db,
+  events,
+  eventRegistrations,
+  eventFavorites,
+  eventMaterials,
+  checkInScans,
+  teams,
+  eventSessions,
+  eventSpeakers,
+  eventStaff,
+  eventApprovals,
+  sessionRegistrations,
+  sessionSpeakers,
+  ticketTypes,
+  users,
+  faculties,
+  departments,
+  searchConfig,
+  eventSearchDocument,
+} from '../../db';
+import { config } from '../../config';
 import { log } from '../../middleware/logger';
+import { notificationsService } from '../notifications/notifications.service';
+import { sessionsService } from '../sessions/sessions.service';
+import { speakersService } from '../speakers/speakers.service';
+import { revisionsService } from '../revisions/revisions.service';
+import { approvalsService } from '../approvals/approvals.service';
+import { venuesService } from '../venues/venues.service';
+import { ticketsService } from '../tickets/tickets.service';
+import { guestsService } from '../guests/guests.service';
+import { teamsService } from '../teams/teams.service';
+import { checkInService } from '../checkin/checkin.service';
+import type { RevisionAction } from '../revisions/revisions.service';
 import { parsePagination } from '../../utils/pagination';
-import { generateUniqueSlug, generateTicketNumber, generateQrCodeContent } from '../../utils/slug';
+import { parseGeoPoint, parseBoundingBox, boundingBoxAround, distanceKm, EARTH_RADIUS_KM } from '../../utils/geo';
+import type { GeoPoint } from '../../utils/geo';
+import { generateUniqueSlug, generateTicketNumber } from '../../utils/slug';
+import { signTicket } from '../../utils/ticket-signing';
+import { validateRegistrationAnswers } from '../../utils/registration-form';
+import { fromWallClock } from '../../utils/recurrence';
+import { parseCsv } from '../../utils/csv';
+import { isUniqueViolation } from '../../utils/db-errors';
+import { readXlsx } from '../../utils/xlsx';
 import type {
   CreateEventInput,
   UpdateEventInput,
   ReviewEventInput,
   ListEventsQuery,
   RegisterForEventInput,
+  CancelEventInput,
+  SearchSuggestQuery,
+  MapEventsQuery,
+  BulkRegistrationDecisionInput,
+  ExportParticipantsQuery,
+  ParticipantExportColumn,
 } from './events.schema';
-import type { EventStatus, AuthUser } from '../../types';
+import { createEventSchema, getEventDateIssues, participantExportColumns } from './events.schema';
+import type { EventStatus, AuthUser, RegistrationAnswers, SelectEvent } from '../../types';
+
+// Statuses visible to everyone; cancelled events stay listed so attendees see the cancellation
+export const publicEventStatuses: EventStatus[] = ['approved', 'cancelled', 'completed'];
+
+// Distance filter limits for `near` searches
+const DEFAULT_NEAR_RADIUS_KM = 10;
+const MAX_NEAR_RADIUS_KM = 500;
+
+// Map markers are clustered on a grid of this many cells across the bounding box
+const MAP_GRID_CELLS = 16;
+
+// Header of each participant export column
+const PARTICIPANT_EXPORT_HEADERS: Record<Exclude<ParticipantExportColumn, 'answers'>, string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  guest: 'Guest',
+  status: 'Status',
+  ticketNumber: 'Ticket number',
+  ticketType: 'Ticket type',
+  team: 'Team',
+  registeredAt: 'Registered at',
+  checkedInAt: 'Checked in at',
+  checkedOutAt: 'Checked out at',
+  attendanceHours: 'Attendance (hours)',
+};
+
+// Waitlist places are unique per event; concurrent joins retry with the next free place
+const WAITLIST_POSITION_CONSTRAINT = 'event_registrations_waitlist_position_unique';
+const MAX_WAITLIST_JOIN_ATTEMPTS = 5;
+
+// Most rows a single import may contain
+const MAX_IMPORT_ROWS = 500;
+
+// Import columns by normalized header (lowercase letters and digits only)
+const IMPORT_COLUMNS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  shortdescription: 'shortDescription',
+  type: 'type',
+  faculty: 'faculty',
+  department: 'department',
+  startdate: 'startDate',
+  start: 'startDate',
+  enddate: 'endDate',
+  end: 'endDate',
+  registrationdeadline: 'registrationDeadline',
+  deadline: 'registrationDeadline',
+  location: 'location',
+  address: 'address',
+  isonline: 'isOnline',
+  online: 'isOnline',
+  onlinelink: 'onlineLink',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  maxparticipants: 'maxParticipants',
+  capacity: 'maxParticipants',
+  coverimage: 'coverImage',
+  tags: 'tags',
+  requirements: 'requirements',
+  targetaudience: 'targetAudience',
+  allowguests: 'allowGuests',
+  requiresapproval: 'requiresApproval',
+  minattendancepercent: 'minAttendancePercent',
+};
+
+const IMPORT_NUMBER_FIELDS = ['latitude', 'longitude', 'maxParticipants', 'minAttendancePercent'];
+const IMPORT_BOOLEAN_FIELDS = ['isOnline', 'allowGuests', 'requiresApproval'];
+const IMPORT_DATE_FIELDS = ['startDate', 'endDate', 'registrationDeadline'];
+
+// Lowercase without diacritics or extra spaces, for matching names typed by hand
+function normalizeName(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Convert a spreadsheet date to an ISO date. Accepts ISO dates, local
+ * "YYYY-MM-DD HH:mm" and "DD.MM.YYYY HH:mm" times in the calendar time zone and
+ * Excel serial dates; anything else is returned as is for validation to reject.
+ */
+function parseImportDate(value: string): string {
+  let wallClock: number | null = null;
+  let match: RegExpMatchArray | null;
+
+  if (/^\d{4}-\d{2}-\d{2}T.+(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toISOString();
+  } else if ((match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/))) {
+    const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+    wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  } else if ((match = value.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/))) {
+    const [, day, month, year, hour = '0', minute = '0', second = '0'] = match;
+    wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  } else if (/^\d{5}(\.\d+)?$/.test(value)) {
+    // Days since 1899-12-30, rounded to the minute
+    wallClock = Date.UTC(1899, 11, 30) + Math.round(Number(value) * 24 * 60) * 60 * 1000;
+  }
+
+  if (wallClock === null || Number.isNaN(wallClock)) {
+    return value;
+  }
+
+  return fromWallClock(new Date(wallClock), config.calendar.timeZone).toISOString();
+}
+
+/**
+ * Convert a spreadsheet cell to the type the event field expects; values
+ * that don't convert are kept as text so validation reports them
+ */
+function parseImportValue(field: string, value: string): unknown {
+  if (IMPORT_NUMBER_FIELDS.includes(field)) {
+    const number = Number(value.replace(',', '.'));
+    return Number.isNaN(number) ? value : number;
+  }
+
+  if (IMPORT_BOOLEAN_FIELDS.includes(field)) {
+    const normalized = value.toLowerCase();
+    if (['yes', 'true', '1', 'da', 'y'].includes(normalized)) return true;
+    if (['no', 'false', '0', 'nu', 'n'].includes(normalized)) return false;
+    return value;
+  }
+
+  if (IMPORT_DATE_FIELDS.includes(field)) {
+    return parseImportDate(value);
+  }
+
+  if (field === 'tags') {
+    return value.split(/[,;]/).map((tag) => tag.trim()).filter(Boolean);
+  }
+
+  if (field === 'type') {
+    return value.toLowerCase();
+  }
+
+  return value;
+}
+
+/**
+ * Format a registration form answer as a single cell
+ */
+function formatAnswer(answer: RegistrationAnswers[string] | undefined) {
+  if (answer === undefined) return null;
+  if (Array.isArray(answer)) return answer.join('; ');
+  if (typeof answer === 'boolean') return answer ? 'Yes' : 'No';
+  return answer;
+}
+
+/**
+ * Great-circle distance in kilometres between an event and a point (haversine)
+ */
+function eventDistanceKm(point: GeoPoint) {
+  return sql<number>`(2 * ${EARTH_RADIUS_KM} * asin(least(1, sqrt(power(sin(radians(${events.latitude} - ${point.latitude}) / 2), 2) + cos(radians(${point.latitude})) * cos(radians(${events.latitude})) * power(sin(radians(${events.longitude} - ${point.longitude}) / 2), 2)))))`;
+}
+
+/**
+ * HTML-escape text in SQL, so ts_headline output carries no markup of its own
+ */
+function escapeHtml(text: SQL) {
+  return sql`replace(replace(replace(${text}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+}
+
+/**
+ * Thrown when an event cannot be deleted because people depend on it
+ */
+export class EventInUseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EventInUseError';
+  }
+}
 
 export class EventsService {
   /**
    * Create a new event
    */
   async createEvent(organizerId: string, input: CreateEventInput) {
+    const { speakerIds, ...fields } = input;
     const slug = generateUniqueSlug(input.title);
 
+    if (speakerIds) {
+      await speakersService.assertSpeakersExist(speakerIds);
+    }
+
+    const venue = fields.venueId
+      ? await venuesService.assertVenueUsable(fields.venueId, fields.maxParticipants)
+      : null;
+
+    if (venue) {
+      await venuesService.assertRoomAvailable({
+        venueId: venue.id,
+        startDate: new Date(input.startDate),
+        endDate: new Date(input.endDate),
+      });
+    }
+
     const [event] = await db
       .insert(events)
       .values({
-        ...input,
+        ...fields,
+        latitude: fields.latitude ?? venue?.latitude ?? null,
+        longitude: fields.longitude ?? venue?.longitude ?? null,
         slug,
         organizerId,
         startDate: new Date(input.startDate),
@@ -34,10 +277,159 @@ export class EventsService {
       })
       .returning();
 
+    if (speakerIds) {
+      await speakersService.setEventSpeakers(event.id, speakerIds);
+    }
+
     log.info(`Event created: ${event.id} by organizer ${organizerId}`);
     return event;
   }
 
+  /**
+   * Import events from a CSV or XLSX file with a header row. Every row is
+   * validated like a created event, with faculty and department given by
+   * abbreviation or name. A dry run only reports the errors per row; otherwise
+   * the valid rows are created together as drafts.
+   */
+  async importEvents(organizerId: string, file: { name: string; data: Buffer }, dryRun: boolean) {
+    // XLSX files are ZIP archives
+    const isXlsx = file.data.subarray(0, 2).toString('latin1') === 'PK';
+
+    if (!isXlsx && /\.xlsx?$/i.test(file.name)) {
+      throw new Error('Invalid spreadsheet; save it as .xlsx or .csv');
+    }
+
+    // Blank rows are skipped here rather than by the parsers, so errors point at the right spreadsheet row
+    const [header, ...rows] = (isXlsx ? readXlsx(file.data) : parseCsv(file.data.toString('utf8')))
+      .map((cells, index) => ({ number: index + 1, cells }))
+      .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+    const columns = header?.cells ?? [];
+    const fields = columns.map((name) => IMPORT_COLUMNS[name.toLowerCase().replace(/[^a-z0-9]/g, '')]);
+
+    if (!fields.some(Boolean)) {
+      throw new Error('The file has no recognizable columns; start it with a header row such as title, description, startDate');
+    }
+
+    if (rows.length === 0) {
+      throw new Error('The file has no events');
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`At most ${MAX_IMPORT_ROWS} events can be imported at once`);
+    }
+
+    const [facultyList, departmentList] = await Promise.all([
+      db.query.faculties.findMany({ columns: { id: true, name: true, abbreviation: true } }),
+      db.query.departments.findMany({ columns: { id: true, name: true, facultyId: true } }),
+    ]);
+
+    const results = rows.map(({ number, cells }) => {
+      const errors: { field: string; message: string }[] = [];
+      const values: Record<string, unknown> = {};
+
+      fields.forEach((field, column) => {
+        const value = cells[column]?.trim();
+
+        if (field && value) {
+          values[field] = parseImportValue(field, value);
+        }
+      });
+
+      const { faculty: facultyName, department: departmentName, ...input } = values as Record<string, unknown> & {
+        faculty?: string;
+        department?: string;
+      };
+
+      const faculty = facultyName
+        ? facultyList.find(
+            (candidate) =>
+              normalizeName(candidate.abbreviation) === normalizeName(facultyName) ||
+              normalizeName(candidate.name) === normalizeName(facultyName)
+          )
+        : undefined;
+
+      if (facultyName && !faculty) {
+        errors.push({ field: 'faculty', message: `Unknown faculty "${facultyName}"` });
+      } else if (faculty) {
+        input.facultyId = faculty.id;
+      }
+
+      if (departmentName) {
+        const matches = departmentList.filter(
+          (candidate) =>
+            normalizeName(candidate.name) === normalizeName(departmentName) &&
+            (!faculty || candidate.facultyId === faculty.id)
+        );
+
+        if (matches.length === 0) {
+          errors.push({
+            field: 'department',
+            message: `Unknown department "${departmentName}"${faculty ? ` in ${faculty.abbreviation}` : ''}`,
+          });
+        } else if (matches.length > 1) {
+          errors.push({ field: 'department', message: `Department "${departmentName}" exists in several faculties; add the faculty` });
+        } else {
+          input.departmentId = matches[0].id;
+          input.facultyId ??= matches[0].facultyId;
+        }
+      }
+
+      const parsed = createEventSchema.safeParse(input);
+
+      if (!parsed.success) {
+        errors.push(
+          ...parsed.error.issues.map((issue) => ({ field: issue.path.join('.') || 'row', message: issue.message }))
+        );
+      }
+
+      return {
+        row: number, // Spreadsheet row number
+        title: typeof input.title === 'string' ? input.title : null,
+        errors,
+        input: parsed.success && errors.length === 0 ? parsed.data : null,
+      };
+    });
+
+    const valid = results.filter((result) => result.input);
+    let created: { id: string; title: string; slug: string }[] = [];
+
+    if (!dryRun && valid.length > 0) {
+      // One statement, so either every valid row is created or none is
+      created = await db
+        .insert(events)
+        .values(
+          valid.map(({ input }) => {
+            const { speakerIds, ...fields } = input!;
+
+            return {
+              ...fields,
+              latitude: fields.latitude ?? null,
+              longitude: fields.longitude ?? null,
+              slug: generateUniqueSlug(fields.title),
+              organizerId,
+              startDate: new Date(fields.startDate),
+              endDate: new Date(fields.endDate),
+              registrationDeadline: fields.registrationDeadline ? new Date(fields.registrationDeadline) : null,
+              status: 'draft' as const,
+            };
+          })
+        )
+        .returning({ id: events.id, title: events.title, slug: events.slug });
+
+      log.info(`Imported ${created.length} event(s) as drafts for organizer ${organizerId}`);
+    }
+
+    return {
+      dryRun,
+      total: results.length,
+      valid: valid.length,
+      invalid: results.length - valid.length,
+      ignoredColumns: columns.filter((name, column) => name.trim() && !fields[column]),
+      rows: results.map(({ row, title, errors }) => ({ row, title, valid: errors.length === 0, errors })),
+      created,
+    };
+  }
+
   /**
    * Get event by ID
    */
@@ -58,6 +450,23 @@ export class EventsService {
           : undefined,
         faculty: true,
         department: true,
+        venue: true,
+        series: true,
+        speakers: {
+          with: {
+            speaker: true,
+          },
+        },
+        sessions: {
+          orderBy: [asc(eventSessions.startDate), asc(eventSessions.track)],
+          with: {
+            speakers: {
+              with: {
+                speaker: true,
+              },
+            },
+          },
+        },
       },
     });
 
@@ -82,16 +491,91 @@ export class EventsService {
         },
         faculty: true,
         department: true,
+        venue: true,
+        speakers: {
+          with: {
+            speaker: true,
+          },
+        },
+        sessions: {
+          orderBy: [asc(eventSessions.startDate), asc(eventSessions.track)],
+          with: {
+            speakers: {
+              with: {
+                speaker: true,
+              },
+            },
+          },
+        },
       },
     });
   }
 
   /**
-   * Update event
+   * Update event and record the changed fields as a revision
    */
-  async updateEvent(eventId: string, input: UpdateEventInput) {
+  async updateEvent(
+    eventId: string,
+    input: UpdateEventInput,
+    actorId?: string,
+    action: RevisionAction = 'event.updated'
+  ) {
+    const before = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+    });
+
+    if (!before) {
+      throw new Error('Event not found');
+    }
+
+    const { speakerIds, ...fields } = input;
+    const venueId = input.venueId !== undefined ? input.venueId : before.venueId;
+
+    // The update only carries changed fields, so check the dates it leaves the event with
+    const [dateIssue] = getEventDateIssues({
+      startDate: input.startDate ? new Date(input.startDate) : before.startDate,
+      endDate: input.endDate ? new Date(input.endDate) : before.endDate,
+      registrationDeadline:
+        input.registrationDeadline !== undefined
+          ? input.registrationDeadline ? new Date(input.registrationDeadline) : null // Restores may clear it
+          : before.registrationDeadline,
+    });
+
+    if (dateIssue) {
+      throw new Error(dateIssue.message);
+    }
+
+    // Existing registrations are either individual or team ones, never both
+    if (
+      input.maxTeamSize !== undefined &&
+      !!input.maxTeamSize !== !!before.maxTeamSize &&
+      before.currentParticipants > 0
+    ) {
+      throw new Error('Team registration cannot be turned on or off once people have registered');
+    }
+
+    if (
+      (input.maxTeamSize !== undefined ? input.maxTeamSize : before.maxTeamSize) &&
+      (input.requiresApproval ?? before.requiresApproval)
+    ) {
+      throw new Error('Team events cannot require approval');
+    }
+
+    const venue = venueId && (input.venueId || input.maxParticipants !== undefined)
+      ? await venuesService.assertVenueUsable(venueId, input.maxParticipants ?? before.maxParticipants)
+      : null;
+
+    if (venueId && (input.venueId || input.startDate || input.endDate)) {
+      await venuesService.assertRoomAvailable({
+        venueId,
+        startDate: input.startDate ? new Date(input.startDate) : before.startDate,
+        endDate: input.endDate ? new Date(input.endDate) : before.endDate,
+        excludeEventId: eventId,
+      });
+    }
+
     const updateData: Record<string, unknown> = {
-      ...input,
+      ...fields,
       updatedAt: new Date(),
     };
 
@@ -107,6 +591,27 @@ export class EventsService {
     if (input.title) {
       updateData.slug = generateUniqueSlug(input.title);
     }
+    if (input.maxTeamSize === null) {
+      updateData.minTeamSize = null;
+    }
+
+    // Moving to another room moves the map marker unless coordinates are given
+    if (venue && input.venueId && input.latitude === undefined) {
+      updateData.latitude = venue.latitude;
+      updateData.longitude = venue.longitude;
+    }
+
+    // Calendar clients only pick up changes to the schedule or venue when SEQUENCE grows
+    if (
+      input.startDate ||
+      input.endDate ||
+      input.location ||
+      input.address ||
+      input.venueId !== undefined ||
+      input.isOnline !== undefined
+    ) {
+      updateData.sequence = sql`${events.sequence} + 1`;
+    }
 
     const [updated] = await db
       .update(events)
@@ -114,6 +619,17 @@ export class EventsService {
       .where(eq(events.id, eventId))
       .returning();
 
+    await revisionsService.recordRevision({ eventId, actorId, action, before, after: updated });
+
+    if (speakerIds) {
+      await speakersService.setEventSpeakers(eventId, speakerIds);
+    }
+
+    // Raising the capacity frees spots for people on the waitlist
+    if (input.maxParticipants !== undefined) {
+      await this.promoteFromWaitlist(eventId);
+    }
+
     log.info(`Event updated: ${eventId}`);
     return updated;
   }
@@ -122,41 +638,142 @@ export class EventsService {
    * Delete event
    */
   async deleteEvent(eventId: string) {
-    await db.delete(events).where(eq(events.id, eventId));
+    // Registrations carry tickets, check-ins, attendance, feedback and certificates; those events are cancelled instead
+    const [registration, team] = await Promise.all([
+      db.query.eventRegistrations.findFirst({
+        where: eq(eventRegistrations.eventId, eventId),
+        columns: { id: true },
+      }),
+      db.query.teams.findFirst({
+        where: eq(teams.eventId, eventId),
+        columns: { id: true },
+      }),
+    ]);
+
+    if (registration || team) {
+      throw new EventInUseError('Events with registrations cannot be deleted; cancel the event instead');
+    }
+
+    const sessionIds = db.select({ id: eventSessions.id }).from(eventSessions).where(eq(eventSessions.eventId, eventId));
+
+    // One batch runs as a single transaction, so a failed delete leaves the event untouched
+    await db.batch([
+      db.delete(sessionSpeakers).where(inArray(sessionSpeakers.sessionId, sessionIds)),
+      db.delete(eventSessions).where(eq(eventSessions.eventId, eventId)),
+      db.delete(eventSpeakers).where(eq(eventSpeakers.eventId, eventId)),
+      db.delete(eventStaff).where(eq(eventStaff.eventId, eventId)),
+      db.delete(eventApprovals).where(eq(eventApprovals.eventId, eventId)),
+      db.delete(ticketTypes).where(eq(ticketTypes.eventId, eventId)),
+      db.delete(eventFavorites).where(eq(eventFavorites.eventId, eventId)),
+      db.delete(eventMaterials).where(eq(eventMaterials.eventId, eventId)),
+      db.delete(checkInScans).where(eq(checkInScans.eventId, eventId)), // Rejected scans of unknown tickets
+      db.delete(events).where(eq(events.id, eventId)),
+    ]);
     log.info(`Event deleted: ${eventId}`);
   }
 
   /**
-   * Submit event for approval
+   * Submit event for approval, fixing its review pipeline
    */
   async submitForApproval(eventId: string) {
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+      columns: {
+        facultyId: true,
+        departmentId: true,
+        isFeatured: true,
+        venueId: true,
+        startDate: true,
+        endDate: true,
+      },
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    if (event.venueId) {
+      await venuesService.assertRoomAvailable({
+        venueId: event.venueId,
+        startDate: event.startDate,
+        endDate: event.endDate,
+        excludeEventId: eventId,
+      });
+    }
+
+    const stages = await approvalsService.getPipeline(event);
+
     const [updated] = await db
       .update(events)
       .set({
         status: 'pending',
+        approvalStages: stages,
+        approvalStage: stages[0],
         updatedAt: new Date(),
       })
       .where(eq(events.id, eventId))
       .returning();
 
-    log.info(`Event submitted for approval: ${eventId}`);
+    log.info(`Event submitted for approval: ${eventId} (stages: ${stages.join(' > ')})`);
     return updated;
   }
 
   /**
-   * Review event (approve/reject)
+   * Review event at its current stage. Approval moves it to the next stage, or
+   * approves it after the last one; rejection at any stage rejects the event.
+   * Admin overrides of stages they don't review are recorded as such.
    */
-  async reviewEvent(eventId: string, adminId: string, input: ReviewEventInput) {
+  async reviewEvent(eventId: string, reviewerId: string, input: ReviewEventInput, isOverride = false) {
+    const before = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+    });
+
+    if (!before) {
+      throw new Error('Event not found');
+    }
+
+    if (before.status !== 'pending') {
+      throw new Error('Only pending events can be reviewed');
+    }
+
+    const stage = before.approvalStage ?? 'central';
+    const stages = [...(before.approvalStages ?? [stage])];
+
+    // Events featured while under review still need central sign-off
+    if (before.isFeatured && !stages.includes('central')) {
+      stages.push('central');
+    }
+
+    const nextStage = stages[stages.indexOf(stage) + 1];
+
+    await approvalsService.recordDecision({
+      eventId,
+      stage,
+      reviewerId,
+      decision: input.status,
+      comment: input.comment ?? input.rejectionReason,
+      isOverride,
+    });
+
     const updateData: Record<string, unknown> = {
-      status: input.status,
       updatedAt: new Date(),
     };
 
-    if (input.status === 'approved') {
+    if (input.status === 'approved' && nextStage) {
+      updateData.approvalStage = nextStage;
+    } else if (input.status === 'approved') {
+      updateData.status = 'approved';
+      updateData.approvalStage = null;
       updateData.approvedAt = new Date();
-      updateData.approvedBy = adminId;
-    } else if (input.status === 'rejected') {
-      updateData.rejectionReason = input.rejectionReason;
+      updateData.approvedBy = reviewerId;
+    } else {
+      updateData.status = 'rejected';
+      updateData.approvalStage = null;
+      updateData.rejectionReason = input.rejectionReason ?? input.comment;
+    }
+
+    if (nextStage === 'central' && !before.approvalStages?.includes('central')) {
+      updateData.approvalStages = stages;
     }
 
     const [updated] = await db
@@ -165,10 +782,184 @@ export class EventsService {
       .where(eq(events.id, eventId))
       .returning();
 
-    log.info(`Event ${eventId} ${input.status} by admin ${adminId}`);
+    await revisionsService.recordRevision({
+      eventId,
+      actorId: reviewerId,
+      action: 'event.reviewed',
+      before,
+      after: updated,
+    });
+
+    log.info(`Event ${eventId} ${input.status} at ${stage} stage by ${reviewerId}`);
+    return updated;
+  }
+
+  /**
+   * Cancel event: cancel active registrations and notify registrants and favoriters
+   */
+  async cancelEvent(eventId: string, cancelledBy: string, input: CancelEventInput) {
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    if (event.status === 'cancelled' || event.status === 'completed') {
+      throw new Error(`Event is already ${event.status}`);
+    }
+
+    const [updated] = await db
+      .update(events)
+      .set({
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        cancelledBy,
+        cancellationReason: input.reason,
+        currentParticipants: 0,
+        sequence: sql`${events.sequence} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(events.id, eventId))
+      .returning();
+
+    await revisionsService.recordRevision({
+      eventId,
+      actorId: cancelledBy,
+      action: 'event.cancelled',
+      before: event,
+      after: updated,
+    });
+
+    const cancelledRegistrations = await db
+      .update(eventRegistrations)
+      .set({
+        status: 'cancelled',
+        waitlistPosition: null,
+      })
+      .where(
+        and(
+          eq(eventRegistrations.eventId, eventId),
+          inArray(eventRegistrations.status, ['pending', 'confirmed', 'waitlisted'])
+        )
+      )
+      .returning({
+        id: eventRegistrations.id,
+        userId: eventRegistrations.userId,
+        guestEmail: eventRegistrations.guestEmail,
+      });
+
+    // Free every session seat held by the cancelled registrations
+    if (cancelledRegistrations.length > 0) {
+      await db
+        .delete(sessionRegistrations)
+        .where(inArray(sessionRegistrations.registrationId, cancelledRegistrations.map((r) => r.id)));
+      await db
+        .update(eventSessions)
+        .set({ currentParticipants: 0 })
+        .where(eq(eventSessions.eventId, eventId));
+      await db
+        .update(ticketTypes)
+        .set({ currentParticipants: 0 })
+        .where(eq(ticketTypes.eventId, eventId));
+    }
+
+    const favoriters = await db.query.eventFavorites.findMany({
+      where: eq(eventFavorites.eventId, eventId),
+      columns: { userId: true },
+    });
+
+    const userIds = Array.from(
+      new Set([
+        ...cancelledRegistrations.flatMap((r) => (r.userId ? [r.userId] : [])),
+        ...favoriters.map((f) => f.userId),
+      ])
+    );
+
+    await notificationsService.notifyEventCancelled(eventId, event.title, input.reason, userIds);
+
+    // Guests have no in-app notifications, so they are told by email
+    await guestsService.notifyEventCancelled(
+      event.title,
+      input.reason,
+      cancelledRegistrations.flatMap((r) => (r.guestEmail ? [r.guestEmail] : []))
+    );
+
+    log.info(
+      `Event ${eventId} cancelled by ${cancelledBy}: ${cancelledRegistrations.length} registrations cancelled, ${userIds.length} users notified`
+    );
     return updated;
   }
 
+  /**
+   * Complete approved events that have ended (run by the scheduled job).
+   * Confirmed registrations that never checked in become no-shows, pending
+   * and waitlisted ones are closed, and attendees are asked for feedback.
+   */
+  async completeEndedEvents(now = new Date()) {
+    const ended = await db.query.events.findMany({
+      where: and(eq(events.status, 'approved'), lt(events.endDate, now)),
+      columns: { id: true, title: true },
+    });
+
+    let noShows = 0;
+    let feedbackRequests = 0;
+
+    for (const event of ended) {
+      await db
+        .update(events)
+        .set({ status: 'completed', updatedAt: now })
+        .where(eq(events.id, event.id));
+
+      const markedNoShow = await db
+        .update(eventRegistrations)
+        .set({ status: 'no_show' })
+        .where(
+          and(
+            eq(eventRegistrations.eventId, event.id),
+            eq(eventRegistrations.status, 'confirmed'),
+            isNull(eventRegistrations.checkedInAt)
+          )
+        )
+        .returning({ id: eventRegistrations.id });
+
+      await db
+        .update(eventRegistrations)
+        .set({ status: 'cancelled', waitlistPosition: null })
+        .where(
+          and(
+            eq(eventRegistrations.eventId, event.id),
+            inArray(eventRegistrations.status, ['pending', 'waitlisted'])
+          )
+        );
+
+      // Feedback is collected from attendees with an account who stayed long enough
+      const { requiredSeconds } = await checkInService.getAttendanceRule(event.id);
+      const attendees = await db.query.eventRegistrations.findMany({
+        where: and(
+          eq(eventRegistrations.eventId, event.id),
+          eq(eventRegistrations.status, 'attended'),
+          isNotNull(eventRegistrations.userId),
+          gte(eventRegistrations.attendanceSeconds, requiredSeconds ?? 0)
+        ),
+        columns: { userId: true },
+      });
+
+      for (const attendee of attendees) {
+        await notificationsService.sendFeedbackRequest(attendee.userId!, event.id, event.title);
+      }
+
+      noShows += markedNoShow.length;
+      feedbackRequests += attendees.length;
+    }
+
+    log.info(
+      `Completed ${ended.length} ended events: ${noShows} no-shows, ${feedbackRequests} feedback requests sent`
+    );
+    return { completed: ended.length, noShows, feedbackRequests };
+  }
+
   /**
    * List events with filters
    */
@@ -177,9 +968,9 @@ export class EventsService {
 
     const conditions = [];
 
-    // Only show approved events for public listing (unless admin/organizer filtering)
+    // Only show public events for public listing (unless admin/organizer filtering)
     if (!query.status && !query.organizerId) {
-      conditions.push(eq(events.status, 'approved'));
+      conditions.push(inArray(events.status, publicEventStatuses));
     } else if (query.status) {
       conditions.push(eq(events.status, query.status as EventStatus));
     }
@@ -200,6 +991,29 @@ export class EventsService {
       conditions.push(eq(events.organizerId, query.organizerId));
     }
 
+    // Speakers can be attached to the event itself or to one of its sessions
+    if (query.speakerId) {
+      conditions.push(
+        or(
+          inArray(
+            events.id,
+            db
+              .select({ eventId: eventSpeakers.eventId })
+              .from(eventSpeakers)
+              .where(eq(eventSpeakers.speakerId, query.speakerId))
+          ),
+          inArray(
+            events.id,
+            db
+              .select({ eventId: eventSessions.eventId })
+              .from(sessionSpeakers)
+              .innerJoin(eventSessions, eq(sessionSpeakers.sessionId, eventSessions.id))
+              .where(eq(sessionSpeakers.speakerId, query.speakerId))
+          )
+        )
+      );
+    }
+
     if (query.startDateFrom) {
       conditions.push(gte(events.startDate, new Date(query.startDateFrom)));
     }
@@ -216,22 +1030,47 @@ export class EventsService {
       conditions.push(eq(events.isFeatured, query.isFeatured === 'true'));
     }
 
-    if (query.search) {
-      const searchTerm = `%${query.search}%`;
+    // Events within a radius; the bounding box lets the location index narrow candidates
+    const nearPoint = query.near ? parseGeoPoint(query.near) : null;
+
+    if (nearPoint) {
+      const radiusKm = Math.min(
+        query.radiusKm ? parseFloat(query.radiusKm) : DEFAULT_NEAR_RADIUS_KM,
+        MAX_NEAR_RADIUS_KM
+      );
+      const box = boundingBoxAround(nearPoint, radiusKm);
+
       conditions.push(
-        or(
-          ilike(events.title, searchTerm),
-          ilike(events.description, searchTerm),
-          ilike(events.location, searchTerm)
-        )
+        gte(events.latitude, box.minLatitude),
+        lte(events.latitude, box.maxLatitude),
+        gte(events.longitude, box.minLongitude),
+        lte(events.longitude, box.maxLongitude),
+        lte(eventDistanceKm(nearPoint), radiusKm)
       );
     }
 
+    // Full-text search over the weighted document the GIN index is built on
+    const searchDocument = eventSearchDocument(events);
+    const searchQuery = query.search
+      ? sql`websearch_to_tsquery(${searchConfig}, ${query.search})`
+      : null;
+
+    if (searchQuery) {
+      conditions.push(sql`${searchDocument} @@ ${searchQuery}`);
+    }
+
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
     // Determine sort column
+    const sortBy = query.sortBy ?? (searchQuery ? 'relevance' : nearPoint ? 'distance' : 'startDate');
     let sortColumn;
-    switch (query.sortBy) {
+    switch (sortBy) {
+      case 'relevance':
+        sortColumn = searchQuery ? sql`ts_rank(${searchDocument}, ${searchQuery})` : events.startDate;
+        break;
+      case 'distance':
+        sortColumn = nearPoint ? eventDistanceKm(nearPoint) : events.startDate;
+        break;
       case 'title':
         sortColumn = events.title;
         break;
@@ -243,14 +1082,16 @@ export class EventsService {
         sortColumn = events.startDate;
     }
 
-    const orderBy = query.sortOrder === 'desc' ? desc(sortColumn) : asc(sortColumn);
+    // Relevance is best-first unless explicitly reversed
+    const descending = query.sortOrder === 'desc' || (query.sortBy === undefined && sortBy === 'relevance');
+    const orderBy = descending ? desc(sortColumn) : asc(sortColumn);
 
     const [data, totalResult] = await Promise.all([
       db.query.events.findMany({
         where: whereClause,
         limit,
         offset,
-        orderBy: [orderBy],
+        orderBy: [orderBy, asc(events.startDate)],
         with: {
           organizer: {
             columns: {
@@ -271,6 +1112,27 @@ export class EventsService {
       db.select({ count: count() }).from(events).where(whereClause),
     ]);
 
+    if ((searchQuery || nearPoint) && data.length > 0) {
+      const highlights = searchQuery
+        ? await this.getSearchHighlights(data.map((event) => event.id), searchQuery)
+        : null;
+
+      return {
+        data: data.map((event) => ({
+          ...event,
+          ...(highlights && { highlight: highlights.get(event.id) ?? null }),
+          ...(nearPoint && {
+            distanceKm: Math.round(
+              distanceKm(nearPoint, { latitude: event.latitude!, longitude: event.longitude! }) * 100
+            ) / 100,
+          }),
+        })),
+        total: totalResult[0]?.count || 0,
+        page,
+        limit,
+      };
+    }
+
     return {
       data,
       total: totalResult[0]?.count || 0,
@@ -279,6 +1141,120 @@ export class EventsService {
     };
   }
 
+  /**
+   * Highlight search matches in titles and build description snippets
+   * (matches wrapped in <mark>), only for the events on the current page.
+   * The text is HTML-escaped first so only the <mark> tags are markup.
+   */
+  private async getSearchHighlights(eventIds: string[], searchQuery: SQL) {
+    const rows = await db
+      .select({
+        id: events.id,
+        title: sql<string>`ts_headline(${searchConfig}, ${escapeHtml(sql`${events.title}`)}, ${searchQuery}, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')`,
+        snippet: sql<string>`ts_headline(${searchConfig}, ${escapeHtml(sql`coalesce(${events.shortDescription}, '') || ' ' || ${events.description}`)}, ${searchQuery}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "')`,
+      })
+      .from(events)
+      .where(inArray(events.id, eventIds));
+
+    return new Map(rows.map(({ id, ...highlight }) => [id, highlight]));
+  }
+
+  /**
+   * Get map markers for upcoming approved events in a bounding box. Events
+   * are grouped on a grid; cells with one event return the event itself.
+   */
+  async getMapMarkers(query: MapEventsQuery, now = new Date()) {
+    const box = parseBoundingBox(query.bbox);
+
+    if (box.minLatitude > box.maxLatitude || box.minLongitude > box.maxLongitude) {
+      throw new Error('Invalid bounding box');
+    }
+
+    const cellSize =
+      Math.max(box.maxLatitude - box.minLatitude, box.maxLongitude - box.minLongitude, 1e-6) / MAP_GRID_CELLS;
+
+    const conditions = [
+      eq(events.status, 'approved'),
+      gte(events.endDate, now),
+      gte(events.latitude, box.minLatitude),
+      lte(events.latitude, box.maxLatitude),
+      gte(events.longitude, box.minLongitude),
+      lte(events.longitude, box.maxLongitude),
+    ];
+
+    if (query.type) {
+      conditions.push(eq(events.type, query.type));
+    }
+
+    if (query.facultyId) {
+      conditions.push(eq(events.facultyId, query.facultyId));
+    }
+
+    const cells = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        latitude: sql<number>`avg(${events.latitude})`,
+        longitude: sql<number>`avg(${events.longitude})`,
+        // Earliest event of the cell, shown when the cell holds a single event
+        id: sql<string>`(array_agg(${events.id} order by ${events.startDate}))[1]`,
+        title: sql<string>`(array_agg(${events.title} order by ${events.startDate}))[1]`,
+        slug: sql<string>`(array_agg(${events.slug} order by ${events.startDate}))[1]`,
+        type: sql<string>`(array_agg(${events.type} order by ${events.startDate}))[1]`,
+        startDate: sql<string>`min(${events.startDate})`,
+      })
+      .from(events)
+      .where(and(...conditions))
+      .groupBy(
+        sql`floor(${events.latitude} / ${cellSize})`,
+        sql`floor(${events.longitude} / ${cellSize})`
+      );
+
+    return cells.map(({ count: eventCount, id, title, slug, type, ...cell }) =>
+      eventCount === 1
+        ? { kind: 'event' as const, id, title, slug, type, ...cell }
+        : { kind: 'cluster' as const, count: eventCount, ...cell }
+    );
+  }
+
+  /**
+   * Autocomplete event titles from a prefix, upcoming events first
+   */
+  async suggestEvents(query: SearchSuggestQuery) {
+    const limit = Math.min(Math.max(parseInt(query.limit, 10) || 8, 1), 20);
+
+    // Every word becomes a title-only (weight A) prefix match
+    const words = query.q.split(/[^\p{L}\p{N}]+/u).filter(Boolean).slice(0, 8);
+
+    if (words.length === 0) {
+      return [];
+    }
+
+    const prefixQuery = sql`to_tsquery(${searchConfig}, ${words.map((word) => `${word}:*A`).join(' & ')})`;
+    const searchDocument = eventSearchDocument(events);
+
+    return db
+      .select({
+        id: events.id,
+        title: events.title,
+        slug: events.slug,
+        startDate: events.startDate,
+        status: events.status,
+      })
+      .from(events)
+      .where(
+        and(
+          inArray(events.status, publicEventStatuses),
+          sql`${searchDocument} @@ ${prefixQuery}`
+        )
+      )
+      .orderBy(
+        desc(sql`${events.endDate} >= now()`),
+        desc(sql`ts_rank(${searchDocument}, ${prefixQuery})`),
+        asc(events.startDate)
+      )
+      .limit(limit);
+  }
+
   /**
    * Get events organized by a user
    */
@@ -302,7 +1278,12 @@ export class EventsService {
   /**
    * Register user for an event
    */
-  async registerForEvent(eventId: string, userId: string, input: RegisterForEventInput) {
+  async registerForEvent(
+    eventId: string,
+    userId: string,
+    input: RegisterForEventInput,
+    viaSeries = false
+  ) {
     // Check if event exists and is open for registration
     const event = await this.getEventById(eventId);
 
@@ -310,16 +1291,24 @@ export class EventsService {
       throw new Error('Event not found');
     }
 
-    if (event.status !== 'approved') {
-      throw new Error('Event is not open for registration');
+    if (!viaSeries && event.series?.registrationMode === 'series') {
+      throw new Error('This event is part of a series that requires registering for the whole series');
+    }
+
+    if (event.status === 'cancelled') {
+      throw new Error('This event has been cancelled');
+    }
+
+    if (event.status !== 'approved') {
+      throw new Error('Event is not open for registration');
     }
 
     if (event.registrationDeadline && new Date() > event.registrationDeadline) {
       throw new Error('Registration deadline has passed');
     }
 
-    if (event.maxParticipants && event.currentParticipants >= event.maxParticipants) {
-      throw new Error('Event is full');
+    if (event.maxTeamSize) {
+      throw new Error('This event takes team registrations; create a team or accept an invitation');
     }
 
     // Check if user is already registered
@@ -334,19 +1323,52 @@ export class EventsService {
       throw new Error('You are already registered for this event');
     }
 
-    // Create registration
+    const answers = validateRegistrationAnswers(event.registrationForm ?? [], input.answers);
+    const ticketType = await ticketsService.resolveForRegistration(eventId, userId, input.ticketTypeId);
+
+    // Organizers pick participants by hand; the registration takes no spot until approved
+    if (event.requiresApproval) {
+      const [pending] = await db
+        .insert(eventRegistrations)
+        .values({
+          eventId,
+          userId,
+          ticketTypeId: ticketType?.id ?? null,
+          status: 'pending',
+          notes: input.notes,
+          answers,
+        })
+        .returning();
+
+      log.info(`User ${userId} requested registration for event ${eventId}`);
+      return pending;
+    }
+
+    // Full events and sold-out ticket types queue the user on the waitlist instead of rejecting them
+    if (
+      (event.maxParticipants && event.currentParticipants >= event.maxParticipants) ||
+      (ticketType && ticketType.currentParticipants >= ticketType.quota)
+    ) {
+      return this.joinWaitlist(eventId, userId, input, answers, ticketType?.id ?? null);
+    }
+
+    // Create registration; the ID is chosen up front because the QR code is bound to it
+    const registrationId = randomUUID();
     const ticketNumber = generateTicketNumber();
-    const qrCode = generateQrCodeContent(eventId, ticketNumber);
+    const qrCode = await signTicket({ registrationId, eventId, ticketNumber });
 
     const [registration] = await db
       .insert(eventRegistrations)
       .values({
+        id: registrationId,
         eventId,
         userId,
+        ticketTypeId: ticketType?.id ?? null,
         status: 'confirmed',
         ticketNumber,
         qrCode,
         notes: input.notes,
+        answers,
       })
       .returning();
 
@@ -358,6 +1380,10 @@ export class EventsService {
       })
       .where(eq(events.id, eventId));
 
+    if (ticketType) {
+      await ticketsService.adjustParticipants(ticketType.id, 1);
+    }
+
     log.info(`User ${userId} registered for event ${eventId}`);
     return registration;
   }
@@ -385,14 +1411,40 @@ export class EventsService {
       throw new Error('Registration is already cancelled');
     }
 
+    if (registration.status === 'rejected') {
+      throw new Error('Registration was not approved');
+    }
+
+    // Team members leave through their team; the team keeps its place until the captain cancels it
+    if (registration.teamId) {
+      await teamsService.removeMember(eventId, registration.teamId, userId, userId);
+      return;
+    }
+
     await db
       .update(eventRegistrations)
       .set({
         status: 'cancelled',
+        waitlistPosition: null,
         updatedAt: new Date(),
       })
       .where(eq(eventRegistrations.id, registration.id));
 
+    // Leaving the waitlist only closes the gap in the queue
+    if (registration.status === 'waitlisted') {
+      await this.shiftWaitlist(eventId, registration.waitlistPosition ?? 0, 1);
+      log.info(`User ${userId} left the waitlist for event ${eventId}`);
+      return;
+    }
+
+    // Registrations awaiting approval hold no spot
+    if (registration.status === 'pending') {
+      log.info(`User ${userId} withdrew their registration request for event ${eventId}`);
+      return;
+    }
+
+    await sessionsService.releaseRegistrationSessions(registration.id);
+
     // Update participant count
     await db
       .update(events)
@@ -401,9 +1453,404 @@ export class EventsService {
       })
       .where(eq(events.id, eventId));
 
+    if (registration.ticketTypeId) {
+      await ticketsService.adjustParticipants(registration.ticketTypeId, -1);
+    }
+
+    await this.promoteFromWaitlist(eventId);
+
     log.info(`User ${userId} cancelled registration for event ${eventId}`);
   }
 
+  /**
+   * Add user to the end of an event's waitlist, with the ticket type resolved for them
+   */
+  async joinWaitlist(
+    eventId: string,
+    userId: string,
+    input: RegisterForEventInput,
+    answers: RegistrationAnswers,
+    ticketTypeId: string | null
+  ) {
+    for (let attempt = 1; ; attempt++) {
+      const [last] = await db
+        .select({ position: max(eventRegistrations.waitlistPosition) })
+        .from(eventRegistrations)
+        .where(
+          and(
+            eq(eventRegistrations.eventId, eventId),
+            eq(eventRegistrations.status, 'waitlisted')
+          )
+        );
+
+      const position = (last?.position ?? 0) + 1;
+
+      try {
+        const [registration] = await db
+          .insert(eventRegistrations)
+          .values({
+            eventId,
+            userId,
+            ticketTypeId,
+            status: 'waitlisted',
+            waitlistPosition: position,
+            notes: input.notes,
+            answers,
+          })
+          .returning();
+
+        log.info(`User ${userId} added to waitlist for event ${eventId} at position ${position}`);
+        return registration;
+      } catch (err) {
+        // Someone else joined at the same moment and took the place; read the end of the queue again
+        if (attempt >= MAX_WAITLIST_JOIN_ATTEMPTS || !isUniqueViolation(err, WAITLIST_POSITION_CONSTRAINT)) {
+          throw err;
+        }
+      }
+    }
+  }
+
+  /**
+   * Promote waitlisted users into free spots, issuing tickets and notifying them.
+   * Entries for a sold-out ticket type keep their place in the queue.
+   */
+  async promoteFromWaitlist(eventId: string) {
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+      columns: {
+        id: true,
+        title: true,
+        status: true,
+        maxParticipants: true,
+        currentParticipants: true,
+      },
+    });
+
+    if (!event || event.status !== 'approved') {
+      return [];
+    }
+
+    const freeSpots = event.maxParticipants
+      ? event.maxParticipants - event.currentParticipants
+      : undefined;
+
+    if (freeSpots !== undefined && freeSpots <= 0) {
+      return [];
+    }
+
+    const types = await ticketsService.getEventTicketTypes(eventId);
+    const remainingByType = new Map(types.map((type) => [type.id, type.quota - type.currentParticipants]));
+
+    const waitlist = await db.query.eventRegistrations.findMany({
+      where: and(
+        eq(eventRegistrations.eventId, eventId),
+        eq(eventRegistrations.status, 'waitlisted')
+      ),
+      orderBy: [asc(eventRegistrations.waitlistPosition)],
+      limit: types.length === 0 ? freeSpots : undefined,
+    });
+
+    const next = [];
+
+    for (const entry of waitlist) {
+      if (freeSpots !== undefined && next.length >= freeSpots) {
+        break;
+      }
+
+      if (entry.ticketTypeId) {
+        const remaining = remainingByType.get(entry.ticketTypeId) ?? 0;
+
+        if (remaining <= 0) {
+          continue;
+        }
+
+        remainingByType.set(entry.ticketTypeId, remaining - 1);
+      }
+
+      next.push(entry);
+    }
+
+    if (next.length === 0) {
+      return [];
+    }
+
+    const promoted = [];
+
+    for (const entry of next) {
+      const ticketNumber = generateTicketNumber();
+      const qrCode = await signTicket({ registrationId: entry.id, eventId, ticketNumber });
+
+      const [registration] = await db
+        .update(eventRegistrations)
+        .set({
+          status: 'confirmed',
+          waitlistPosition: null,
+          ticketNumber,
+          qrCode,
+          updatedAt: new Date(),
+        })
+        .where(eq(eventRegistrations.id, entry.id))
+        .returning();
+
+      if (registration.ticketTypeId) {
+        await ticketsService.adjustParticipants(registration.ticketTypeId, 1);
+      }
+
+      // Guests confirm into a free spot and are never waitlisted
+      if (registration.userId) {
+        await notificationsService.sendWaitlistPromotion(
+          registration.userId,
+          eventId,
+          event.title,
+          ticketNumber
+        );
+      }
+
+      promoted.push(registration);
+    }
+
+    await db
+      .update(events)
+      .set({
+        currentParticipants: sql`${events.currentParticipants} + ${promoted.length}`,
+      })
+      .where(eq(events.id, eventId));
+
+    if (types.length === 0) {
+      // Promoted entries were the head of the queue, so everyone else moves up
+      await this.shiftWaitlist(eventId, 0, promoted.length);
+    } else {
+      // Sold-out ticket types may have been skipped, so close each gap from the back
+      for (const entry of [...next].reverse()) {
+        await this.shiftWaitlist(eventId, entry.waitlistPosition ?? 0, 1);
+      }
+    }
+
+    log.info(`Promoted ${promoted.length} user(s) from waitlist for event ${eventId}`);
+    return promoted;
+  }
+
+  /**
+   * Move waitlist entries behind a given position up by `by` places
+   */
+  async shiftWaitlist(eventId: string, afterPosition: number, by: number) {
+    await db
+      .update(eventRegistrations)
+      .set({
+        waitlistPosition: sql`${eventRegistrations.waitlistPosition} - ${by}`,
+      })
+      .where(
+        and(
+          eq(eventRegistrations.eventId, eventId),
+          eq(eventRegistrations.status, 'waitlisted'),
+          gt(eventRegistrations.waitlistPosition, afterPosition)
+        )
+      );
+  }
+
+  /**
+   * Get event waitlist in queue order (for organizers)
+   */
+  async getEventWaitlist(eventId: string) {
+    return this.getEventParticipants(eventId, 'waitlisted');
+  }
+
+  /**
+   * Move a waitlist entry to a new position (for organizers)
+   */
+  async moveWaitlistEntry(eventId: string, registrationId: string, position: number) {
+    const waitlist = await db.query.eventRegistrations.findMany({
+      where: and(
+        eq(eventRegistrations.eventId, eventId),
+        eq(eventRegistrations.status, 'waitlisted')
+      ),
+      columns: { id: true },
+      orderBy: [asc(eventRegistrations.waitlistPosition)],
+    });
+
+    const fromIndex = waitlist.findIndex((entry) => entry.id === registrationId);
+
+    if (fromIndex === -1) {
+      throw new Error('Registration is not on the waitlist');
+    }
+
+    const toIndex = Math.min(position, waitlist.length) - 1;
+    const [entry] = waitlist.splice(fromIndex, 1);
+    waitlist.splice(toIndex, 0, entry);
+
+    // Only entries between the old and new position change place
+    const start = Math.min(fromIndex, toIndex);
+    const end = Math.max(fromIndex, toIndex);
+
+    const moved = waitlist.slice(start, end + 1);
+
+    // A single statement, so the queue is never left with duplicate or missing places
+    await db
+      .update(eventRegistrations)
+      .set({
+        waitlistPosition: sql`(case ${eventRegistrations.id} ${sql.join(
+          moved.map((item, offset) => sql`when ${item.id} then ${start + offset + 1}`),
+          sql` `
+        )} end)::integer`,
+        updatedAt: new Date(),
+      })
+      .where(inArray(eventRegistrations.id, moved.map((item) => item.id)));
+
+    log.info(`Waitlist entry ${registrationId} moved to position ${toIndex + 1} for event ${eventId}`);
+    return this.getEventWaitlist(eventId);
+  }
+
+  /**
+   * Load a registration that is waiting for the organizer's decision.
+   * Guests must have confirmed their email first.
+   */
+  private async getPendingRegistration(eventId: string, registrationId: string) {
+    const registration = await db.query.eventRegistrations.findFirst({
+      where: and(eq(eventRegistrations.id, registrationId), eq(eventRegistrations.eventId, eventId)),
+    });
+
+    if (!registration) {
+      throw new Error('Registration not found');
+    }
+
+    if (registration.status !== 'pending') {
+      throw new Error('Registration is not awaiting approval');
+    }
+
+    if (!registration.userId && !registration.guestConfirmedAt) {
+      throw new Error('The guest has not confirmed their email yet');
+    }
+
+    return registration;
+  }
+
+  /**
+   * Approve a pending registration: issue the ticket, take a spot and
+   * notify the participant
+   */
+  async approveRegistration(eventId: string, registrationId: string, reviewerId: string, message?: string) {
+    const registration = await this.getPendingRegistration(eventId, registrationId);
+
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+    });
+
+    if (!event || event.status !== 'approved') {
+      throw new Error('Event is not open for registration');
+    }
+
+    if (event.maxParticipants && event.currentParticipants >= event.maxParticipants) {
+      throw new Error('Event is full');
+    }
+
+    if (registration.ticketTypeId) {
+      const ticketType = await ticketsService.getTicketTypeById(eventId, registration.ticketTypeId);
+
+      if (ticketType && ticketType.currentParticipants >= ticketType.quota) {
+        throw new Error(`"${ticketType.name}" tickets are sold out`);
+      }
+    }
+
+    const ticketNumber = generateTicketNumber();
+    const qrCode = await signTicket({ registrationId: registration.id, eventId, ticketNumber });
+
+    const [approved] = await db
+      .update(eventRegistrations)
+      .set({
+        status: 'confirmed',
+        ticketNumber,
+        qrCode,
+        reviewedAt: new Date(),
+        reviewedBy: reviewerId,
+        reviewMessage: message ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(eventRegistrations.id, registration.id))
+      .returning();
+
+    await db
+      .update(events)
+      .set({
+        currentParticipants: sql`${events.currentParticipants} + 1`,
+      })
+      .where(eq(events.id, eventId));
+
+    if (registration.ticketTypeId) {
+      await ticketsService.adjustParticipants(registration.ticketTypeId, 1);
+    }
+
+    if (approved.userId) {
+      await notificationsService.sendRegistrationApproved(approved.userId, eventId, event.title, ticketNumber, message);
+    } else {
+      await guestsService.sendTicket(approved, event, message);
+    }
+
+    log.info(`Registration ${registrationId} approved for event ${eventId} by ${reviewerId}`);
+    return approved;
+  }
+
+  /**
+   * Reject a pending registration and notify the participant
+   */
+  async rejectRegistration(eventId: string, registrationId: string, reviewerId: string, message?: string) {
+    const registration = await this.getPendingRegistration(eventId, registrationId);
+
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+      columns: { title: true },
+    });
+
+    const [rejected] = await db
+      .update(eventRegistrations)
+      .set({
+        status: 'rejected',
+        reviewedAt: new Date(),
+        reviewedBy: reviewerId,
+        reviewMessage: message ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(eventRegistrations.id, registration.id))
+      .returning();
+
+    if (event) {
+      if (rejected.userId) {
+        await notificationsService.sendRegistrationRejected(rejected.userId, eventId, event.title, message);
+      } else {
+        await guestsService.sendRejection(rejected, event.title, message);
+      }
+    }
+
+    log.info(`Registration ${registrationId} rejected for event ${eventId} by ${reviewerId}`);
+    return rejected;
+  }
+
+  /**
+   * Approve or reject several pending registrations in the given order.
+   * Registrations that cannot be reviewed are reported, not fatal.
+   */
+  async reviewRegistrations(eventId: string, reviewerId: string, input: BulkRegistrationDecisionInput) {
+    const reviewed = [];
+    const skipped: { registrationId: string; reason: string }[] = [];
+
+    for (const registrationId of new Set(input.registrationIds)) {
+      try {
+        reviewed.push(
+          input.decision === 'approve'
+            ? await this.approveRegistration(eventId, registrationId, reviewerId, input.message)
+            : await this.rejectRegistration(eventId, registrationId, reviewerId, input.message)
+        );
+      } catch (err) {
+        skipped.push({
+          registrationId,
+          reason: err instanceof Error ? err.message : 'Review failed',
+        });
+      }
+    }
+
+    log.info(`${reviewed.length} registrations ${input.decision === 'approve' ? 'approved' : 'rejected'} for event ${eventId}`);
+    return { reviewed, skipped };
+  }
+
   /**
    * Get user's registrations
    */
@@ -411,6 +1858,11 @@ export class EventsService {
     return db.query.eventRegistrations.findMany({
       where: eq(eventRegistrations.userId, userId),
       with: {
+        sessions: {
+          with: {
+            session: true,
+          },
+        },
         event: {
           with: {
             organizer: {
@@ -439,6 +1891,9 @@ export class EventsService {
 
     return db.query.eventRegistrations.findMany({
       where: and(...conditions),
+      columns: {
+        guestTokenHash: false,
+      },
       with: {
         user: {
           columns: {
@@ -449,59 +1904,177 @@ export class EventsService {
             phone: true,
           },
         },
+        ticketType: {
+          columns: {
+            id: true,
+            name: true,
+          },
+        },
+        team: {
+          columns: {
+            id: true,
+            name: true,
+          },
+        },
       },
-      orderBy: [desc(eventRegistrations.createdAt)],
+      orderBy:
+        status === 'waitlisted'
+          ? [asc(eventRegistrations.waitlistPosition)]
+          : [desc(eventRegistrations.createdAt)],
     });
   }
 
   /**
-   * Check in a participant
+   * Build a participant export: a header row and one row per registration
+   * with the chosen columns, in the event's time zone
+   */
+  async exportParticipants(event: SelectEvent, query: ExportParticipantsQuery) {
+    const participants = await this.getEventParticipants(event.id, query.status);
+    const columns = query.columns ?? [...participantExportColumns];
+    const formFields = event.registrationForm ?? [];
+
+    // Sortable and recognized as a date by spreadsheets, e.g. 2026-10-19 14:30
+    const formatDate = new Intl.DateTimeFormat('sv-SE', {
+      dateStyle: 'short',
+      timeStyle: 'short',
+      timeZone: config.calendar.timeZone,
+    });
+    const date = (value: Date | null) => (value ? formatDate.format(value) : null);
+
+    const header = columns.flatMap((column) =>
+      column === 'answers' ? formFields.map((field) => field.label) : [PARTICIPANT_EXPORT_HEADERS[column]]
+    );
+
+    const rows = participants.map((participant) =>
+      columns.flatMap((column): (string | number | null)[] => {
+        switch (column) {
+          case 'name':
+            return [participant.user ? `${participant.user.firstName} ${participant.user.lastName}` : participant.guestName];
+          case 'email':
+            return [participant.user?.email ?? participant.guestEmail];
+          case 'phone':
+            return [participant.user?.phone ?? null];
+          case 'guest':
+            return [participant.userId ? 'No' : 'Yes'];
+          case 'status':
+            return [participant.status];
+          case 'ticketNumber':
+            return [participant.ticketNumber];
+          case 'ticketType':
+            return [participant.ticketType?.name ?? null];
+          case 'team':
+            return [participant.team?.name ?? null];
+          case 'registeredAt':
+            return [date(participant.createdAt)];
+          case 'checkedInAt':
+            return [date(participant.checkedInAt)];
+          case 'checkedOutAt':
+            return [date(participant.checkedOutAt)];
+          case 'attendanceHours':
+            return [participant.checkedInAt ? Number((participant.attendanceSeconds / 3600).toFixed(2)) : null];
+          case 'answers':
+            return formFields.map((field) => formatAnswer(participant.answers?.[field.key]));
+        }
+      })
+    );
+
+    return { header, rows };
+  }
+
+  /**
+   * Check in a participant, or let a checked-out participant back in
    */
   async checkInParticipant(
     eventId: string,
     checkInBy: string,
     ticketNumber?: string,
-    qrCode?: string
+    qrCode?: string,
+    ticketTypeId?: string
   ) {
-    const conditions = [eq(eventRegistrations.eventId, eventId)];
+    const registration = await checkInService.findTicket(eventId, ticketNumber, qrCode);
 
-    if (ticketNumber) {
-      conditions.push(eq(eventRegistrations.ticketNumber, ticketNumber));
-    } else if (qrCode) {
-      conditions.push(eq(eventRegistrations.qrCode, qrCode));
+    // Checked-out participants may come back in; their first check-in time is kept
+    if (registration.checkedInAt && !registration.checkedOutAt) {
+      throw new Error('Participant already checked in');
     }
 
-    const [registration] = await db
-      .select()
-      .from(eventRegistrations)
-      .where(and(...conditions))
-      .limit(1);
+    const ticketType = registration.ticketTypeId
+      ? await ticketsService.getTicketTypeById(eventId, registration.ticketTypeId)
+      : null;
+
+    if (ticketTypeId && ticketType?.id !== ticketTypeId) {
+      throw new Error(ticketType ? `This is a "${ticketType.name}" ticket` : 'This ticket has no ticket type');
+    }
+
+    const now = new Date();
+
+    if (!registration.checkedInAt) {
+      await db
+        .update(eventRegistrations)
+        .set({
+          status: 'attended',
+          checkedInAt: now,
+          checkedInBy: checkInBy,
+          updatedAt: now,
+        })
+        .where(eq(eventRegistrations.id, registration.id));
+    }
+
+    const [updated] = await checkInService.recordAttendance(eventId, [
+      { eventId, registrationId: registration.id, type: 'check_in', scannedAt: now, scannedBy: checkInBy },
+    ]);
+
+    log.info(
+      `Participant ${registration.userId ?? registration.guestEmail} ${registration.checkedInAt ? 're-entered' : 'checked in for'} event ${eventId}`
+    );
+    return {
+      ...updated,
+      ticketType: ticketType && { id: ticketType.id, name: ticketType.name },
+    };
+  }
+
+  /**
+   * Issue a new ticket number and QR code for a confirmed registration,
+   * revoking the previous ones (e.g. when a ticket was shared or leaked)
+   */
+  async reissueTicket(eventId: string, registrationId: string) {
+    const registration = await db.query.eventRegistrations.findFirst({
+      where: and(eq(eventRegistrations.id, registrationId), eq(eventRegistrations.eventId, eventId)),
+    });
 
     if (!registration) {
       throw new Error('Registration not found');
     }
 
     if (registration.status !== 'confirmed') {
-      throw new Error('Registration is not confirmed');
+      throw new Error('Only confirmed registrations have a ticket to reissue');
     }
 
-    if (registration.checkedInAt) {
-      throw new Error('Participant already checked in');
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
     }
 
-    const [updated] = await db
+    const ticketNumber = generateTicketNumber();
+    const qrCode = await signTicket({ registrationId, eventId, ticketNumber });
+
+    const [reissued] = await db
       .update(eventRegistrations)
-      .set({
-        status: 'attended',
-        checkedInAt: new Date(),
-        checkedInBy: checkInBy,
-        updatedAt: new Date(),
-      })
-      .where(eq(eventRegistrations.id, registration.id))
+      .set({ ticketNumber, qrCode, updatedAt: new Date() })
+      .where(eq(eventRegistrations.id, registrationId))
       .returning();
 
-    log.info(`Participant ${registration.userId} checked in for event ${eventId}`);
-    return updated;
+    if (reissued.userId) {
+      await notificationsService.sendTicketReissued(reissued.userId, eventId, event.title, ticketNumber);
+    } else {
+      await guestsService.sendTicket(reissued, event);
+    }
+
+    log.info(`Ticket reissued for registration ${registrationId} of event ${eventId}`);
+    return reissued;
   }
 
   /**
@@ -559,38 +2132,31 @@ export class EventsService {
    * Get event statistics (for organizers/admins)
    */
   async getEventStats(eventId: string) {
+    // Under a minimum-attendance rule, check-ins that left too early don't count as attended
+    const { minAttendancePercent, requiredSeconds } = await checkInService.getAttendanceRule(eventId);
+    const attendedFilter = requiredSeconds === null
+      ? sql`${eventRegistrations.status} = 'attended'`
+      : sql`${eventRegistrations.status} = 'attended' AND ${eventRegistrations.attendanceSeconds} >= ${requiredSeconds}`;
+
     const [stats] = await db
       .select({
         totalRegistrations: count(),
+        pending: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'pending')`,
         confirmed: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'confirmed')`,
-        attended: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'attended')`,
+        checkedIn: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'attended')`,
+        attended: sql<number>`COUNT(*) FILTER (WHERE ${attendedFilter})`,
         cancelled: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'cancelled')`,
+        waitlisted: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'waitlisted')`,
+        noShows: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'no_show')`,
+        rejected: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'rejected')`,
       })
       .from(eventRegistrations)
       .where(eq(eventRegistrations.eventId, eventId));
 
-    return stats;
-  }
+    // Empty for events without ticket types
+    const ticketTypeStats = await ticketsService.getTicketTypeStats(eventId, requiredSeconds);
 
-  /**
-   * Get pending events for approval (admin)
-   */
-  async getPendingEvents() {
-    return db.query.events.findMany({
-      where: eq(events.status, 'pending'),
-      with: {
-        organizer: {
-          columns: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-        faculty: true,
-      },
-      orderBy: [asc(events.createdAt)],
-    });
+    return { ...stats, minAttendancePercent, requiredAttendanceSeconds: requiredSeconds, ticketTypes: ticketTypeStats };
   }
 
   /**
@@ -13,6 +13,11 @@ export const createFacultySchema = z.object({
   description: z.string().optional(),
   website: z.string().url('Invalid URL').max(255).optional(),
   contactEmail: z.string().email('Invalid email').max(255).optional(),
+  approvalStages: z
+    .array(z.enum(['department', 'faculty', 'central']))
+    .max(3)
+    .refine((stages) => new Set(stages).size === stages.length, 'Approval stages must be unique')
+    .optional(),
 });
 
 // Update faculty schema
@@ -1,6 +1,8 @@
 import { eq, and, avg, count, desc } from 'drizzle-orm';
 import { db, eventFeedback, eventRegistrations, events } from '../../db';
+import { config } from '../../config';
 import { log } from '../../middleware/logger';
+import { checkInService } from '../checkin/checkin.service';
 import { parsePagination } from '../../utils/pagination';
 import type { CreateFeedbackInput, UpdateFeedbackInput, QueryFeedbackInput } from './feedback.schema';
 
@@ -22,6 +24,33 @@ export class FeedbackService {
       throw new Error('You can only provide feedback for events you have attended');
     }
 
+    const { requiredSeconds } = await checkInService.getAttendanceRule(input.eventId);
+
+    if (requiredSeconds !== null && registration.attendanceSeconds < requiredSeconds) {
+      throw new Error('You did not attend enough of the event to give feedback');
+    }
+
+    // Feedback is accepted from the end of the event until the window closes
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, input.eventId),
+      columns: { endDate: true },
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    const now = new Date();
+    const windowCloses = new Date(event.endDate.getTime() + config.feedback.windowDays * 24 * 60 * 60 * 1000);
+
+    if (now < event.endDate) {
+      throw new Error('Feedback opens after the event ends');
+    }
+
+    if (now > windowCloses) {
+      throw new Error('The feedback window for this event has closed');
+    }
+
     // Check if user already provided feedback
     const existingFeedback = await db.query.eventFeedback.findFirst({
       where: and(
@@ -44,19 +44,18 @@ filesController.get('/my', auth(), requireOrganizer(), async (c) => {
 
 /**
  * POST /files
- * Upload a new material (organizer only)
+ * Upload a new material (event organizer, co-organizer or admin)
  */
 filesController.post(
   '/',
   auth(),
-  requireOrganizer(),
   zValidator('json', createMaterialSchema),
   async (c) => {
     try {
       const user = c.get('user') as AuthUser;
       const input = c.req.valid('json');
       
-      const material = await filesService.createMaterial(user.id, input);
+      const material = await filesService.createMaterial(user, input);
       return success(c, material, 201);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to upload material';
@@ -134,12 +133,7 @@ filesController.patch(
       const user = c.get('user') as AuthUser;
       const input = c.req.valid('json');
       
-      const updated = await filesService.updateMaterial(
-        id,
-        user.id,
-        input,
-        user.role === 'admin'
-      );
+      const updated = await filesService.updateMaterial(id, user, input);
       
       return success(c, updated);
     } catch (err) {
@@ -158,7 +152,7 @@ filesController.delete('/:id', auth(), async (c) => {
     const { id } = c.req.param();
     const user = c.get('user') as AuthUser;
     
-    await filesService.deleteMaterial(id, user.id, user.role === 'admin');
+    await filesService.deleteMaterial(id, user);
     
     return successMessage(c, 'Material deleted successfully');
   } catch (err) {
@@ -1,26 +1,30 @@
 import { eq, and, desc, count, sql } from 'drizzle-orm';
 import { db, eventMaterials, events } from '../../db';
 import { log } from '../../middleware/logger';
+import { hasEventPermission } from '../../middleware/rbac';
 import { parsePagination } from '../../utils/pagination';
 import type { CreateMaterialInput, UpdateMaterialInput, QueryMaterialsInput } from './files.schema';
+import type { AuthUser } from '../../types';
 
 export class FilesService {
   /**
    * Create an event material
    */
-  async createMaterial(uploadedBy: string, input: CreateMaterialInput) {
-    // Verify event exists and user is the organizer
+  async createMaterial(uploader: AuthUser, input: CreateMaterialInput) {
+    const uploadedBy = uploader.id;
+
+    // Verify event exists and user is the organizer or a co-organizer
     const event = await db.query.events.findFirst({
       where: eq(events.id, input.eventId),
-      columns: { organizerId: true },
+      columns: { id: true, organizerId: true },
     });
 
     if (!event) {
       throw new Error('Event not found');
     }
 
-    if (event.organizerId !== uploadedBy) {
-      throw new Error('Only the event organizer can upload materials');
+    if (!(await hasEventPermission(uploader, event, 'materials'))) {
+      throw new Error('Only the event organizers can upload materials');
     }
 
     const [material] = await db
@@ -88,7 +92,7 @@ export class FilesService {
   /**
    * Update material
    */
-  async updateMaterial(materialId: string, userId: string, input: UpdateMaterialInput, isAdmin = false) {
+  async updateMaterial(materialId: string, user: AuthUser, input: UpdateMaterialInput) {
     // Get material with event info
     const material = await this.getMaterialById(materialId);
 
@@ -96,7 +100,7 @@ export class FilesService {
       throw new Error('Material not found');
     }
 
-    if (!isAdmin && material.event?.organizerId !== userId) {
+    if (!material.event || !(await hasEventPermission(user, material.event, 'materials'))) {
       throw new Error('You do not have permission to update this material');
     }
 
@@ -113,14 +117,14 @@ export class FilesService {
   /**
    * Delete material
    */
-  async deleteMaterial(materialId: string, userId: string, isAdmin = false) {
+  async deleteMaterial(materialId: string, user: AuthUser) {
     const material = await this.getMaterialById(materialId);
 
     if (!material) {
       throw new Error('Material not found');
     }
 
-    if (!isAdmin && material.event?.organizerId !== userId) {
+    if (!material.event || !(await hasEventPermission(user, material.event, 'materials'))) {
       throw new Error('You do not have permission to delete this material');
     }
 
@@ -0,0 +1,64 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { guestsService } from './guests.service';
+import { guestRegistrationSchema, confirmGuestRegistrationSchema } from './guests.schema';
+import { rateLimit, consumeRateLimit } from '../../middleware/rateLimit';
+import { config } from '../../config';
+import { success, error } from '../../utils/response';
+import type { Env } from '../../types/hono';
+
+const { registrationLimit } = config.guests;
+
+// Mounted under /events, next to the events controller
+const guestsController = new Hono<Env>();
+
+/**
+ * POST /events/:id/guest-registrations
+ * Register as a guest with name and email; a confirmation link is emailed (public, rate limited)
+ */
+guestsController.post(
+  '/:id/guest-registrations',
+  rateLimit({ scope: 'guest-registration', max: registrationLimit.perIp, windowMs: registrationLimit.windowMs }),
+  zValidator('json', guestRegistrationSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const input = c.req.valid('json');
+
+      const emailKey = `guest-registration:email:${input.email.toLowerCase()}`;
+
+      if (!(await consumeRateLimit(emailKey, registrationLimit.perEmail, registrationLimit.windowMs))) {
+        return error(c, 'Too many registration attempts for this email, please try again later', 429);
+      }
+
+      const result = await guestsService.registerGuest(id, input);
+      return success(c, result, 202);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to register guest';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /events/:id/guest-registrations/confirm
+ * Confirm a guest registration with the emailed token and get the ticket (public)
+ */
+guestsController.post(
+  '/:id/guest-registrations/confirm',
+  zValidator('json', confirmGuestRegistrationSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const { token } = c.req.valid('json');
+
+      const registration = await guestsService.confirmGuest(id, token);
+      return success(c, registration);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to confirm registration';
+      return error(c, message, 400);
+    }
+  }
+);
+
+export { guestsController };
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+// Guest registration schema (no account needed)
+export const guestRegistrationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Name must be at least 2 characters')
+    .max(200, 'Name must be at most 200 characters'),
+  email: z.string().email('Invalid email address').max(255),
+  notes: z.string().max(500).optional(),
+  ticketTypeId: z.string().uuid('Invalid ticket type ID').optional(),
+  answers: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Guest confirmation schema (token from the emailed link)
+export const confirmGuestRegistrationSchema = z.object({
+  token: z.string().min(1, 'Token is required').max(100),
+});
+
+// Types
+export type GuestRegistrationInput = z.infer<typeof guestRegistrationSchema>;
+export type ConfirmGuestRegistrationInput = z.infer<typeof confirmGuestRegistrationSchema>;
@@ -0,0 +1,366 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { eq, and, sql } from 'drizzle-orm';
+import { db, events, users, eventRegistrations } from '../../db';
+import { config } from '../../config';
+import { log } from '../../middleware/logger';
+import { ticketsService } from '../tickets/tickets.service';
+import { sendEmail } from '../../utils/mailer';
+import { validateRegistrationAnswers } from '../../utils/registration-form';
+import { generateTicketNumber } from '../../utils/slug';
+import { signTicket } from '../../utils/ticket-signing';
+import { isUniqueViolation } from '../../utils/db-errors';
+import type { GuestRegistrationInput } from './guests.schema';
+import type { SelectEvent } from '../../types';
+
+type Registration = typeof eventRegistrations.$inferSelect;
+
+// One active guest registration per email and event
+const GUEST_EMAIL_INDEX = 'event_registrations_guest_email_idx';
+
+interface GuestTicket {
+  guestEmail: string | null;
+  guestName: string | null;
+  ticketNumber: string | null;
+}
+
+/**
+ * Only the hash of a magic link token is stored
+ */
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Link the guest opens to confirm and, later, to see their ticket
+ */
+function buildConfirmationLink(eventId: string, token: string) {
+  return `${config.frontend.url}/events/${eventId}/guest-confirmation?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * What a guest sees of their registration; the token hash and check-in
+ * details stay on the server
+ */
+function toGuestRegistration(registration: Registration) {
+  return {
+    id: registration.id,
+    eventId: registration.eventId,
+    status: registration.status,
+    ticketTypeId: registration.ticketTypeId,
+    ticketNumber: registration.ticketNumber,
+    qrCode: registration.qrCode,
+    guestName: registration.guestName,
+    guestEmail: registration.guestEmail,
+    guestConfirmedAt: registration.guestConfirmedAt,
+    createdAt: registration.createdAt,
+  };
+}
+
+export class GuestsService {
+  /**
+   * Start a guest registration: store it as pending and email a magic link.
+   * Registering again before confirming replaces the previous link.
+   */
+  async registerGuest(eventId: string, input: GuestRegistrationInput) {
+    const email = input.email.toLowerCase();
+
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    if (!event.allowGuests) {
+      throw new Error('This event does not accept guest registrations');
+    }
+
+    // Team members register with an account, through their team
+    if (event.maxTeamSize) {
+      throw new Error('This event takes team registrations; sign in to create or join a team');
+    }
+
+    if (event.status === 'cancelled') {
+      throw new Error('This event has been cancelled');
+    }
+
+    if (event.status !== 'approved') {
+      throw new Error('Event is not open for registration');
+    }
+
+    if (event.registrationDeadline && new Date() > event.registrationDeadline) {
+      throw new Error('Registration deadline has passed');
+    }
+
+    const account = await db.query.users.findFirst({
+      where: eq(users.email, email),
+      columns: { id: true },
+    });
+
+    if (account) {
+      throw new Error('An account already uses this email; sign in to register');
+    }
+
+    // An active registration takes precedence over cancelled ones
+    const existing = await db.query.eventRegistrations.findFirst({
+      where: and(eq(eventRegistrations.eventId, eventId), eq(eventRegistrations.guestEmail, email)),
+      orderBy: [sql`${eventRegistrations.status} = 'cancelled'`],
+    });
+
+    if (existing?.status === 'rejected') {
+      throw new Error('The registration for this email was not approved');
+    }
+
+    // Cancelled registrations start over; guests awaiting the organizer's approval have already confirmed their email
+    if (
+      existing &&
+      existing.status !== 'cancelled' &&
+      (existing.status !== 'pending' || existing.guestConfirmedAt)
+    ) {
+      throw new Error('This email is already registered for this event');
+    }
+
+    const answers = validateRegistrationAnswers(event.registrationForm ?? [], input.answers);
+    const ticketType = await ticketsService.resolveForRegistration(
+      eventId,
+      { role: null, facultyId: null, email },
+      input.ticketTypeId
+    );
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + config.guests.confirmationHours * 60 * 60 * 1000);
+
+    const values = {
+      status: 'pending' as const,
+      ticketTypeId: ticketType?.id ?? null,
+      notes: input.notes,
+      answers,
+      guestName: input.name,
+      guestEmail: email,
+      guestTokenHash: hashToken(token),
+      guestTokenExpiresAt: expiresAt,
+      guestConfirmedAt: null,
+    };
+
+    // A cancelled registration starts over without its old ticket, review or check-in
+    const save = existing
+      ? db
+          .update(eventRegistrations)
+          .set({
+            ...values,
+            ticketNumber: null,
+            qrCode: null,
+            checkedInAt: null,
+            checkedInBy: null,
+            checkInDeviceId: null,
+            checkedOutAt: null,
+            attendanceSeconds: 0,
+            registeredAt: new Date(),
+            reviewedAt: null,
+            reviewedBy: null,
+            reviewMessage: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(eventRegistrations.id, existing.id))
+          .returning()
+      : db
+          .insert(eventRegistrations)
+          .values({ ...values, eventId })
+          .returning();
+
+    // The same email registering twice at once is caught by the index
+    const [registration] = await save.catch((err: unknown) => {
+      throw isUniqueViolation(err, GUEST_EMAIL_INDEX)
+        ? new Error('This email is already registered for this event')
+        : err;
+    });
+
+    await sendEmail({
+      to: email,
+      subject: `Confirm your registration for ${event.title}`,
+      text: [
+        `Hello ${input.name},`,
+        '',
+        `Please confirm your registration for "${event.title}" within ${config.guests.confirmationHours} hours by opening this link:`,
+        buildConfirmationLink(eventId, token),
+        '',
+        'If you did not register, you can ignore this email.',
+      ].join('\n'),
+    });
+
+    log.info(`Guest registration ${registration.id} started for event ${eventId}`);
+    return { id: registration.id, email, expiresAt };
+  }
+
+  /**
+   * Confirm a guest registration from its magic link and issue the ticket.
+   * On events that require approval the registration stays pending for the
+   * organizer instead. Opening the link again returns the registration.
+   */
+  async confirmGuest(eventId: string, token: string) {
+    const registration = await db.query.eventRegistrations.findFirst({
+      where: and(
+        eq(eventRegistrations.eventId, eventId),
+        eq(eventRegistrations.guestTokenHash, hashToken(token))
+      ),
+    });
+
+    if (!registration) {
+      throw new Error('Invalid or expired confirmation link');
+    }
+
+    if (
+      registration.status === 'confirmed' ||
+      registration.status === 'attended' ||
+      (registration.status === 'pending' && registration.guestConfirmedAt)
+    ) {
+      return toGuestRegistration(registration);
+    }
+
+    if (registration.status !== 'pending') {
+      throw new Error('This registration is no longer active');
+    }
+
+    if (!registration.guestTokenExpiresAt || new Date() > registration.guestTokenExpiresAt) {
+      throw new Error('Invalid or expired confirmation link');
+    }
+
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+    });
+
+    if (!event || event.status !== 'approved') {
+      throw new Error('Event is not open for registration');
+    }
+
+    if (event.maxTeamSize) {
+      throw new Error('This event takes team registrations; sign in to create or join a team');
+    }
+
+    if (event.requiresApproval) {
+      const [awaiting] = await db
+        .update(eventRegistrations)
+        .set({ guestConfirmedAt: new Date(), updatedAt: new Date() })
+        .where(eq(eventRegistrations.id, registration.id))
+        .returning();
+
+      await sendEmail({
+        to: registration.guestEmail!,
+        subject: `Registration received for ${event.title}`,
+        text: [
+          `Hello ${registration.guestName},`,
+          '',
+          `Thank you for confirming your email. Registrations for "${event.title}" are reviewed by the organizers; you will receive your ticket by email once yours is approved.`,
+        ].join('\n'),
+      });
+
+      log.info(`Guest registration ${registration.id} confirmed and awaiting approval for event ${eventId}`);
+      return toGuestRegistration(awaiting);
+    }
+
+    // Guests are not waitlisted; the spot is only taken once they confirm
+    if (event.maxParticipants && event.currentParticipants >= event.maxParticipants) {
+      throw new Error('Event is full');
+    }
+
+    if (registration.ticketTypeId) {
+      const ticketType = await ticketsService.getTicketTypeById(eventId, registration.ticketTypeId);
+
+      if (ticketType && ticketType.currentParticipants >= ticketType.quota) {
+        throw new Error(`"${ticketType.name}" tickets are sold out`);
+      }
+    }
+
+    const ticketNumber = generateTicketNumber();
+    const qrCode = await signTicket({ registrationId: registration.id, eventId, ticketNumber });
+
+    const [confirmed] = await db
+      .update(eventRegistrations)
+      .set({
+        status: 'confirmed',
+        ticketNumber,
+        qrCode,
+        guestConfirmedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(eventRegistrations.id, registration.id))
+      .returning();
+
+    await db
+      .update(events)
+      .set({
+        currentParticipants: sql`${events.currentParticipants} + 1`,
+      })
+      .where(eq(events.id, eventId));
+
+    if (registration.ticketTypeId) {
+      await ticketsService.adjustParticipants(registration.ticketTypeId, 1);
+    }
+
+    await this.sendTicket(confirmed, event);
+
+    log.info(`Guest registration ${registration.id} confirmed for event ${eventId}`);
+    return toGuestRegistration(confirmed);
+  }
+
+  /**
+   * Email a guest their ticket, with the organizer's message when approved by hand
+   */
+  async sendTicket(registration: GuestTicket, event: SelectEvent, note?: string) {
+    await sendEmail({
+      to: registration.guestEmail!,
+      subject: `Your ticket for ${event.title}`,
+      text: [
+        `Hello ${registration.guestName},`,
+        '',
+        `Your registration for "${event.title}" is confirmed.`,
+        ...(note ? ['', `Message from the organizer: ${note}`, ''] : []),
+        `Ticket number: ${registration.ticketNumber}`,
+        `Starts: ${event.startDate.toISOString()}`,
+        `Location: ${event.isOnline ? event.onlineLink ?? event.location : event.location}`,
+        '',
+        'Open your ticket and QR code with the link from your confirmation email and show it at check-in.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Email a guest that the organizers did not approve their registration
+   */
+  async sendRejection(registration: GuestTicket, eventTitle: string, note?: string) {
+    await sendEmail({
+      to: registration.guestEmail!,
+      subject: `Your registration for ${eventTitle}`,
+      text: [
+        `Hello ${registration.guestName},`,
+        '',
+        `Unfortunately your registration for "${eventTitle}" was not approved.`,
+        ...(note ? ['', `Message from the organizer: ${note}`] : []),
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Email guests that an event they registered for was cancelled
+   */
+  async notifyEventCancelled(eventTitle: string, reason: string, emails: string[]) {
+    const results = await Promise.allSettled(
+      emails.map((email) =>
+        sendEmail({
+          to: email,
+          subject: `Cancelled: ${eventTitle}`,
+          text: `"${eventTitle}" has been cancelled and your registration is no longer valid.\n\nReason: ${reason}`,
+        })
+      )
+    );
+
+    const failed = results.filter((result) => result.status === 'rejected').length;
+
+    if (failed > 0) {
+      log.warn(`Failed to email ${failed} guest(s) about the cancellation of "${eventTitle}"`);
+    }
+  }
+}
+
+export const guestsService = new GuestsService();
@@ -0,0 +1,3 @@
+export { guestsController } from './guests.controller';
+export { guestsService } from './guests.service';
+export * from './guests.schema';
@@ -0,0 +1 @@
+export { jobsController } from './jobs.controller';
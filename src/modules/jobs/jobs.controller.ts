@@ -0,0 +1,24 @@
+import { Hono } from 'hono';
+import { eventsService } from '../events/events.service';
+import { cronAuth } from '../../middleware/auth';
+import { success, error } from '../../utils/response';
+import type { Env } from '../../types/hono';
+
+// Scheduled jobs, triggered by Vercel Cron (see vercel.json)
+const jobsController = new Hono<Env>();
+
+/**
+ * GET /jobs/complete-events
+ * Complete ended events, record no-shows and request feedback
+ */
+jobsController.get('/complete-events', cronAuth(), async (c) => {
+  try {
+    const result = await eventsService.completeEndedEvents();
+    return success(c, result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to complete events';
+    return error(c, message, 500);
+  }
+});
+
+export { jobsController };
@@ -3,7 +3,7 @@ import { db, notifications } from '../../db';
 import { log } from '../../middleware/logger';
 import { parsePagination } from '../../utils/pagination';
 import type { CreateNotificationInput, BulkNotificationInput, QueryNotificationsInput } from './notifications.schema';
-import type { NotificationType } from '../../types';
+import type { NotificationType, EventStaffRole } from '../../types';
 
 export class NotificationsService {
   /**
@@ -203,6 +203,21 @@ export class NotificationsService {
     });
   }
 
+  /**
+   * Notify registrants and favoriters that an event was cancelled
+   */
+  async notifyEventCancelled(eventId: string, eventTitle: string, reason: string, userIds: string[]) {
+    if (userIds.length === 0) return;
+
+    await this.createBulkNotifications({
+      userIds,
+      type: 'event_cancelled',
+      title: `Cancelled: ${eventTitle}`,
+      message: `"${eventTitle}" has been cancelled. Reason: ${reason}`,
+      data: { eventId, reason },
+    });
+  }
+
   /**
    * Send registration confirmation notification
    */
@@ -221,6 +236,101 @@ export class NotificationsService {
     });
   }
 
+  /**
+   * Send confirmation to a user promoted from the waitlist
+   */
+  async sendWaitlistPromotion(
+    userId: string,
+    eventId: string,
+    eventTitle: string,
+    ticketNumber: string
+  ) {
+    await this.createNotification({
+      userId,
+      type: 'registration_confirmed',
+      title: 'You Got a Spot',
+      message: `A spot opened up for "${eventTitle}" and you have been moved off the waitlist. Your ticket number is ${ticketNumber}.`,
+      data: { eventId, ticketNumber },
+    });
+  }
+
+  /**
+   * Notify a user their registration was approved and send the ticket number
+   */
+  async sendRegistrationApproved(
+    userId: string,
+    eventId: string,
+    eventTitle: string,
+    ticketNumber: string,
+    note?: string
+  ) {
+    await this.createNotification({
+      userId,
+      type: 'registration_confirmed',
+      title: 'Registration Approved',
+      message: `Your registration for "${eventTitle}" has been approved. Your ticket number is ${ticketNumber}.${note ? ` Message from the organizer: ${note}` : ''}`,
+      data: { eventId, ticketNumber },
+    });
+  }
+
+  /**
+   * Notify a user their registration was not approved
+   */
+  async sendRegistrationRejected(userId: string, eventId: string, eventTitle: string, note?: string) {
+    await this.createNotification({
+      userId,
+      type: 'event_update',
+      title: 'Registration Not Approved',
+      message: `Your registration for "${eventTitle}" was not approved.${note ? ` Message from the organizer: ${note}` : ''}`,
+      data: { eventId },
+    });
+  }
+
+  /**
+   * Notify a user their ticket was replaced and the old one no longer works
+   */
+  async sendTicketReissued(userId: string, eventId: string, eventTitle: string, ticketNumber: string) {
+    await this.createNotification({
+      userId,
+      type: 'event_update',
+      title: 'New Ticket Issued',
+      message: `Your ticket for "${eventTitle}" has been replaced. Your new ticket number is ${ticketNumber}; the previous ticket and QR code no longer work.`,
+      data: { eventId, ticketNumber },
+    });
+  }
+
+  /**
+   * Notify a user they were added to an event's staff
+   */
+  async sendStaffInvitation(userId: string, eventId: string, eventTitle: string, role: EventStaffRole) {
+    const roleLabels: Record<EventStaffRole, string> = {
+      co_organizer: 'co-organizer',
+      check_in_staff: 'check-in staff',
+      viewer: 'viewer',
+    };
+
+    await this.createNotification({
+      userId,
+      type: 'event_update',
+      title: 'Added to Event Staff',
+      message: `You have been added as ${roleLabels[role]} for "${eventTitle}".`,
+      data: { eventId, role },
+    });
+  }
+
+  /**
+   * Notify a user they were invited to join a team
+   */
+  async sendTeamInvitation(userId: string, eventId: string, eventTitle: string, teamId: string, teamName: string) {
+    await this.createNotification({
+      userId,
+      type: 'event_update',
+      title: 'Team Invitation',
+      message: `You have been invited to join team "${teamName}" for "${eventTitle}".`,
+      data: { eventId, teamId },
+    });
+  }
+
   /**
    * Send feedback request notification
    */
@@ -233,6 +343,19 @@ export class NotificationsService {
       data: { eventId },
     });
   }
+
+  /**
+   * Notify a user their certificate of attendance is ready
+   */
+  async sendCertificateAvailable(userId: string, eventId: string, eventTitle: string, code: string) {
+    await this.createNotification({
+      userId,
+      type: 'event_update',
+      title: 'Certificate Available',
+      message: `Your certificate of attendance for "${eventTitle}" is ready to download. Verification code: ${code}.`,
+      data: { eventId, code },
+    });
+  }
 }
 
 export const notificationsService = new NotificationsService();
@@ -0,0 +1,2 @@
+export { revisionsController } from './revisions.controller';
+export { revisionsService } from './revisions.service';
@@ -0,0 +1,86 @@
+import { Hono } from 'hono';
+import { revisionsService } from './revisions.service';
+import { eventsService } from '../events/events.service';
+import { VenueConflictError } from '../venues/venues.service';
+import { auth } from '../../middleware/auth';
+import { requireAdmin, requireEventPermission } from '../../middleware/rbac';
+import { success, error, notFound } from '../../utils/response';
+import type { AuthUser } from '../../types';
+import type { Env } from '../../types/hono';
+
+// Mounted under /events, next to the events controller
+const revisionsController = new Hono<Env>();
+
+/**
+ * GET /events/:id/revisions
+ * List event revisions (organizer, co-organizer or admin)
+ */
+revisionsController.get('/:id/revisions', auth(), requireEventPermission('update'), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const revisions = await revisionsService.listRevisions(id);
+    return success(c, revisions);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to list revisions';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /events/:id/revisions/:revisionId
+ * Get a revision with its field-level diff (organizer, co-organizer or admin)
+ */
+revisionsController.get(
+  '/:id/revisions/:revisionId',
+  auth(),
+  requireEventPermission('update'),
+  async (c) => {
+    try {
+      const { id, revisionId } = c.req.param();
+      const revision = await revisionsService.getRevision(id, revisionId);
+
+      if (!revision) {
+        return notFound(c, 'Revision not found');
+      }
+
+      return success(c, revision);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to get revision';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /events/:id/revisions/:revisionId/restore
+ * Restore the event to the state right after a revision (admin only)
+ */
+revisionsController.post(
+  '/:id/revisions/:revisionId/restore',
+  auth(),
+  requireAdmin(),
+  async (c) => {
+    try {
+      const { id, revisionId } = c.req.param();
+      const user = c.get('user') as AuthUser;
+
+      const event = await eventsService.getEventById(id);
+
+      if (!event) {
+        return notFound(c, 'Event not found');
+      }
+
+      const input = await revisionsService.getRestoreInput(id, revisionId);
+      const restored = await eventsService.updateEvent(id, input, user.id, 'event.restored');
+      return success(c, restored);
+    } catch (err) {
+      if (err instanceof VenueConflictError) {
+        return error(c, err.message, 409);
+      }
+      const message = err instanceof Error ? err.message : 'Failed to restore revision';
+      return error(c, message, 400);
+    }
+  }
+);
+
+export { revisionsController };
@@ -0,0 +1,223 @@
+import { eq, and, desc, gt } from 'drizzle-orm';
+import { db, auditLogs } from '../../db';
+import type { UpdateEventInput } from '../events/events.schema';
+import type { SelectEvent } from '../../types';
+
+// Fields organizers edit; these are the ones a revision can restore
+const restorableFields = [
+  'title',
+  'description',
+  'shortDescription',
+  'type',
+  'facultyId',
+  'departmentId',
+  'startDate',
+  'endDate',
+  'registrationDeadline',
+  'venueId',
+  'location',
+  'address',
+  'isOnline',
+  'onlineLink',
+  'maxParticipants',
+  'coverImage',
+  'images',
+  'tags',
+  'requirements',
+  'targetAudience',
+  'registrationForm',
+  'allowGuests',
+  'requiresApproval',
+  'minTeamSize',
+  'maxTeamSize',
+  'minAttendancePercent',
+  'certificateTemplate',
+] as const;
+
+// Workflow fields are recorded for context but never restored
+const trackedFields = [...restorableFields, 'status', 'rejectionReason', 'cancellationReason'] as const;
+
+type TrackedField = (typeof trackedFields)[number];
+type FieldValues = Partial<Record<TrackedField, unknown>>;
+
+export type RevisionAction = 'event.updated' | 'event.reviewed' | 'event.cancelled' | 'event.restored';
+
+export interface RecordRevisionInput {
+  eventId: string;
+  actorId?: string | null;
+  action: RevisionAction;
+  before: SelectEvent;
+  after: SelectEvent;
+}
+
+/**
+ * Normalize a column value the way it is stored in jsonb
+ */
+function toJsonValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+export class RevisionsService {
+  /**
+   * Compute the before/after values of the fields that differ
+   */
+  diffEvent(before: SelectEvent, after: SelectEvent) {
+    const oldData: FieldValues = {};
+    const newData: FieldValues = {};
+
+    for (const field of trackedFields) {
+      const oldValue = toJsonValue(before[field]);
+      const newValue = toJsonValue(after[field]);
+
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        oldData[field] = oldValue;
+        newData[field] = newValue;
+      }
+    }
+
+    return { oldData, newData };
+  }
+
+  /**
+   * Store a revision of an event. Updates that change no tracked field are skipped.
+   */
+  async recordRevision(input: RecordRevisionInput) {
+    const { oldData, newData } = this.diffEvent(input.before, input.after);
+
+    if (Object.keys(newData).length === 0) {
+      return null;
+    }
+
+    const [revision] = await db
+      .insert(auditLogs)
+      .values({
+        userId: input.actorId ?? null,
+        action: input.action,
+        entityType: 'event',
+        entityId: input.eventId,
+        oldData,
+        newData,
+      })
+      .returning();
+
+    return revision;
+  }
+
+  /**
+   * List an event's revisions, newest first
+   */
+  async listRevisions(eventId: string) {
+    const revisions = await db.query.auditLogs.findMany({
+      where: and(eq(auditLogs.entityType, 'event'), eq(auditLogs.entityId, eventId)),
+      orderBy: [desc(auditLogs.createdAt)],
+      with: {
+        user: {
+          columns: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    return revisions.map((revision) => ({
+      id: revision.id,
+      action: revision.action,
+      actor: revision.user,
+      changedFields: Object.keys((revision.newData as FieldValues | null) ?? {}),
+      createdAt: revision.createdAt,
+    }));
+  }
+
+  /**
+   * Get a revision with its field-level diff
+   */
+  async getRevision(eventId: string, revisionId: string) {
+    const revision = await db.query.auditLogs.findFirst({
+      where: and(
+        eq(auditLogs.id, revisionId),
+        eq(auditLogs.entityType, 'event'),
+        eq(auditLogs.entityId, eventId)
+      ),
+      with: {
+        user: {
+          columns: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    if (!revision) {
+      return null;
+    }
+
+    const oldData = (revision.oldData as FieldValues | null) ?? {};
+    const newData = (revision.newData as FieldValues | null) ?? {};
+
+    return {
+      id: revision.id,
+      action: revision.action,
+      actor: revision.user,
+      createdAt: revision.createdAt,
+      changes: (Object.keys(newData) as TrackedField[]).map((field) => ({
+        field,
+        before: oldData[field] ?? null,
+        after: newData[field] ?? null,
+      })),
+    };
+  }
+
+  /**
+   * Build the update that brings an event back to its state right after the
+   * given revision: every later change is undone, oldest value winning.
+   */
+  async getRestoreInput(eventId: string, revisionId: string): Promise<UpdateEventInput> {
+    const revision = await db.query.auditLogs.findFirst({
+      where: and(
+        eq(auditLogs.id, revisionId),
+        eq(auditLogs.entityType, 'event'),
+        eq(auditLogs.entityId, eventId)
+      ),
+      columns: { createdAt: true },
+    });
+
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+
+    const laterRevisions = await db.query.auditLogs.findMany({
+      where: and(
+        eq(auditLogs.entityType, 'event'),
+        eq(auditLogs.entityId, eventId),
+        gt(auditLogs.createdAt, revision.createdAt)
+      ),
+      orderBy: [desc(auditLogs.createdAt)],
+      columns: { oldData: true },
+    });
+
+    const restored: Record<string, unknown> = {};
+
+    for (const later of laterRevisions) {
+      const oldData = (later.oldData as FieldValues | null) ?? {};
+
+      for (const field of restorableFields) {
+        if (field in oldData) {
+          restored[field] = oldData[field];
+        }
+      }
+    }
+
+    if (Object.keys(restored).length === 0) {
+      throw new Error('The event already matches this revision');
+    }
+
+    return restored as UpdateEventInput;
+  }
+}
+
+export const revisionsService = new RevisionsService();
@@ -0,0 +1,3 @@
+export { seriesController } from './series.controller';
+export { seriesService } from './series.service';
+export * from './series.schema';
@@ -0,0 +1,174 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { seriesService } from './series.service';
+import { createSeriesSchema, updateSeriesSchema, registerForSeriesSchema } from './series.schema';
+import { VenueConflictError } from '../venues/venues.service';
+import { auth, optionalAuth } from '../../middleware/auth';
+import { requireOrganizer } from '../../middleware/rbac';
+import { success, error, notFound, forbidden } from '../../utils/response';
+import type { AuthUser } from '../../types';
+import type { Env } from '../../types/hono';
+
+const seriesController = new Hono<Env>();
+
+/**
+ * POST /series
+ * Create a recurring event series (organizer only)
+ */
+seriesController.post(
+  '/',
+  auth(),
+  requireOrganizer(),
+  zValidator('json', createSeriesSchema),
+  async (c) => {
+    try {
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+      const series = await seriesService.createSeries(user.id, input);
+      return success(c, series, 201);
+    } catch (err) {
+      if (err instanceof VenueConflictError) {
+        return error(c, err.message, 409);
+      }
+      const message = err instanceof Error ? err.message : 'Failed to create series';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * GET /series/:id
+ * Get series with its occurrences
+ */
+seriesController.get('/:id', optionalAuth(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser | undefined;
+
+    const series = await seriesService.getSeriesById(id);
+
+    if (!series) {
+      return notFound(c, 'Series not found');
+    }
+
+    // Organizer and admin also see draft, pending and rejected occurrences
+    if (user && (user.id === series.organizerId || user.role === 'admin')) {
+      return success(c, await seriesService.getSeriesById(id, true));
+    }
+
+    return success(c, series);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get series';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * PATCH /series/:id
+ * Update series settings (organizer/owner or admin)
+ */
+seriesController.patch(
+  '/:id',
+  auth(),
+  zValidator('json', updateSeriesSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+
+      const series = await seriesService.getSeriesById(id);
+
+      if (!series) {
+        return notFound(c, 'Series not found');
+      }
+
+      if (series.organizerId !== user.id && user.role !== 'admin') {
+        return forbidden(c, 'You do not have permission to update this series');
+      }
+
+      const updated = await seriesService.updateSeries(id, input);
+      return success(c, updated);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update series';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /series/:id/submit
+ * Submit all draft occurrences for approval
+ */
+seriesController.post('/:id/submit', auth(), requireOrganizer(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const series = await seriesService.getSeriesById(id);
+
+    if (!series) {
+      return notFound(c, 'Series not found');
+    }
+
+    if (series.organizerId !== user.id) {
+      return forbidden(c, 'You do not have permission to submit this series');
+    }
+
+    const submitted = await seriesService.submitForApproval(id);
+
+    if (submitted.length === 0) {
+      return error(c, 'The series has no draft occurrences to submit', 400);
+    }
+
+    return success(c, submitted);
+  } catch (err) {
+    if (err instanceof VenueConflictError) {
+      return error(c, err.message, 409);
+    }
+    const message = err instanceof Error ? err.message : 'Failed to submit series';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /series/:id/register
+ * Register for all upcoming occurrences of a series
+ */
+seriesController.post(
+  '/:id/register',
+  auth(),
+  zValidator('json', registerForSeriesSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+
+      const result = await seriesService.registerForSeries(id, user.id, input);
+      return success(c, result, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to register for series';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * DELETE /series/:id/register
+ * Cancel registrations for all upcoming occurrences of a series
+ */
+seriesController.delete('/:id/register', auth(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const result = await seriesService.cancelSeriesRegistration(id, user.id);
+    return success(c, result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to cancel series registration';
+    return error(c, message, 400);
+  }
+});
+
+export { seriesController };
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import {
+  eventFieldsSchema,
+  validateEventDates,
+  validateCoordinates,
+  validateTeamSize,
+  registerForEventSchema,
+} from '../events/events.schema';
+
+// Weekday enum (iCalendar BYDAY values)
+const weekdayEnum = z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']);
+
+// Registration mode enum
+const registrationModeEnum = z.enum(['occurrence', 'series']);
+
+// Recurrence rule schema
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['weekly', 'monthly']),
+  interval: z.number().int().min(1).max(12).default(1),
+  byWeekday: z.array(weekdayEnum).min(1).optional(),
+  byMonthDay: z.number().int().min(1).max(31).optional(),
+  bySetPos: z.number().int().min(-1).max(5).refine((value) => value !== 0, {
+    message: 'Set position cannot be 0',
+  }).optional(),
+  until: z.string().datetime({ message: 'Invalid until date' }).optional(),
+  count: z.number().int().min(1).optional(),
+  exceptions: z.array(z.string().date('Exceptions must be dates (YYYY-MM-DD)')).optional(),
+}).refine(
+  (data) => Boolean(data.until) !== Boolean(data.count),
+  {
+    message: 'Either an until date or an occurrence count is required, but not both',
+    path: ['until'],
+  }
+).refine(
+  (data) => !data.bySetPos || (data.frequency === 'monthly' && data.byWeekday),
+  {
+    message: 'Set position requires a monthly rule with weekdays',
+    path: ['bySetPos'],
+  }
+).refine(
+  (data) => !(data.byMonthDay && data.byWeekday),
+  {
+    message: 'Use either a day of the month or weekdays, not both',
+    path: ['byMonthDay'],
+  }
+);
+
+// Create series schema (first occurrence dates + recurrence rule)
+export const createSeriesSchema = eventFieldsSchema
+  .extend({
+    recurrence: recurrenceSchema,
+    registrationMode: registrationModeEnum.default('occurrence'),
+  })
+  .superRefine((data, ctx) => {
+    validateEventDates(data, ctx);
+    validateCoordinates(data, ctx);
+    validateTeamSize(data, ctx);
+  });
+
+// Update series settings schema
+export const updateSeriesSchema = z.object({
+  registrationMode: registrationModeEnum,
+});
+
+// Register for series schema (ticket types belong to single occurrences)
+export const registerForSeriesSchema = registerForEventSchema.omit({ ticketTypeId: true });
+
+// Types
+export type RecurrenceInput = z.infer<typeof recurrenceSchema>;
+export type CreateSeriesInput = z.infer<typeof createSeriesSchema>;
+export type UpdateSeriesInput = z.infer<typeof updateSeriesSchema>;
+export type RegisterForSeriesInput = z.infer<typeof registerForSeriesSchema>;
@@ -0,0 +1,343 @@
+import { eq, and, gte, asc, inArray, ne } from 'drizzle-orm';
+import { db, events, eventSeries, eventRegistrations } from '../../db';
+import { config } from '../../config';
+import { log } from '../../middleware/logger';
+import { generateUniqueSlug } from '../../utils/slug';
+import { expandRecurrence, formatRRule, toLocalDateString } from '../../utils/recurrence';
+import type { RecurrenceRule } from '../../utils/recurrence';
+import { eventsService, publicEventStatuses } from '../events/events.service';
+import { speakersService } from '../speakers/speakers.service';
+import { venuesService } from '../venues/venues.service';
+import type { UpdateEventInput, UpdateEventQuery } from '../events/events.schema';
+import type { CreateSeriesInput, UpdateSeriesInput, RegisterForSeriesInput } from './series.schema';
+
+export class SeriesService {
+  /**
+   * Create a series and its occurrences (as draft events)
+   */
+  async createSeries(organizerId: string, input: CreateSeriesInput) {
+    const { recurrence, registrationMode, speakerIds, ...eventInput } = input;
+    const { maxOccurrences } = config.recurrence;
+    const { timeZone } = config.calendar;
+
+    const startDate = new Date(eventInput.startDate);
+    const duration = new Date(eventInput.endDate).getTime() - startDate.getTime();
+    const deadlineLead = eventInput.registrationDeadline
+      ? startDate.getTime() - new Date(eventInput.registrationDeadline).getTime()
+      : null;
+
+    const rule: RecurrenceRule = {
+      frequency: recurrence.frequency,
+      interval: recurrence.interval,
+      byWeekday: recurrence.byWeekday,
+      byMonthDay: recurrence.byMonthDay,
+      bySetPos: recurrence.bySetPos,
+      until: recurrence.until ? new Date(recurrence.until) : undefined,
+      count: recurrence.count,
+    };
+
+    // Expand one past the limit to detect rules that would be truncated
+    const occurrences = expandRecurrence(rule, startDate, {
+      timeZone,
+      maxOccurrences: maxOccurrences + 1,
+      exceptions: recurrence.exceptions,
+    });
+
+    if (occurrences.length === 0) {
+      throw new Error('The recurrence rule does not produce any occurrences');
+    }
+
+    if (occurrences.length > maxOccurrences) {
+      throw new Error(`A series can have at most ${maxOccurrences} occurrences`);
+    }
+
+    if (speakerIds) {
+      await speakersService.assertSpeakersExist(speakerIds);
+    }
+
+    const venue = eventInput.venueId
+      ? await venuesService.assertVenueUsable(eventInput.venueId, eventInput.maxParticipants)
+      : null;
+
+    if (venue) {
+      for (const occurrenceStart of occurrences) {
+        await venuesService.assertRoomAvailable({
+          venueId: venue.id,
+          startDate: occurrenceStart,
+          endDate: new Date(occurrenceStart.getTime() + duration),
+        });
+      }
+    }
+
+    const [series] = await db
+      .insert(eventSeries)
+      .values({
+        organizerId,
+        title: eventInput.title,
+        recurrenceRule: formatRRule(rule),
+        startDate,
+        timeZone,
+        exceptionDates: recurrence.exceptions ?? null,
+        registrationMode,
+      })
+      .returning();
+
+    const created = await db
+      .insert(events)
+      .values(
+        occurrences.map((occurrenceStart) => ({
+          ...eventInput,
+          latitude: eventInput.latitude ?? venue?.latitude ?? null,
+          longitude: eventInput.longitude ?? venue?.longitude ?? null,
+          slug: generateUniqueSlug(eventInput.title),
+          organizerId,
+          startDate: occurrenceStart,
+          endDate: new Date(occurrenceStart.getTime() + duration),
+          registrationDeadline:
+            deadlineLead !== null ? new Date(occurrenceStart.getTime() - deadlineLead) : null,
+          status: 'draft' as const,
+          seriesId: series.id,
+          occurrenceDate: occurrenceStart,
+        }))
+      )
+      .returning();
+
+    if (speakerIds) {
+      for (const occurrence of created) {
+        await speakersService.setEventSpeakers(occurrence.id, speakerIds);
+      }
+    }
+
+    log.info(`Event series created: ${series.id} with ${created.length} occurrences by organizer ${organizerId}`);
+    return { ...series, occurrences: created };
+  }
+
+  /**
+   * Get series by ID with its occurrences
+   */
+  async getSeriesById(seriesId: string, includeUnpublished = false) {
+    return db.query.eventSeries.findFirst({
+      where: eq(eventSeries.id, seriesId),
+      with: {
+        organizer: {
+          columns: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        occurrences: {
+          where: includeUnpublished ? undefined : inArray(events.status, publicEventStatuses),
+          orderBy: [asc(events.startDate)],
+        },
+      },
+    });
+  }
+
+  /**
+   * Update series settings
+   */
+  async updateSeries(seriesId: string, input: UpdateSeriesInput) {
+    const [updated] = await db
+      .update(eventSeries)
+      .set({
+        ...input,
+        updatedAt: new Date(),
+      })
+      .where(eq(eventSeries.id, seriesId))
+      .returning();
+
+    log.info(`Event series updated: ${seriesId}`);
+    return updated;
+  }
+
+  /**
+   * Submit all draft occurrences for approval
+   */
+  async submitForApproval(seriesId: string) {
+    const drafts = await db.query.events.findMany({
+      where: and(eq(events.seriesId, seriesId), eq(events.status, 'draft')),
+      columns: { id: true },
+      orderBy: [asc(events.startDate)],
+    });
+
+    const submitted = [];
+
+    for (const draft of drafts) {
+      submitted.push(await eventsService.submitForApproval(draft.id));
+    }
+
+    log.info(`Event series submitted for approval: ${seriesId} (${submitted.length} occurrences)`);
+    return submitted;
+  }
+
+  /**
+   * Update an occurrence, this and following occurrences, or the whole series.
+   * Date changes are applied as a shift relative to the edited occurrence.
+   */
+  async updateOccurrences(
+    eventId: string,
+    input: UpdateEventInput,
+    scope: UpdateEventQuery['scope'],
+    actorId?: string
+  ) {
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    if (!event.seriesId || scope === 'this') {
+      return eventsService.updateEvent(eventId, input, actorId);
+    }
+
+    const { startDate, endDate, registrationDeadline, ...fields } = input;
+    const startShift = startDate ? new Date(startDate).getTime() - event.startDate.getTime() : 0;
+    const endShift = endDate ? new Date(endDate).getTime() - event.endDate.getTime() : 0;
+    const deadlineLead = registrationDeadline
+      ? new Date(startDate ?? event.startDate).getTime() - new Date(registrationDeadline).getTime()
+      : null;
+
+    const conditions = [eq(events.seriesId, event.seriesId)];
+
+    if (scope === 'following') {
+      conditions.push(gte(events.startDate, event.startDate));
+    }
+
+    const occurrences = await db.query.events.findMany({
+      where: and(...conditions),
+      columns: { id: true, startDate: true, endDate: true },
+      orderBy: [asc(events.startDate)],
+    });
+
+    const updated = [];
+
+    for (const occurrence of occurrences) {
+      const occurrenceInput: UpdateEventInput = { ...fields };
+      const newStart = new Date(occurrence.startDate.getTime() + startShift);
+
+      if (startDate) {
+        occurrenceInput.startDate = newStart.toISOString();
+      }
+      if (endDate) {
+        occurrenceInput.endDate = new Date(occurrence.endDate.getTime() + endShift).toISOString();
+      }
+      if (deadlineLead !== null) {
+        occurrenceInput.registrationDeadline = new Date(newStart.getTime() - deadlineLead).toISOString();
+      }
+
+      updated.push(await eventsService.updateEvent(occurrence.id, occurrenceInput, actorId));
+    }
+
+    if (scope === 'all' && fields.title) {
+      await db
+        .update(eventSeries)
+        .set({ title: fields.title, updatedAt: new Date() })
+        .where(eq(eventSeries.id, event.seriesId));
+    }
+
+    log.info(`Event series ${event.seriesId}: ${updated.length} occurrences updated (scope: ${scope})`);
+    return updated;
+  }
+
+  /**
+   * Record a removed occurrence as a series exception
+   */
+  async excludeOccurrence(seriesId: string, occurrenceDate: Date) {
+    const series = await db.query.eventSeries.findFirst({
+      where: eq(eventSeries.id, seriesId),
+    });
+
+    if (!series) {
+      return;
+    }
+
+    const exceptionDate = toLocalDateString(occurrenceDate, series.timeZone);
+    const exceptionDates = Array.from(new Set([...(series.exceptionDates ?? []), exceptionDate]));
+
+    await db
+      .update(eventSeries)
+      .set({
+        exceptionDates,
+        updatedAt: new Date(),
+      })
+      .where(eq(eventSeries.id, seriesId));
+
+    log.info(`Occurrence on ${exceptionDate} excluded from event series ${seriesId}`);
+  }
+
+  /**
+   * Register user for every upcoming approved occurrence of a series.
+   * Occurrences that cannot be registered for are reported, not fatal.
+   */
+  async registerForSeries(seriesId: string, userId: string, input: RegisterForSeriesInput) {
+    const occurrences = await db.query.events.findMany({
+      where: and(
+        eq(events.seriesId, seriesId),
+        eq(events.status, 'approved'),
+        gte(events.startDate, new Date())
+      ),
+      columns: { id: true },
+      orderBy: [asc(events.startDate)],
+    });
+
+    if (occurrences.length === 0) {
+      throw new Error('No upcoming occurrences are open for registration');
+    }
+
+    const registrations = [];
+    const skipped: { eventId: string; reason: string }[] = [];
+
+    for (const occurrence of occurrences) {
+      try {
+        registrations.push(await eventsService.registerForEvent(occurrence.id, userId, input, true));
+      } catch (err) {
+        skipped.push({
+          eventId: occurrence.id,
+          reason: err instanceof Error ? err.message : 'Registration failed',
+        });
+      }
+    }
+
+    log.info(`User ${userId} registered for ${registrations.length} occurrences of series ${seriesId}`);
+    return { registrations, skipped };
+  }
+
+  /**
+   * Cancel user's registrations for all upcoming occurrences of a series
+   */
+  async cancelSeriesRegistration(seriesId: string, userId: string) {
+    const occurrences = await db.query.events.findMany({
+      where: and(eq(events.seriesId, seriesId), gte(events.startDate, new Date())),
+      columns: { id: true },
+    });
+
+    if (occurrences.length === 0) {
+      throw new Error('No upcoming occurrences found');
+    }
+
+    const registrations = await db.query.eventRegistrations.findMany({
+      where: and(
+        inArray(eventRegistrations.eventId, occurrences.map((occurrence) => occurrence.id)),
+        eq(eventRegistrations.userId, userId),
+        ne(eventRegistrations.status, 'cancelled')
+      ),
+      columns: { eventId: true },
+    });
+
+    if (registrations.length === 0) {
+      throw new Error('Registration not found');
+    }
+
+    for (const registration of registrations) {
+      await eventsService.cancelRegistration(registration.eventId, userId);
+    }
+
+    log.info(`User ${userId} cancelled ${registrations.length} registrations for series ${seriesId}`);
+    return { cancelled: registrations.length };
+  }
+}
+
+export const seriesService = new SeriesService();
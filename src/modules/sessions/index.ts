@@ -0,0 +1,3 @@
+export { sessionsController } from './sessions.controller';
+export { sessionsService } from './sessions.service';
+export * from './sessions.schema';
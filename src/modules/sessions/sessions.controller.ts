@@ -0,0 +1,186 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { sessionsService } from './sessions.service';
+import { createSessionSchema, updateSessionSchema } from './sessions.schema';
+import { eventsService, publicEventStatuses } from '../events/events.service';
+import { auth, optionalAuth } from '../../middleware/auth';
+import { hasEventPermission } from '../../middleware/rbac';
+import { success, error, successMessage, notFound, forbidden } from '../../utils/response';
+import type { AuthUser } from '../../types';
+import type { Env } from '../../types/hono';
+
+// Mounted under /events, next to the events controller
+const sessionsController = new Hono<Env>();
+
+/**
+ * GET /events/:id/sessions
+ * Get event agenda
+ */
+sessionsController.get('/:id/sessions', optionalAuth(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser | undefined;
+
+    const event = await eventsService.getEventById(id);
+
+    if (
+      !event ||
+      (!publicEventStatuses.includes(event.status) &&
+        (!user || !(await hasEventPermission(user, event, 'view'))))
+    ) {
+      return notFound(c, 'Event not found');
+    }
+
+    const sessions = await sessionsService.getEventSessions(id);
+    return success(c, sessions);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get sessions';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /events/:id/sessions/me
+ * Get the sessions the current user registered for
+ */
+sessionsController.get('/:id/sessions/me', auth(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const sessions = await sessionsService.getUserSessions(id, user.id);
+    return success(c, sessions);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get sessions';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /events/:id/sessions
+ * Add a session to an event (organizer, co-organizer or admin)
+ */
+sessionsController.post(
+  '/:id/sessions',
+  auth(),
+  zValidator('json', createSessionSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+
+      const event = await eventsService.getEventById(id);
+
+      if (!event) {
+        return notFound(c, 'Event not found');
+      }
+
+      if (!(await hasEventPermission(user, event, 'update'))) {
+        return forbidden(c, 'You do not have permission to manage sessions for this event');
+      }
+
+      const session = await sessionsService.createSession(id, input);
+      return success(c, session, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create session';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * PATCH /events/:id/sessions/:sessionId
+ * Update a session (organizer, co-organizer or admin)
+ */
+sessionsController.patch(
+  '/:id/sessions/:sessionId',
+  auth(),
+  zValidator('json', updateSessionSchema),
+  async (c) => {
+    try {
+      const { id, sessionId } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+
+      const event = await eventsService.getEventById(id);
+
+      if (!event) {
+        return notFound(c, 'Event not found');
+      }
+
+      if (!(await hasEventPermission(user, event, 'update'))) {
+        return forbidden(c, 'You do not have permission to manage sessions for this event');
+      }
+
+      const updated = await sessionsService.updateSession(id, sessionId, input);
+      return success(c, updated);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update session';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * DELETE /events/:id/sessions/:sessionId
+ * Delete a session (organizer, co-organizer or admin)
+ */
+sessionsController.delete('/:id/sessions/:sessionId', auth(), async (c) => {
+  try {
+    const { id, sessionId } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const event = await eventsService.getEventById(id);
+
+    if (!event) {
+      return notFound(c, 'Event not found');
+    }
+
+    if (!(await hasEventPermission(user, event, 'update'))) {
+      return forbidden(c, 'You do not have permission to manage sessions for this event');
+    }
+
+    await sessionsService.deleteSession(id, sessionId);
+    return successMessage(c, 'Session deleted successfully');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to delete session';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /events/:id/sessions/:sessionId/register
+ * Register for a session (requires a confirmed event registration)
+ */
+sessionsController.post('/:id/sessions/:sessionId/register', auth(), async (c) => {
+  try {
+    const { id, sessionId } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const registration = await sessionsService.registerForSession(id, sessionId, user.id);
+    return success(c, registration, 201);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to register for session';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * DELETE /events/:id/sessions/:sessionId/register
+ * Cancel a session registration
+ */
+sessionsController.delete('/:id/sessions/:sessionId/register', auth(), async (c) => {
+  try {
+    const { id, sessionId } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    await sessionsService.cancelSessionRegistration(id, sessionId, user.id);
+    return successMessage(c, 'Session registration cancelled successfully');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to cancel session registration';
+    return error(c, message, 400);
+  }
+});
+
+export { sessionsController };
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { speakerIdsSchema } from '../speakers/speakers.schema';
+
+// Session fields
+const sessionFieldsSchema = z.object({
+  title: z
+    .string()
+    .min(3, 'Title must be at least 3 characters')
+    .max(255, 'Title must be at most 255 characters'),
+  description: z.string().optional(),
+  startDate: z.string().datetime({ message: 'Invalid start date' }),
+  endDate: z.string().datetime({ message: 'Invalid end date' }),
+  room: z.string().max(255).optional(),
+  track: z.string().max(100).optional(),
+  speakerIds: speakerIdsSchema.optional(),
+  maxParticipants: z.number().int().positive().optional(),
+});
+
+// Create session schema
+export const createSessionSchema = sessionFieldsSchema.refine(
+  (data) => new Date(data.endDate) > new Date(data.startDate),
+  {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  }
+);
+
+// Update session schema
+export const updateSessionSchema = sessionFieldsSchema.partial();
+
+// Types
+export type CreateSessionInput = z.infer<typeof createSessionSchema>;
+export type UpdateSessionInput = z.infer<typeof updateSessionSchema>;
@@ -0,0 +1,310 @@
+import { eq, and, or, asc, gt, lt, inArray, sql } from 'drizzle-orm';
+import { db, events, eventSessions, eventRegistrations, sessionRegistrations, sessionSpeakers } from '../../db';
+import { log } from '../../middleware/logger';
+import { speakersService } from '../speakers/speakers.service';
+import type { CreateSessionInput, UpdateSessionInput } from './sessions.schema';
+
+export class SessionsService {
+  /**
+   * Ensure a session fits inside its event's time window
+   */
+  async assertWithinEvent(eventId: string, startDate: Date, endDate: Date) {
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+      columns: { startDate: true, endDate: true },
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    if (endDate <= startDate) {
+      throw new Error('End date must be after start date');
+    }
+
+    if (startDate < event.startDate || endDate > event.endDate) {
+      throw new Error('Session must take place between the event start and end dates');
+    }
+  }
+
+  /**
+   * Create a session for an event
+   */
+  async createSession(eventId: string, input: CreateSessionInput) {
+    const { speakerIds, ...fields } = input;
+    const startDate = new Date(input.startDate);
+    const endDate = new Date(input.endDate);
+
+    await this.assertWithinEvent(eventId, startDate, endDate);
+
+    if (speakerIds) {
+      await speakersService.assertSpeakersExist(speakerIds);
+    }
+
+    const [session] = await db
+      .insert(eventSessions)
+      .values({
+        ...fields,
+        eventId,
+        startDate,
+        endDate,
+      })
+      .returning();
+
+    if (speakerIds) {
+      await speakersService.setSessionSpeakers(session.id, speakerIds);
+    }
+
+    log.info(`Session created: ${session.id} for event ${eventId}`);
+    return session;
+  }
+
+  /**
+   * Get event agenda (sessions ordered by start date)
+   */
+  async getEventSessions(eventId: string) {
+    return db.query.eventSessions.findMany({
+      where: eq(eventSessions.eventId, eventId),
+      orderBy: [asc(eventSessions.startDate), asc(eventSessions.track)],
+      with: {
+        speakers: {
+          with: {
+            speaker: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Get session by ID within an event
+   */
+  async getSessionById(eventId: string, sessionId: string) {
+    return db.query.eventSessions.findFirst({
+      where: and(eq(eventSessions.id, sessionId), eq(eventSessions.eventId, eventId)),
+    });
+  }
+
+  /**
+   * Update a session
+   */
+  async updateSession(eventId: string, sessionId: string, input: UpdateSessionInput) {
+    const { speakerIds, ...fields } = input;
+    const session = await this.getSessionById(eventId, sessionId);
+
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const startDate = input.startDate ? new Date(input.startDate) : session.startDate;
+    const endDate = input.endDate ? new Date(input.endDate) : session.endDate;
+
+    if (input.startDate || input.endDate) {
+      await this.assertWithinEvent(eventId, startDate, endDate);
+    }
+
+    if (input.maxParticipants !== undefined && input.maxParticipants < session.currentParticipants) {
+      throw new Error('Capacity cannot be lower than the number of registered participants');
+    }
+
+    const [updated] = await db
+      .update(eventSessions)
+      .set({
+        ...fields,
+        startDate,
+        endDate,
+        updatedAt: new Date(),
+      })
+      .where(eq(eventSessions.id, sessionId))
+      .returning();
+
+    if (speakerIds) {
+      await speakersService.setSessionSpeakers(sessionId, speakerIds);
+    }
+
+    log.info(`Session updated: ${sessionId}`);
+    return updated;
+  }
+
+  /**
+   * Delete a session with its registrations and speaker links
+   */
+  async deleteSession(eventId: string, sessionId: string) {
+    const session = await this.getSessionById(eventId, sessionId);
+
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    await db.delete(sessionRegistrations).where(eq(sessionRegistrations.sessionId, sessionId));
+    await db.delete(sessionSpeakers).where(eq(sessionSpeakers.sessionId, sessionId));
+    await db.delete(eventSessions).where(eq(eventSessions.id, sessionId));
+
+    log.info(`Session deleted: ${sessionId}`);
+  }
+
+  /**
+   * Register a user for a session within their event registration
+   */
+  async registerForSession(eventId: string, sessionId: string, userId: string) {
+    const session = await this.getSessionById(eventId, sessionId);
+
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const registration = await db.query.eventRegistrations.findFirst({
+      where: and(
+        eq(eventRegistrations.eventId, eventId),
+        eq(eventRegistrations.userId, userId),
+        or(eq(eventRegistrations.status, 'confirmed'), eq(eventRegistrations.status, 'attended'))
+      ),
+    });
+
+    if (!registration) {
+      throw new Error('You must have a confirmed registration for the event to join its sessions');
+    }
+
+    const existing = await db.query.sessionRegistrations.findFirst({
+      where: and(
+        eq(sessionRegistrations.sessionId, sessionId),
+        eq(sessionRegistrations.registrationId, registration.id)
+      ),
+    });
+
+    if (existing) {
+      throw new Error('You are already registered for this session');
+    }
+
+    if (session.maxParticipants && session.currentParticipants >= session.maxParticipants) {
+      throw new Error('Session is full');
+    }
+
+    // Block sessions that overlap with ones the user already picked
+    const [overlapping] = await db
+      .select({ title: eventSessions.title })
+      .from(sessionRegistrations)
+      .innerJoin(eventSessions, eq(sessionRegistrations.sessionId, eventSessions.id))
+      .where(
+        and(
+          eq(sessionRegistrations.registrationId, registration.id),
+          lt(eventSessions.startDate, session.endDate),
+          gt(eventSessions.endDate, session.startDate)
+        )
+      )
+      .limit(1);
+
+    if (overlapping) {
+      throw new Error(`This session overlaps with "${overlapping.title}", which you are already registered for`);
+    }
+
+    const [sessionRegistration] = await db
+      .insert(sessionRegistrations)
+      .values({
+        sessionId,
+        registrationId: registration.id,
+      })
+      .returning();
+
+    await db
+      .update(eventSessions)
+      .set({
+        currentParticipants: sql`${eventSessions.currentParticipants} + 1`,
+      })
+      .where(eq(eventSessions.id, sessionId));
+
+    log.info(`User ${userId} registered for session ${sessionId}`);
+    return sessionRegistration;
+  }
+
+  /**
+   * Cancel a user's session registration
+   */
+  async cancelSessionRegistration(eventId: string, sessionId: string, userId: string) {
+    const registration = await db.query.eventRegistrations.findFirst({
+      where: and(
+        eq(eventRegistrations.eventId, eventId),
+        eq(eventRegistrations.userId, userId)
+      ),
+      columns: { id: true },
+    });
+
+    if (!registration) {
+      throw new Error('Registration not found');
+    }
+
+    const [deleted] = await db
+      .delete(sessionRegistrations)
+      .where(
+        and(
+          eq(sessionRegistrations.sessionId, sessionId),
+          eq(sessionRegistrations.registrationId, registration.id)
+        )
+      )
+      .returning();
+
+    if (!deleted) {
+      throw new Error('Session registration not found');
+    }
+
+    await db
+      .update(eventSessions)
+      .set({
+        currentParticipants: sql`${eventSessions.currentParticipants} - 1`,
+      })
+      .where(eq(eventSessions.id, sessionId));
+
+    log.info(`User ${userId} cancelled registration for session ${sessionId}`);
+  }
+
+  /**
+   * Release all session seats held by an event registration
+   */
+  async releaseRegistrationSessions(registrationId: string) {
+    const released = await db
+      .delete(sessionRegistrations)
+      .where(eq(sessionRegistrations.registrationId, registrationId))
+      .returning({ sessionId: sessionRegistrations.sessionId });
+
+    if (released.length === 0) {
+      return;
+    }
+
+    await db
+      .update(eventSessions)
+      .set({
+        currentParticipants: sql`${eventSessions.currentParticipants} - 1`,
+      })
+      .where(inArray(eventSessions.id, released.map((r) => r.sessionId)));
+  }
+
+  /**
+   * Get the sessions a user picked for an event
+   */
+  async getUserSessions(eventId: string, userId: string) {
+    const registration = await db.query.eventRegistrations.findFirst({
+      where: and(
+        eq(eventRegistrations.eventId, eventId),
+        eq(eventRegistrations.userId, userId)
+      ),
+      columns: { id: true },
+      with: {
+        sessions: {
+          with: {
+            session: true,
+          },
+        },
+      },
+    });
+
+    if (!registration) {
+      throw new Error('Registration not found');
+    }
+
+    return registration.sessions
+      .map((entry) => entry.session)
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  }
+}
+
+export const sessionsService = new SessionsService();
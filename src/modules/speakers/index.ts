@@ -0,0 +1,3 @@
+export { speakersController } from './speakers.controller';
+export { speakersService } from './speakers.service';
+export * from './speakers.schema';
@@ -0,0 +1,131 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { speakersService } from './speakers.service';
+import { createSpeakerSchema, updateSpeakerSchema, listSpeakersQuerySchema } from './speakers.schema';
+import { auth } from '../../middleware/auth';
+import { requireOrganizer } from '../../middleware/rbac';
+import { success, error, successMessage, paginated, notFound, forbidden } from '../../utils/response';
+import type { AuthUser } from '../../types';
+import type { Env } from '../../types/hono';
+
+const speakersController = new Hono<Env>();
+
+/**
+ * GET /speakers
+ * List speakers (public)
+ */
+speakersController.get('/', zValidator('query', listSpeakersQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid('query');
+    const result = await speakersService.listSpeakers(query);
+    return paginated(c, result.data, result.page, result.limit, result.total);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to list speakers';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /speakers/:id
+ * Get speaker profile with upcoming and past talks (public)
+ */
+speakersController.get('/:id', async (c) => {
+  try {
+    const { id } = c.req.param();
+    const speaker = await speakersService.getSpeakerProfile(id);
+
+    if (!speaker) {
+      return notFound(c, 'Speaker not found');
+    }
+
+    return success(c, speaker);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get speaker';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /speakers
+ * Add a speaker to the directory (organizer only)
+ */
+speakersController.post(
+  '/',
+  auth(),
+  requireOrganizer(),
+  zValidator('json', createSpeakerSchema),
+  async (c) => {
+    try {
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+      const speaker = await speakersService.createSpeaker(user.id, input);
+      return success(c, speaker, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create speaker';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * PATCH /speakers/:id
+ * Update a speaker (creator or admin)
+ */
+speakersController.patch(
+  '/:id',
+  auth(),
+  requireOrganizer(),
+  zValidator('json', updateSpeakerSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+
+      const speaker = await speakersService.getSpeakerById(id);
+
+      if (!speaker) {
+        return notFound(c, 'Speaker not found');
+      }
+
+      if (speaker.createdBy !== user.id && user.role !== 'admin') {
+        return forbidden(c, 'You do not have permission to update this speaker');
+      }
+
+      const updated = await speakersService.updateSpeaker(id, input);
+      return success(c, updated);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update speaker';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * DELETE /speakers/:id
+ * Delete a speaker (creator or admin)
+ */
+speakersController.delete('/:id', auth(), requireOrganizer(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const speaker = await speakersService.getSpeakerById(id);
+
+    if (!speaker) {
+      return notFound(c, 'Speaker not found');
+    }
+
+    if (speaker.createdBy !== user.id && user.role !== 'admin') {
+      return forbidden(c, 'You do not have permission to delete this speaker');
+    }
+
+    await speakersService.deleteSpeaker(id);
+    return successMessage(c, 'Speaker deleted successfully');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to delete speaker';
+    return error(c, message, 400);
+  }
+});
+
+export { speakersController };
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+// Create speaker schema
+export const createSpeakerSchema = z.object({
+  name: z
+    .string()
+    .min(2, 'Name must be at least 2 characters')
+    .max(255, 'Name must be at most 255 characters'),
+  affiliation: z.string().max(255).optional(),
+  bio: z.string().optional(),
+  photoUrl: z.string().url('Invalid URL').max(500).optional(),
+  links: z.record(z.string(), z.string().url('Invalid URL')).optional(),
+});
+
+// Update speaker schema
+export const updateSpeakerSchema = createSpeakerSchema.partial();
+
+// List speakers query schema
+export const listSpeakersQuerySchema = z.object({
+  page: z.string().optional().default('1'),
+  limit: z.string().optional().default('20'),
+  search: z.string().optional(),
+});
+
+// Speaker IDs attached to an event or session
+export const speakerIdsSchema = z.array(z.string().uuid('Invalid speaker ID')).max(50);
+
+// Types
+export type CreateSpeakerInput = z.infer<typeof createSpeakerSchema>;
+export type UpdateSpeakerInput = z.infer<typeof updateSpeakerSchema>;
+export type ListSpeakersQuery = z.infer<typeof listSpeakersQuerySchema>;
@@ -0,0 +1,223 @@
+import { eq, or, ilike, asc, count, inArray } from 'drizzle-orm';
+import { db, speakers, eventSpeakers, sessionSpeakers } from '../../db';
+import { log } from '../../middleware/logger';
+import { parsePagination } from '../../utils/pagination';
+import type { CreateSpeakerInput, UpdateSpeakerInput, ListSpeakersQuery } from './speakers.schema';
+
+// Event columns exposed on public speaker pages
+const talkEventColumns = {
+  id: true,
+  title: true,
+  slug: true,
+  startDate: true,
+  endDate: true,
+  location: true,
+  isOnline: true,
+  status: true,
+} as const;
+
+export class SpeakersService {
+  /**
+   * Create a speaker
+   */
+  async createSpeaker(createdBy: string, input: CreateSpeakerInput) {
+    const [speaker] = await db
+      .insert(speakers)
+      .values({
+        ...input,
+        createdBy,
+      })
+      .returning();
+
+    log.info(`Speaker created: ${speaker.id} by user ${createdBy}`);
+    return speaker;
+  }
+
+  /**
+   * Get speaker by ID
+   */
+  async getSpeakerById(speakerId: string) {
+    return db.query.speakers.findFirst({
+      where: eq(speakers.id, speakerId),
+    });
+  }
+
+  /**
+   * Get public speaker profile with upcoming and past talks.
+   * Talks are events the speaker is attached to, or sessions of such events.
+   */
+  async getSpeakerProfile(speakerId: string) {
+    const speaker = await this.getSpeakerById(speakerId);
+
+    if (!speaker) {
+      return null;
+    }
+
+    const [eventLinks, sessionLinks] = await Promise.all([
+      db.query.eventSpeakers.findMany({
+        where: eq(eventSpeakers.speakerId, speakerId),
+        with: {
+          event: { columns: talkEventColumns },
+        },
+      }),
+      db.query.sessionSpeakers.findMany({
+        where: eq(sessionSpeakers.speakerId, speakerId),
+        with: {
+          session: {
+            columns: {
+              id: true,
+              title: true,
+              startDate: true,
+              endDate: true,
+              room: true,
+              track: true,
+            },
+            with: {
+              event: { columns: talkEventColumns },
+            },
+          },
+        },
+      }),
+    ]);
+
+    const talks = [
+      ...eventLinks.map(({ event }) => ({
+        event,
+        session: null,
+        startDate: event.startDate,
+        endDate: event.endDate,
+      })),
+      ...sessionLinks.map(({ session: { event, ...session } }) => ({
+        event,
+        session,
+        startDate: session.startDate,
+        endDate: session.endDate,
+      })),
+    ].filter((talk) => talk.event.status === 'approved' || talk.event.status === 'completed');
+
+    const now = new Date();
+
+    return {
+      ...speaker,
+      upcomingTalks: talks
+        .filter((talk) => talk.endDate >= now)
+        .sort((a, b) => a.startDate.getTime() - b.startDate.getTime()),
+      pastTalks: talks
+        .filter((talk) => talk.endDate < now)
+        .sort((a, b) => b.startDate.getTime() - a.startDate.getTime()),
+    };
+  }
+
+  /**
+   * List speakers with optional search
+   */
+  async listSpeakers(query: ListSpeakersQuery) {
+    const { page, limit, offset } = parsePagination(query.page, query.limit);
+
+    const whereClause = query.search
+      ? or(
+          ilike(speakers.name, `%${query.search}%`),
+          ilike(speakers.affiliation, `%${query.search}%`)
+        )
+      : undefined;
+
+    const [data, totalResult] = await Promise.all([
+      db.query.speakers.findMany({
+        where: whereClause,
+        limit,
+        offset,
+        orderBy: [asc(speakers.name)],
+      }),
+      db.select({ count: count() }).from(speakers).where(whereClause),
+    ]);
+
+    return {
+      data,
+      total: totalResult[0]?.count || 0,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Update speaker
+   */
+  async updateSpeaker(speakerId: string, input: UpdateSpeakerInput) {
+    const [updated] = await db
+      .update(speakers)
+      .set({
+        ...input,
+        updatedAt: new Date(),
+      })
+      .where(eq(speakers.id, speakerId))
+      .returning();
+
+    log.info(`Speaker updated: ${speakerId}`);
+    return updated;
+  }
+
+  /**
+   * Delete speaker and detach them from events and sessions
+   */
+  async deleteSpeaker(speakerId: string) {
+    await db.delete(eventSpeakers).where(eq(eventSpeakers.speakerId, speakerId));
+    await db.delete(sessionSpeakers).where(eq(sessionSpeakers.speakerId, speakerId));
+    await db.delete(speakers).where(eq(speakers.id, speakerId));
+
+    log.info(`Speaker deleted: ${speakerId}`);
+  }
+
+  /**
+   * Ensure every speaker ID refers to an existing speaker
+   */
+  async assertSpeakersExist(speakerIds: string[]) {
+    const uniqueIds = Array.from(new Set(speakerIds));
+
+    if (uniqueIds.length === 0) {
+      return uniqueIds;
+    }
+
+    const found = await db.query.speakers.findMany({
+      where: inArray(speakers.id, uniqueIds),
+      columns: { id: true },
+    });
+
+    if (found.length !== uniqueIds.length) {
+      throw new Error('One or more speakers were not found');
+    }
+
+    return uniqueIds;
+  }
+
+  /**
+   * Replace the speakers attached to an event
+   */
+  async setEventSpeakers(eventId: string, speakerIds: string[]) {
+    const uniqueIds = await this.assertSpeakersExist(speakerIds);
+
+    await db.delete(eventSpeakers).where(eq(eventSpeakers.eventId, eventId));
+
+    if (uniqueIds.length > 0) {
+      await db
+        .insert(eventSpeakers)
+        .values(uniqueIds.map((speakerId) => ({ eventId, speakerId })));
+    }
+  }
+
+  /**
+   * Replace the speakers attached to a session
+   */
+  async setSessionSpeakers(sessionId: string, speakerIds: string[]) {
+    const uniqueIds = await this.assertSpeakersExist(speakerIds);
+
+    await db.delete(sessionSpeakers).where(eq(sessionSpeakers.sessionId, sessionId));
+
+    if (uniqueIds.length > 0) {
+      await db
+        .insert(sessionSpeakers)
+        .values(uniqueIds.map((speakerId) => ({ sessionId, speakerId })));
+    }
+  }
+}
+
+export const speakersService = new SpeakersService();
@@ -0,0 +1,3 @@
+export { staffController } from './staff.controller';
+export { staffService } from './staff.service';
+export * from './staff.schema';
@@ -0,0 +1,123 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { staffService } from './staff.service';
+import { inviteStaffSchema, updateStaffSchema } from './staff.schema';
+import { eventsService } from '../events/events.service';
+import { auth } from '../../middleware/auth';
+import { requireEventPermission } from '../../middleware/rbac';
+import { success, error, successMessage, notFound, forbidden } from '../../utils/response';
+import type { AuthUser } from '../../types';
+import type { Env } from '../../types/hono';
+
+// Mounted under /events, next to the events controller
+const staffController = new Hono<Env>();
+
+/**
+ * GET /events/:id/staff
+ * Get event staff (organizer, admin or staff)
+ */
+staffController.get('/:id/staff', auth(), requireEventPermission('view'), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const staff = await staffService.getEventStaff(id);
+    return success(c, staff);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get staff';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /events/:id/staff
+ * Add a staff member by email (organizer/owner or admin)
+ */
+staffController.post(
+  '/:id/staff',
+  auth(),
+  zValidator('json', inviteStaffSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+
+      const event = await eventsService.getEventById(id);
+
+      if (!event) {
+        return notFound(c, 'Event not found');
+      }
+
+      if (event.organizerId !== user.id && user.role !== 'admin') {
+        return forbidden(c, 'You do not have permission to manage staff for this event');
+      }
+
+      const member = await staffService.inviteStaff(id, user.id, input);
+      return success(c, member, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to add staff member';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * PATCH /events/:id/staff/:userId
+ * Change a staff member's role (organizer/owner or admin)
+ */
+staffController.patch(
+  '/:id/staff/:userId',
+  auth(),
+  zValidator('json', updateStaffSchema),
+  async (c) => {
+    try {
+      const { id, userId } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+
+      const event = await eventsService.getEventById(id);
+
+      if (!event) {
+        return notFound(c, 'Event not found');
+      }
+
+      if (event.organizerId !== user.id && user.role !== 'admin') {
+        return forbidden(c, 'You do not have permission to manage staff for this event');
+      }
+
+      const updated = await staffService.updateStaffRole(id, userId, input);
+      return success(c, updated);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update staff member';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * DELETE /events/:id/staff/:userId
+ * Remove a staff member (organizer/owner or admin), or leave the staff
+ */
+staffController.delete('/:id/staff/:userId', auth(), async (c) => {
+  try {
+    const { id, userId } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const event = await eventsService.getEventById(id);
+
+    if (!event) {
+      return notFound(c, 'Event not found');
+    }
+
+    if (event.organizerId !== user.id && user.role !== 'admin' && userId !== user.id) {
+      return forbidden(c, 'You do not have permission to manage staff for this event');
+    }
+
+    await staffService.removeStaff(id, userId);
+    return successMessage(c, 'Staff member removed successfully');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to remove staff member';
+    return error(c, message, 400);
+  }
+});
+
+export { staffController };
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// Event staff role enum
+const eventStaffRoleEnum = z.enum(['co_organizer', 'check_in_staff', 'viewer']);
+
+// Invite staff member schema
+export const inviteStaffSchema = z.object({
+  email: z.string().email('Invalid email'),
+  role: eventStaffRoleEnum,
+});
+
+// Update staff member schema
+export const updateStaffSchema = z.object({
+  role: eventStaffRoleEnum,
+});
+
+// Types
+export type InviteStaffInput = z.infer<typeof inviteStaffSchema>;
+export type UpdateStaffInput = z.infer<typeof updateStaffSchema>;
@@ -0,0 +1,146 @@
+import { eq, and, asc, desc } from 'drizzle-orm';
+import { db, events, eventStaff, users } from '../../db';
+import { log } from '../../middleware/logger';
+import { notificationsService } from '../notifications/notifications.service';
+import type { InviteStaffInput, UpdateStaffInput } from './staff.schema';
+import type { EventStaffRole } from '../../types';
+
+export class StaffService {
+  /**
+   * Get a user's staff role for an event
+   */
+  async getStaffRole(eventId: string, userId: string): Promise<EventStaffRole | null> {
+    const member = await db.query.eventStaff.findFirst({
+      where: and(eq(eventStaff.eventId, eventId), eq(eventStaff.userId, userId)),
+      columns: { role: true },
+    });
+
+    return member?.role ?? null;
+  }
+
+  /**
+   * Get event staff
+   */
+  async getEventStaff(eventId: string) {
+    return db.query.eventStaff.findMany({
+      where: eq(eventStaff.eventId, eventId),
+      orderBy: [asc(eventStaff.createdAt)],
+      with: {
+        user: {
+          columns: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            profileImage: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Add a user to an event's staff by email
+   */
+  async inviteStaff(eventId: string, invitedBy: string, input: InviteStaffInput) {
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+      columns: { id: true, title: true, organizerId: true },
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.email, input.email.toLowerCase()),
+      columns: { id: true, isActive: true },
+    });
+
+    if (!user || !user.isActive) {
+      throw new Error('No active user found with this email');
+    }
+
+    if (user.id === event.organizerId) {
+      throw new Error('The event organizer cannot be added as staff');
+    }
+
+    if (await this.getStaffRole(eventId, user.id)) {
+      throw new Error('User is already a staff member of this event');
+    }
+
+    const [member] = await db
+      .insert(eventStaff)
+      .values({
+        eventId,
+        userId: user.id,
+        role: input.role,
+        invitedBy,
+      })
+      .returning();
+
+    await notificationsService.sendStaffInvitation(user.id, eventId, event.title, input.role);
+
+    log.info(`User ${user.id} added as ${input.role} to event ${eventId} by ${invitedBy}`);
+    return member;
+  }
+
+  /**
+   * Change a staff member's role
+   */
+  async updateStaffRole(eventId: string, userId: string, input: UpdateStaffInput) {
+    const [updated] = await db
+      .update(eventStaff)
+      .set({
+        role: input.role,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(eventStaff.eventId, eventId), eq(eventStaff.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new Error('Staff member not found');
+    }
+
+    log.info(`Staff role of user ${userId} for event ${eventId} changed to ${input.role}`);
+    return updated;
+  }
+
+  /**
+   * Remove a staff member
+   */
+  async removeStaff(eventId: string, userId: string) {
+    const [deleted] = await db
+      .delete(eventStaff)
+      .where(and(eq(eventStaff.eventId, eventId), eq(eventStaff.userId, userId)))
+      .returning();
+
+    if (!deleted) {
+      throw new Error('Staff member not found');
+    }
+
+    log.info(`User ${userId} removed from staff of event ${eventId}`);
+  }
+
+  /**
+   * Get events a user is staff for
+   */
+  async getUserStaffEvents(userId: string) {
+    const memberships = await db.query.eventStaff.findMany({
+      where: eq(eventStaff.userId, userId),
+      orderBy: [desc(eventStaff.createdAt)],
+      with: {
+        event: {
+          with: {
+            faculty: true,
+            department: true,
+          },
+        },
+      },
+    });
+
+    return memberships.map(({ event, role }) => ({ ...event, staffRole: role }));
+  }
+}
+
+export const staffService = new StaffService();
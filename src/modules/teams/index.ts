@@ -0,0 +1,3 @@
+export { teamsController } from './teams.controller';
+export { teamsService } from './teams.service';
+export * from './teams.schema';
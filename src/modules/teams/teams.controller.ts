@@ -0,0 +1,201 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { teamsService } from './teams.service';
+import { createTeamSchema, inviteTeamMemberSchema, acceptTeamInvitationSchema } from './teams.schema';
+import { auth } from '../../middleware/auth';
+import { requireEventPermission } from '../../middleware/rbac';
+import { success, error, successMessage } from '../../utils/response';
+import type { AuthUser } from '../../types';
+import type { Env } from '../../types/hono';
+
+// Mounted under /events, next to the events controller
+const teamsController = new Hono<Env>();
+
+/**
+ * GET /events/:id/teams
+ * Get an event's teams with members and pending invitations (organizer, staff or admin)
+ */
+teamsController.get('/:id/teams', auth(), requireEventPermission('participants'), async (c) => {
+  try {
+    const { id } = c.req.param();
+
+    const teams = await teamsService.getEventTeams(id);
+    return success(c, teams);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get teams';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /events/:id/teams
+ * Create a team and register as its captain (authenticated)
+ */
+teamsController.post('/:id/teams', auth(), zValidator('json', createTeamSchema), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser;
+    const input = c.req.valid('json');
+
+    const team = await teamsService.createTeam(id, user.id, input);
+    return success(c, team, 201);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to create team';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /events/:id/teams/me
+ * Get current user's team and pending invitations for the event
+ */
+teamsController.get('/:id/teams/me', auth(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const result = await teamsService.getUserTeam(id, user);
+    return success(c, result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get team';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * DELETE /events/:id/teams/:teamId
+ * Cancel a team and all its members' registrations (team captain)
+ */
+teamsController.delete('/:id/teams/:teamId', auth(), async (c) => {
+  try {
+    const { id, teamId } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const result = await teamsService.cancelTeam(id, teamId, user.id);
+    return success(c, result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to cancel team';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /events/:id/teams/:teamId/invitations
+ * Invite a member by email (team captain)
+ */
+teamsController.post(
+  '/:id/teams/:teamId/invitations',
+  auth(),
+  zValidator('json', inviteTeamMemberSchema),
+  async (c) => {
+    try {
+      const { id, teamId } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const { email } = c.req.valid('json');
+
+      const invitation = await teamsService.inviteMember(id, teamId, user.id, email);
+      return success(c, invitation, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to invite member';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /events/:id/teams/:teamId/invitations/accept
+ * Accept an invitation sent to the current user's email and get a ticket
+ */
+teamsController.post(
+  '/:id/teams/:teamId/invitations/accept',
+  auth(),
+  zValidator('json', acceptTeamInvitationSchema),
+  async (c) => {
+    try {
+      const { id, teamId } = c.req.param();
+      const user = c.get('user') as AuthUser;
+      const input = c.req.valid('json');
+
+      const registration = await teamsService.respondToInvitation(id, teamId, user, true, input);
+      return success(c, registration, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to accept invitation';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /events/:id/teams/:teamId/invitations/decline
+ * Decline an invitation sent to the current user's email
+ */
+teamsController.post('/:id/teams/:teamId/invitations/decline', auth(), async (c) => {
+  try {
+    const { id, teamId } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    await teamsService.respondToInvitation(id, teamId, user, false);
+    return successMessage(c, 'Invitation declined');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to decline invitation';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * DELETE /events/:id/teams/:teamId/invitations/:invitationId
+ * Revoke a pending invitation (team captain)
+ */
+teamsController.delete('/:id/teams/:teamId/invitations/:invitationId', auth(), async (c) => {
+  try {
+    const { id, teamId, invitationId } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    await teamsService.revokeInvitation(id, teamId, user.id, invitationId);
+    return successMessage(c, 'Invitation revoked');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to revoke invitation';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * DELETE /events/:id/teams/:teamId/members/:userId
+ * Remove a member (team captain) or leave the team (the member)
+ */
+teamsController.delete('/:id/teams/:teamId/members/:userId', auth(), async (c) => {
+  try {
+    const { id, teamId, userId } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    await teamsService.removeMember(id, teamId, user.id, userId);
+    return successMessage(c, user.id === userId ? 'You left the team' : 'Member removed');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to remove member';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /events/:id/teams/:teamId/check-in
+ * Check in every confirmed member of a team (organizer, co-organizer, check-in staff or admin)
+ */
+teamsController.post(
+  '/:id/teams/:teamId/check-in',
+  auth(),
+  requireEventPermission('check_in'),
+  async (c) => {
+    try {
+      const { id, teamId } = c.req.param();
+      const user = c.get('user') as AuthUser;
+
+      const result = await teamsService.checkInTeam(id, teamId, user.id);
+      return success(c, result);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to check in team';
+      return error(c, message, 400);
+    }
+  }
+);
+
+export { teamsController };
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+// Create team schema (the captain registers with the team)
+export const createTeamSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Team name must be at least 2 characters')
+    .max(100, 'Team name must be at most 100 characters'),
+  ticketTypeId: z.string().uuid().optional(), // Required when the event has ticket types
+  notes: z.string().max(500).optional(),
+  answers: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Invite member schema
+export const inviteTeamMemberSchema = z.object({
+  email: z.string().email('Invalid email address').max(255),
+});
+
+// Accept invitation schema (the member's ticket type and answers to the event's registration form)
+export const acceptTeamInvitationSchema = z.object({
+  ticketTypeId: z.string().uuid().optional(), // Required when the event has ticket types
+  notes: z.string().max(500).optional(),
+  answers: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Types
+export type CreateTeamInput = z.infer<typeof createTeamSchema>;
+export type InviteTeamMemberInput = z.infer<typeof inviteTeamMemberSchema>;
+export type AcceptTeamInvitationInput = z.infer<typeof acceptTeamInvitationSchema>;
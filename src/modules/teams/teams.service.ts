@@ -0,0 +1,649 @@
+import { randomUUID } from 'node:crypto';
+import { eq, and, ne, asc, count, inArray, isNull, sql } from 'drizzle-orm';
+import { db, events, users, teams, teamInvitations, eventRegistrations } from '../../db';
+import { config } from '../../config';
+import { log } from '../../middleware/logger';
+import { notificationsService } from '../notifications/notifications.service';
+import { sessionsService } from '../sessions/sessions.service';
+import { checkInService } from '../checkin/checkin.service';
+import { ticketsService } from '../tickets/tickets.service';
+import { sendEmail } from '../../utils/mailer';
+import { validateRegistrationAnswers } from '../../utils/registration-form';
+import { generateTicketNumber } from '../../utils/slug';
+import { signTicket } from '../../utils/ticket-signing';
+import type { CreateTeamInput, AcceptTeamInvitationInput } from './teams.schema';
+import type { AuthUser, RegistrationStatus, SelectEvent } from '../../types';
+
+// Registrations that make someone a current member of a team
+const memberStatuses: RegistrationStatus[] = ['confirmed', 'attended'];
+
+export class TeamsService {
+  /**
+   * Load an event that takes team registrations and is open for them
+   */
+  private async getOpenTeamEvent(eventId: string) {
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    if (!event.maxTeamSize) {
+      throw new Error('This event does not take team registrations');
+    }
+
+    // Teams are confirmed as they form, so they would bypass the organizer's approval
+    if (event.requiresApproval) {
+      throw new Error('Team events cannot require approval; ask the organizer to turn approval off');
+    }
+
+    if (event.status === 'cancelled') {
+      throw new Error('This event has been cancelled');
+    }
+
+    if (event.status !== 'approved') {
+      throw new Error('Event is not open for registration');
+    }
+
+    if (event.registrationDeadline && new Date() > event.registrationDeadline) {
+      throw new Error('Registration deadline has passed');
+    }
+
+    return { ...event, maxTeamSize: event.maxTeamSize };
+  }
+
+  /**
+   * Load an active team of an event
+   */
+  private async getActiveTeam(eventId: string, teamId: string) {
+    const team = await db.query.teams.findFirst({
+      where: and(eq(teams.id, teamId), eq(teams.eventId, eventId), isNull(teams.cancelledAt)),
+    });
+
+    if (!team) {
+      throw new Error('Team not found');
+    }
+
+    return team;
+  }
+
+  /**
+   * Count a team's members and the invitations still holding a place
+   */
+  private async countPlaces(teamId: string) {
+    const [[members], [invitations]] = await Promise.all([
+      db
+        .select({ count: count() })
+        .from(eventRegistrations)
+        .where(and(eq(eventRegistrations.teamId, teamId), inArray(eventRegistrations.status, memberStatuses))),
+      db
+        .select({ count: count() })
+        .from(teamInvitations)
+        .where(and(eq(teamInvitations.teamId, teamId), eq(teamInvitations.status, 'pending'))),
+    ]);
+
+    return { members: members.count, invitations: invitations.count };
+  }
+
+  /**
+   * Resolve a member's ticket type like individual registrations do. Teams
+   * are not waitlisted, so a sold-out type is refused.
+   */
+  private async resolveTicketType(eventId: string, userId: string, ticketTypeId?: string) {
+    const ticketType = await ticketsService.resolveForRegistration(eventId, userId, ticketTypeId);
+
+    if (ticketType && ticketType.currentParticipants >= ticketType.quota) {
+      throw new Error(`"${ticketType.name}" tickets are sold out`);
+    }
+
+    return ticketType;
+  }
+
+  /**
+   * Issue a team member their own confirmed registration and ticket.
+   * A previously cancelled registration for the event is reused, without
+   * the attendance recorded before it was cancelled.
+   */
+  private async addMember(
+    event: Pick<SelectEvent, 'id' | 'registrationForm'>,
+    teamId: string,
+    userId: string,
+    input: AcceptTeamInvitationInput
+  ) {
+    const existing = await db.query.eventRegistrations.findFirst({
+      where: and(eq(eventRegistrations.eventId, event.id), eq(eventRegistrations.userId, userId)),
+    });
+
+    if (existing && existing.status !== 'cancelled') {
+      throw new Error('You are already registered for this event');
+    }
+
+    const answers = validateRegistrationAnswers(event.registrationForm ?? [], input.answers);
+    const ticketType = await this.resolveTicketType(event.id, userId, input.ticketTypeId);
+    const registrationId = existing?.id ?? randomUUID();
+    const ticketNumber = generateTicketNumber();
+
+    const values = {
+      teamId,
+      ticketTypeId: ticketType?.id ?? null,
+      status: 'confirmed' as const,
+      ticketNumber,
+      qrCode: await signTicket({ registrationId, eventId: event.id, ticketNumber }),
+      waitlistPosition: null,
+      checkedInAt: null,
+      checkedInBy: null,
+      checkInDeviceId: null,
+      checkedOutAt: null,
+      attendanceSeconds: 0,
+      registeredAt: new Date(),
+      notes: input.notes,
+      answers,
+    };
+
+    const [registration] = existing
+      ? await db
+          .update(eventRegistrations)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(eventRegistrations.id, existing.id))
+          .returning()
+      : await db
+          .insert(eventRegistrations)
+          .values({ ...values, id: registrationId, eventId: event.id, userId })
+          .returning();
+
+    if (ticketType) {
+      await ticketsService.adjustParticipants(ticketType.id, 1);
+    }
+
+    return registration;
+  }
+
+  /**
+   * Load teams with their members and pending invitations
+   */
+  private async loadTeams(eventId: string, teamIds?: string[]) {
+    const conditions = [eq(teams.eventId, eventId), isNull(teams.cancelledAt)];
+
+    if (teamIds) {
+      conditions.push(inArray(teams.id, teamIds));
+    }
+
+    const [event, eventTeams] = await Promise.all([
+      db.query.events.findFirst({
+        where: eq(events.id, eventId),
+        columns: { minTeamSize: true, maxTeamSize: true },
+      }),
+      db.query.teams.findMany({
+        where: and(...conditions),
+        orderBy: [asc(teams.createdAt)],
+      }),
+    ]);
+
+    if (eventTeams.length === 0) {
+      return [];
+    }
+
+    const ids = eventTeams.map((team) => team.id);
+
+    const [members, invitations] = await Promise.all([
+      db.query.eventRegistrations.findMany({
+        where: and(inArray(eventRegistrations.teamId, ids), inArray(eventRegistrations.status, memberStatuses)),
+        columns: {
+          id: true,
+          teamId: true,
+          status: true,
+          ticketNumber: true,
+          checkedInAt: true,
+          createdAt: true,
+        },
+        with: {
+          user: {
+            columns: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: [asc(eventRegistrations.createdAt)],
+      }),
+      db.query.teamInvitations.findMany({
+        where: and(inArray(teamInvitations.teamId, ids), eq(teamInvitations.status, 'pending')),
+        columns: {
+          id: true,
+          teamId: true,
+          email: true,
+          createdAt: true,
+        },
+        orderBy: [asc(teamInvitations.createdAt)],
+      }),
+    ]);
+
+    const minTeamSize = event?.minTeamSize ?? 1;
+
+    return eventTeams.map((team) => {
+      const teamMembers = members
+        .filter((member) => member.teamId === team.id)
+        .map(({ teamId, ...member }) => ({ ...member, isCaptain: member.user?.id === team.captainId }));
+
+      return {
+        ...team,
+        members: teamMembers,
+        invitations: invitations
+          .filter((invitation) => invitation.teamId === team.id)
+          .map(({ teamId, ...invitation }) => invitation),
+        size: teamMembers.length,
+        minTeamSize,
+        maxTeamSize: event?.maxTeamSize ?? null,
+        isComplete: teamMembers.length >= minTeamSize,
+        checkedIn: teamMembers.filter((member) => member.status === 'attended').length,
+      };
+    });
+  }
+
+  /**
+   * Create a team with the signed-in user as captain. The team takes one
+   * place of the event's capacity and the captain gets the first ticket.
+   */
+  async createTeam(eventId: string, captainId: string, input: CreateTeamInput) {
+    const event = await this.getOpenTeamEvent(eventId);
+
+    if (event.maxParticipants && event.currentParticipants >= event.maxParticipants) {
+      throw new Error('Event is full');
+    }
+
+    const existing = await db.query.eventRegistrations.findFirst({
+      where: and(
+        eq(eventRegistrations.eventId, eventId),
+        eq(eventRegistrations.userId, captainId),
+        ne(eventRegistrations.status, 'cancelled')
+      ),
+      columns: { id: true },
+    });
+
+    if (existing) {
+      throw new Error('You are already registered for this event');
+    }
+
+    const sameName = await db.query.teams.findFirst({
+      where: and(
+        eq(teams.eventId, eventId),
+        isNull(teams.cancelledAt),
+        sql`lower(${teams.name}) = lower(${input.name})`
+      ),
+      columns: { id: true },
+    });
+
+    if (sameName) {
+      throw new Error('A team with this name is already registered for this event');
+    }
+
+    // Fail on invalid answers or ticket type before the team exists
+    validateRegistrationAnswers(event.registrationForm ?? [], input.answers);
+    await this.resolveTicketType(eventId, captainId, input.ticketTypeId);
+
+    const [team] = await db
+      .insert(teams)
+      .values({ eventId, name: input.name, captainId })
+      .returning();
+
+    await this.addMember(event, team.id, captainId, input);
+
+    await db
+      .update(events)
+      .set({
+        currentParticipants: sql`${events.currentParticipants} + 1`,
+      })
+      .where(eq(events.id, eventId));
+
+    log.info(`Team ${team.id} (${team.name}) created for event ${eventId} by ${captainId}`);
+    const [created] = await this.loadTeams(eventId, [team.id]);
+    return created;
+  }
+
+  /**
+   * Get an event's teams as units, for organizers
+   */
+  async getEventTeams(eventId: string) {
+    return this.loadTeams(eventId);
+  }
+
+  /**
+   * Get the team the user belongs to, with invitations addressed to them
+   */
+  async getUserTeam(eventId: string, user: AuthUser) {
+    const registration = await db.query.eventRegistrations.findFirst({
+      where: and(
+        eq(eventRegistrations.eventId, eventId),
+        eq(eventRegistrations.userId, user.id),
+        inArray(eventRegistrations.status, memberStatuses)
+      ),
+      columns: { teamId: true },
+    });
+
+    const [team] = registration?.teamId ? await this.loadTeams(eventId, [registration.teamId]) : [];
+
+    const invitations = await db
+      .select({
+        id: teamInvitations.id,
+        teamId: teams.id,
+        teamName: teams.name,
+        createdAt: teamInvitations.createdAt,
+      })
+      .from(teamInvitations)
+      .innerJoin(teams, eq(teamInvitations.teamId, teams.id))
+      .where(
+        and(
+          eq(teams.eventId, eventId),
+          isNull(teams.cancelledAt),
+          eq(teamInvitations.email, user.email.toLowerCase()),
+          eq(teamInvitations.status, 'pending')
+        )
+      );
+
+    return { team: team ?? null, invitations };
+  }
+
+  /**
+   * Invite someone to the team by email. Pending invitations hold a place
+   * so the team cannot be over-invited.
+   */
+  async inviteMember(eventId: string, teamId: string, captainId: string, email: string) {
+    const event = await this.getOpenTeamEvent(eventId);
+    const team = await this.getActiveTeam(eventId, teamId);
+    const normalizedEmail = email.toLowerCase();
+
+    if (team.captainId !== captainId) {
+      throw new Error('Only the team captain can invite members');
+    }
+
+    const invitee = await db.query.users.findFirst({
+      where: eq(users.email, normalizedEmail),
+      columns: { id: true },
+    });
+
+    if (invitee) {
+      const registration = await db.query.eventRegistrations.findFirst({
+        where: and(
+          eq(eventRegistrations.eventId, eventId),
+          eq(eventRegistrations.userId, invitee.id),
+          ne(eventRegistrations.status, 'cancelled')
+        ),
+        columns: { teamId: true },
+      });
+
+      if (registration) {
+        throw new Error(
+          registration.teamId === teamId
+            ? 'This person is already in the team'
+            : 'This person is already registered for this event'
+        );
+      }
+    }
+
+    const pending = await db.query.teamInvitations.findFirst({
+      where: and(
+        eq(teamInvitations.teamId, teamId),
+        eq(teamInvitations.email, normalizedEmail),
+        eq(teamInvitations.status, 'pending')
+      ),
+      columns: { id: true },
+    });
+
+    if (pending) {
+      throw new Error('This email has already been invited');
+    }
+
+    const places = await this.countPlaces(teamId);
+
+    if (places.members + places.invitations >= event.maxTeamSize) {
+      throw new Error(`Teams can have at most ${event.maxTeamSize} members, including pending invitations`);
+    }
+
+    const [invitation] = await db
+      .insert(teamInvitations)
+      .values({ teamId, email: normalizedEmail, invitedBy: captainId })
+      .returning();
+
+    if (invitee) {
+      await notificationsService.sendTeamInvitation(invitee.id, eventId, event.title, team.id, team.name);
+    }
+
+    await sendEmail({
+      to: normalizedEmail,
+      subject: `You're invited to join ${team.name} for ${event.title}`,
+      text: [
+        `You have been invited to join team "${team.name}" for "${event.title}".`,
+        '',
+        `Sign in with this email address to accept or decline the invitation:`,
+        `${config.frontend.url}/events/${eventId}/teams/${teamId}`,
+      ].join('\n'),
+    });
+
+    log.info(`Invitation ${invitation.id} to team ${teamId} sent to ${normalizedEmail}`);
+    return invitation;
+  }
+
+  /**
+   * Withdraw a pending invitation, freeing its place
+   */
+  async revokeInvitation(eventId: string, teamId: string, captainId: string, invitationId: string) {
+    const team = await this.getActiveTeam(eventId, teamId);
+
+    if (team.captainId !== captainId) {
+      throw new Error('Only the team captain can revoke invitations');
+    }
+
+    const [revoked] = await db
+      .update(teamInvitations)
+      .set({ status: 'revoked', respondedAt: new Date() })
+      .where(
+        and(
+          eq(teamInvitations.id, invitationId),
+          eq(teamInvitations.teamId, teamId),
+          eq(teamInvitations.status, 'pending')
+        )
+      )
+      .returning();
+
+    if (!revoked) {
+      throw new Error('Invitation not found');
+    }
+
+    log.info(`Invitation ${invitationId} to team ${teamId} revoked`);
+  }
+
+  /**
+   * Accept or decline the invitation addressed to the signed-in user's email.
+   * Accepting issues the member's own ticket.
+   */
+  async respondToInvitation(
+    eventId: string,
+    teamId: string,
+    user: AuthUser,
+    accept: boolean,
+    input: AcceptTeamInvitationInput = {}
+  ) {
+    const invitation = await db.query.teamInvitations.findFirst({
+      where: and(
+        eq(teamInvitations.teamId, teamId),
+        eq(teamInvitations.email, user.email.toLowerCase()),
+        eq(teamInvitations.status, 'pending')
+      ),
+    });
+
+    if (!invitation) {
+      throw new Error('Invitation not found');
+    }
+
+    if (!accept) {
+      await db
+        .update(teamInvitations)
+        .set({ status: 'declined', respondedAt: new Date() })
+        .where(eq(teamInvitations.id, invitation.id));
+
+      log.info(`User ${user.id} declined invitation to team ${teamId}`);
+      return null;
+    }
+
+    const event = await this.getOpenTeamEvent(eventId);
+    await this.getActiveTeam(eventId, teamId);
+
+    // The invitation already holds a place, so only current members count here
+    const places = await this.countPlaces(teamId);
+
+    if (places.members >= event.maxTeamSize) {
+      throw new Error('The team is full');
+    }
+
+    const registration = await this.addMember(event, teamId, user.id, input);
+
+    await db
+      .update(teamInvitations)
+      .set({ status: 'accepted', respondedAt: new Date() })
+      .where(eq(teamInvitations.id, invitation.id));
+
+    log.info(`User ${user.id} joined team ${teamId} for event ${eventId}`);
+    return registration;
+  }
+
+  /**
+   * Remove a member from a team. Members can leave on their own; the
+   * captain can remove anyone but themselves.
+   */
+  async removeMember(eventId: string, teamId: string, actorId: string, memberId: string) {
+    const team = await this.getActiveTeam(eventId, teamId);
+
+    if (actorId !== memberId && actorId !== team.captainId) {
+      throw new Error('Only the team captain can remove members');
+    }
+
+    if (memberId === team.captainId) {
+      throw new Error('The captain cannot leave the team; cancel the team instead');
+    }
+
+    const registration = await db.query.eventRegistrations.findFirst({
+      where: and(
+        eq(eventRegistrations.teamId, teamId),
+        eq(eventRegistrations.userId, memberId),
+        inArray(eventRegistrations.status, memberStatuses)
+      ),
+      columns: { id: true, ticketTypeId: true },
+    });
+
+    if (!registration) {
+      throw new Error('Member not found');
+    }
+
+    await db
+      .update(eventRegistrations)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(eq(eventRegistrations.id, registration.id));
+
+    await sessionsService.releaseRegistrationSessions(registration.id);
+
+    if (registration.ticketTypeId) {
+      await ticketsService.adjustParticipants(registration.ticketTypeId, -1);
+    }
+
+    log.info(`User ${memberId} removed from team ${teamId} by ${actorId}`);
+  }
+
+  /**
+   * Cancel a team: every member's registration is cancelled and the team's
+   * place in the event is freed
+   */
+  async cancelTeam(eventId: string, teamId: string, actorId: string) {
+    const team = await this.getActiveTeam(eventId, teamId);
+
+    if (team.captainId !== actorId) {
+      throw new Error('Only the team captain can cancel the team');
+    }
+
+    await db
+      .update(teams)
+      .set({ cancelledAt: new Date(), updatedAt: new Date() })
+      .where(eq(teams.id, teamId));
+
+    const cancelled = await db
+      .update(eventRegistrations)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(eventRegistrations.teamId, teamId), inArray(eventRegistrations.status, memberStatuses)))
+      .returning({ id: eventRegistrations.id, ticketTypeId: eventRegistrations.ticketTypeId });
+
+    for (const registration of cancelled) {
+      await sessionsService.releaseRegistrationSessions(registration.id);
+
+      if (registration.ticketTypeId) {
+        await ticketsService.adjustParticipants(registration.ticketTypeId, -1);
+      }
+    }
+
+    await db
+      .update(teamInvitations)
+      .set({ status: 'revoked', respondedAt: new Date() })
+      .where(and(eq(teamInvitations.teamId, teamId), eq(teamInvitations.status, 'pending')));
+
+    await db
+      .update(events)
+      .set({
+        currentParticipants: sql`${events.currentParticipants} - 1`,
+      })
+      .where(eq(events.id, eventId));
+
+    log.info(`Team ${teamId} cancelled for event ${eventId}`);
+    return { cancelled: cancelled.length };
+  }
+
+  /**
+   * Check in every confirmed member of a team at once
+   */
+  async checkInTeam(eventId: string, teamId: string, checkInBy: string) {
+    const team = await this.getActiveTeam(eventId, teamId);
+    const now = new Date();
+
+    const checkedIn = await db
+      .update(eventRegistrations)
+      .set({
+        status: 'attended',
+        checkedInAt: now,
+        checkedInBy: checkInBy,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(eventRegistrations.teamId, teamId),
+          eq(eventRegistrations.status, 'confirmed'),
+          isNull(eventRegistrations.checkedInAt)
+        )
+      )
+      .returning({
+        id: eventRegistrations.id,
+        userId: eventRegistrations.userId,
+        ticketNumber: eventRegistrations.ticketNumber,
+      });
+
+    if (checkedIn.length === 0) {
+      throw new Error('All team members are already checked in');
+    }
+
+    await checkInService.recordAttendance(
+      eventId,
+      checkedIn.map((member) => ({
+        eventId,
+        registrationId: member.id,
+        type: 'check_in' as const,
+        scannedAt: now,
+        scannedBy: checkInBy,
+      }))
+    );
+
+    log.info(`Team ${teamId} checked in for event ${eventId}: ${checkedIn.length} member(s)`);
+    return { team: { id: team.id, name: team.name }, checkedIn };
+  }
+}
+
+export const teamsService = new TeamsService();
@@ -0,0 +1,3 @@
+export { ticketsController, ticketSigningController } from './tickets.controller';
+export { ticketsService } from './tickets.service';
+export * from './tickets.schema';
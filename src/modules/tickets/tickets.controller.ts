@@ -0,0 +1,180 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { ticketsService } from './tickets.service';
+import { createTicketTypeSchema, updateTicketTypeSchema } from './tickets.schema';
+import { eventsService, publicEventStatuses } from '../events/events.service';
+import { auth, optionalAuth } from '../../middleware/auth';
+import { hasEventPermission, requireEventPermission } from '../../middleware/rbac';
+import { success, error, successMessage, notFound } from '../../utils/response';
+import { getTicketPublicKey } from '../../utils/ticket-signing';
+import { encodeQr, renderQrPng, renderQrSvg } from '../../utils/qr';
+import type { AuthUser } from '../../types';
+import type { Env } from '../../types/hono';
+
+// Mounted under /events, next to the events controller
+const ticketsController = new Hono<Env>();
+
+/**
+ * GET /events/:id/ticket-types
+ * Get an event's ticket types with remaining seats; signed-in users also see their eligibility
+ */
+ticketsController.get('/:id/ticket-types', optionalAuth(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser | undefined;
+
+    const event = await eventsService.getEventById(id);
+
+    if (
+      !event ||
+      (!publicEventStatuses.includes(event.status) &&
+        (!user || !(await hasEventPermission(user, event, 'view'))))
+    ) {
+      return notFound(c, 'Event not found');
+    }
+
+    const ticketTypes = await ticketsService.listTicketTypes(id, user?.id);
+    return success(c, ticketTypes);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get ticket types';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * POST /events/:id/ticket-types
+ * Add a ticket type (organizer, co-organizer or admin)
+ */
+ticketsController.post(
+  '/:id/ticket-types',
+  auth(),
+  requireEventPermission('update'),
+  zValidator('json', createTicketTypeSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const input = c.req.valid('json');
+
+      const ticketType = await ticketsService.createTicketType(id, input);
+      return success(c, ticketType, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create ticket type';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * PATCH /events/:id/ticket-types/:ticketTypeId
+ * Update a ticket type (organizer, co-organizer or admin)
+ */
+ticketsController.patch(
+  '/:id/ticket-types/:ticketTypeId',
+  auth(),
+  requireEventPermission('update'),
+  zValidator('json', updateTicketTypeSchema),
+  async (c) => {
+    try {
+      const { id, ticketTypeId } = c.req.param();
+      const input = c.req.valid('json');
+
+      const updated = await ticketsService.updateTicketType(id, ticketTypeId, input);
+      return success(c, updated);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update ticket type';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * DELETE /events/:id/ticket-types/:ticketTypeId
+ * Delete a ticket type without registrations (organizer, co-organizer or admin)
+ */
+ticketsController.delete(
+  '/:id/ticket-types/:ticketTypeId',
+  auth(),
+  requireEventPermission('update'),
+  async (c) => {
+    try {
+      const { id, ticketTypeId } = c.req.param();
+
+      await ticketsService.deleteTicketType(id, ticketTypeId);
+      return successMessage(c, 'Ticket type deleted successfully');
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete ticket type';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * GET /events/:id/registrations/me/ticket
+ * Download the current user's ticket as a printable PDF
+ */
+ticketsController.get('/:id/registrations/me/ticket', auth(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const ticket = await ticketsService.getUserTicket(id, user.id);
+
+    if (!ticket) {
+      return notFound(c, 'Ticket not found');
+    }
+
+    return c.body(new Uint8Array(ticketsService.renderTicketPdf(ticket)), 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="ticket-${ticket.ticketNumber}.pdf"`,
+      'Cache-Control': 'private, no-store',
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to generate ticket';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /events/:id/registrations/me/qr.png
+ * GET /events/:id/registrations/me/qr.svg
+ * Get the current user's ticket QR code as an image
+ */
+ticketsController.get('/:id/registrations/me/:file{qr\\.(?:png|svg)}', auth(), async (c) => {
+  try {
+    const { id, file } = c.req.param();
+    const user = c.get('user') as AuthUser;
+
+    const ticket = await ticketsService.getUserTicket(id, user.id);
+
+    if (!ticket) {
+      return notFound(c, 'Ticket not found');
+    }
+
+    const matrix = encodeQr(ticket.qrCode!);
+    const headers = { 'Cache-Control': 'private, no-store' };
+
+    if (file === 'qr.svg') {
+      return c.body(renderQrSvg(matrix), 200, { ...headers, 'Content-Type': 'image/svg+xml' });
+    }
+
+    return c.body(new Uint8Array(renderQrPng(matrix)), 200, { ...headers, 'Content-Type': 'image/png' });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to generate QR code';
+    return error(c, message, 400);
+  }
+});
+
+// ==================== TICKET SIGNING ====================
+
+/**
+ * GET /tickets/public-key
+ * Get the key that signs ticket QR codes, for offline verification by scanners (public)
+ */
+const ticketSigningController = new Hono<Env>();
+
+ticketSigningController.get('/public-key', (c) => {
+  c.header('Cache-Control', 'public, max-age=3600');
+  return success(c, { keys: [getTicketPublicKey()] });
+});
+
+export { ticketsController, ticketSigningController };
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+// Ticket type fields
+const ticketTypeFieldsSchema = z.object({
+  name: z
+    .string()
+    .min(2, 'Name must be at least 2 characters')
+    .max(100, 'Name must be at most 100 characters'),
+  description: z.string().max(1000).optional(),
+  quota: z.number().int().positive('Quota must be positive'),
+  salesStartAt: z.string().datetime({ message: 'Invalid sales start date' }).nullable().optional(),
+  salesEndAt: z.string().datetime({ message: 'Invalid sales end date' }).nullable().optional(),
+  allowedRoles: z.array(z.enum(['student', 'organizer', 'admin'])).optional(),
+  allowedFacultyIds: z.array(z.string().uuid('Invalid faculty ID')).max(50).optional(),
+  allowedEmailDomains: z
+    .array(
+      z
+        .string()
+        .toLowerCase()
+        .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Invalid email domain')
+    )
+    .max(20)
+    .optional(),
+  sortOrder: z.number().int().min(0).optional(),
+});
+
+// Sales window check shared by create and update
+function validateSalesWindow(
+  data: { salesStartAt?: string | null; salesEndAt?: string | null },
+  ctx: z.RefinementCtx
+) {
+  if (data.salesStartAt && data.salesEndAt && new Date(data.salesEndAt) <= new Date(data.salesStartAt)) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Sales must end after they start',
+      path: ['salesEndAt'],
+    });
+  }
+}
+
+// Create ticket type schema
+export const createTicketTypeSchema = ticketTypeFieldsSchema.superRefine(validateSalesWindow);
+
+// Update ticket type schema
+export const updateTicketTypeSchema = ticketTypeFieldsSchema.partial().superRefine(validateSalesWindow);
+
+// Types
+export type CreateTicketTypeInput = z.infer<typeof createTicketTypeSchema>;
+export type UpdateTicketTypeInput = z.infer<typeof updateTicketTypeSchema>;
@@ -0,0 +1,409 @@
+import { eq, and, asc, count, sql, inArray } from 'drizzle-orm';
+import { db, events, users, ticketTypes, eventRegistrations } from '../../db';
+import { config } from '../../config';
+import { log } from '../../middleware/logger';
+import { encodeQr } from '../../utils/qr';
+import { buildPdf, wrapText, estimateTextWidth } from '../../utils/pdf';
+import type { PdfText, PdfRect } from '../../utils/pdf';
+import type { CreateTicketTypeInput, UpdateTicketTypeInput } from './tickets.schema';
+import type { UserRole } from '../../types';
+
+type TicketType = typeof ticketTypes.$inferSelect;
+
+// A6 portrait, in points
+const TICKET_PAGE = { width: 298, height: 420, margin: 24 };
+
+// Guests have no role or faculty, so only email domain rules can admit them
+export interface TicketHolder {
+  role: UserRole | null;
+  facultyId: string | null;
+  email: string;
+}
+
+/**
+ * Convert an optional ISO date from the API to a column value
+ */
+function toDate(value?: string | null) {
+  return value ? new Date(value) : null;
+}
+
+export class TicketsService {
+  /**
+   * Check whether a user meets a ticket type's eligibility rules
+   */
+  isEligible(ticketType: TicketType, holder: TicketHolder) {
+    if (ticketType.allowedRoles?.length && (!holder.role || !ticketType.allowedRoles.includes(holder.role))) {
+      return false;
+    }
+
+    if (
+      ticketType.allowedFacultyIds?.length &&
+      (!holder.facultyId || !ticketType.allowedFacultyIds.includes(holder.facultyId))
+    ) {
+      return false;
+    }
+
+    if (ticketType.allowedEmailDomains?.length) {
+      const domain = holder.email.split('@')[1]?.toLowerCase();
+
+      if (!domain || !ticketType.allowedEmailDomains.includes(domain)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Check whether a ticket type is within its sales window
+   */
+  isOnSale(ticketType: TicketType, now = new Date()) {
+    return (
+      (!ticketType.salesStartAt || now >= ticketType.salesStartAt) &&
+      (!ticketType.salesEndAt || now < ticketType.salesEndAt)
+    );
+  }
+
+  /**
+   * Create a ticket type for an event
+   */
+  async createTicketType(eventId: string, input: CreateTicketTypeInput) {
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, eventId),
+      columns: { id: true, maxParticipants: true },
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    if (event.maxParticipants && input.quota > event.maxParticipants) {
+      throw new Error(`Quota exceeds the event capacity (${event.maxParticipants})`);
+    }
+
+    const [ticketType] = await db
+      .insert(ticketTypes)
+      .values({
+        ...input,
+        eventId,
+        salesStartAt: toDate(input.salesStartAt),
+        salesEndAt: toDate(input.salesEndAt),
+      })
+      .returning();
+
+    log.info(`Ticket type created: ${ticketType.id} for event ${eventId}`);
+    return ticketType;
+  }
+
+  /**
+   * Get an event's ticket types in display order
+   */
+  async getEventTicketTypes(eventId: string) {
+    return db.query.ticketTypes.findMany({
+      where: eq(ticketTypes.eventId, eventId),
+      orderBy: [asc(ticketTypes.sortOrder), asc(ticketTypes.createdAt)],
+    });
+  }
+
+  /**
+   * List ticket types with remaining seats and, for a signed-in user, eligibility
+   */
+  async listTicketTypes(eventId: string, userId?: string) {
+    const [types, holder] = await Promise.all([
+      this.getEventTicketTypes(eventId),
+      userId ? this.getHolder(userId) : null,
+    ]);
+    const now = new Date();
+
+    return types.map((ticketType) => ({
+      ...ticketType,
+      remaining: Math.max(0, ticketType.quota - ticketType.currentParticipants),
+      isOnSale: this.isOnSale(ticketType, now),
+      ...(holder && { isEligible: this.isEligible(ticketType, holder) }),
+    }));
+  }
+
+  /**
+   * Get ticket type by ID within an event
+   */
+  async getTicketTypeById(eventId: string, ticketTypeId: string) {
+    return db.query.ticketTypes.findFirst({
+      where: and(eq(ticketTypes.id, ticketTypeId), eq(ticketTypes.eventId, eventId)),
+    });
+  }
+
+  /**
+   * Update a ticket type
+   */
+  async updateTicketType(eventId: string, ticketTypeId: string, input: UpdateTicketTypeInput) {
+    const ticketType = await this.getTicketTypeById(eventId, ticketTypeId);
+
+    if (!ticketType) {
+      throw new Error('Ticket type not found');
+    }
+
+    if (input.quota !== undefined && input.quota < ticketType.currentParticipants) {
+      throw new Error('Quota cannot be lower than the number of tickets already issued');
+    }
+
+    const salesStartAt =
+      input.salesStartAt !== undefined ? toDate(input.salesStartAt) : ticketType.salesStartAt;
+    const salesEndAt = input.salesEndAt !== undefined ? toDate(input.salesEndAt) : ticketType.salesEndAt;
+
+    if (salesStartAt && salesEndAt && salesEndAt <= salesStartAt) {
+      throw new Error('Sales must end after they start');
+    }
+
+    const [updated] = await db
+      .update(ticketTypes)
+      .set({
+        ...input,
+        salesStartAt,
+        salesEndAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(ticketTypes.id, ticketTypeId))
+      .returning();
+
+    log.info(`Ticket type updated: ${ticketTypeId}`);
+    return updated;
+  }
+
+  /**
+   * Delete a ticket type nobody registered with
+   */
+  async deleteTicketType(eventId: string, ticketTypeId: string) {
+    const ticketType = await this.getTicketTypeById(eventId, ticketTypeId);
+
+    if (!ticketType) {
+      throw new Error('Ticket type not found');
+    }
+
+    const [usage] = await db
+      .select({ count: count() })
+      .from(eventRegistrations)
+      .where(eq(eventRegistrations.ticketTypeId, ticketTypeId));
+
+    if (usage.count > 0) {
+      throw new Error('This ticket type has registrations; lower its quota or close its sales instead');
+    }
+
+    await db.delete(ticketTypes).where(eq(ticketTypes.id, ticketTypeId));
+    log.info(`Ticket type deleted: ${ticketTypeId}`);
+  }
+
+  /**
+   * Resolve the ticket type a user (by ID) or guest registers with. Events without
+   * ticket types return null; otherwise the type must be on sale and the holder eligible for it.
+   */
+  async resolveForRegistration(eventId: string, holder: string | TicketHolder, ticketTypeId?: string) {
+    const types = await this.getEventTicketTypes(eventId);
+
+    if (types.length === 0) {
+      if (ticketTypeId) {
+        throw new Error('This event does not have ticket types');
+      }
+      return null;
+    }
+
+    if (!ticketTypeId) {
+      throw new Error('Choose a ticket type');
+    }
+
+    const ticketType = types.find((type) => type.id === ticketTypeId);
+
+    if (!ticketType) {
+      throw new Error('Ticket type not found');
+    }
+
+    if (!this.isOnSale(ticketType)) {
+      throw new Error(`"${ticketType.name}" tickets are not on sale`);
+    }
+
+    if (!this.isEligible(ticketType, typeof holder === 'string' ? await this.getHolder(holder) : holder)) {
+      throw new Error(`You are not eligible for "${ticketType.name}" tickets`);
+    }
+
+    return ticketType;
+  }
+
+  /**
+   * Get the user fields eligibility rules look at
+   */
+  private async getHolder(userId: string): Promise<TicketHolder> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { role: true, facultyId: true, email: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Change the number of tickets issued for a type
+   */
+  async adjustParticipants(ticketTypeId: string, by: number) {
+    await db
+      .update(ticketTypes)
+      .set({
+        currentParticipants: sql`${ticketTypes.currentParticipants} + ${by}`,
+      })
+      .where(eq(ticketTypes.id, ticketTypeId));
+  }
+
+  /**
+   * Registrations and check-ins per ticket type; with a minimum attendance,
+   * only check-ins that stayed long enough count as attended
+   */
+  async getTicketTypeStats(eventId: string, minAttendanceSeconds: number | null = null) {
+    const attendedFilter = minAttendanceSeconds === null
+      ? sql`${eventRegistrations.status} = 'attended'`
+      : sql`${eventRegistrations.status} = 'attended' AND ${eventRegistrations.attendanceSeconds} >= ${minAttendanceSeconds}`;
+
+    return db
+      .select({
+        id: ticketTypes.id,
+        name: ticketTypes.name,
+        quota: ticketTypes.quota,
+        issued: ticketTypes.currentParticipants,
+        pending: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'pending')`,
+        confirmed: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'confirmed')`,
+        checkedIn: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'attended')`,
+        attended: sql<number>`COUNT(*) FILTER (WHERE ${attendedFilter})`,
+        cancelled: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'cancelled')`,
+        waitlisted: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'waitlisted')`,
+        noShows: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'no_show')`,
+        rejected: sql<number>`COUNT(*) FILTER (WHERE ${eventRegistrations.status} = 'rejected')`,
+      })
+      .from(ticketTypes)
+      .leftJoin(eventRegistrations, eq(eventRegistrations.ticketTypeId, ticketTypes.id))
+      .where(eq(ticketTypes.eventId, eventId))
+      .groupBy(ticketTypes.id)
+      .orderBy(asc(ticketTypes.sortOrder), asc(ticketTypes.createdAt));
+  }
+
+  /**
+   * Get the current user's ticket for an event; only confirmed and attended
+   * registrations have a valid one
+   */
+  async getUserTicket(eventId: string, userId: string) {
+    const registration = await db.query.eventRegistrations.findFirst({
+      where: and(
+        eq(eventRegistrations.eventId, eventId),
+        eq(eventRegistrations.userId, userId),
+        inArray(eventRegistrations.status, ['confirmed', 'attended'])
+      ),
+      with: {
+        event: true,
+        user: {
+          columns: {
+            firstName: true,
+            lastName: true,
+          },
+        },
+        ticketType: {
+          columns: {
+            name: true,
+          },
+        },
+        team: {
+          columns: {
+            name: true,
+          },
+        },
+      },
+    });
+
+    if (!registration?.qrCode || !registration.ticketNumber) {
+      return null;
+    }
+
+    return registration;
+  }
+
+  /**
+   * Lay out a printable ticket: event details on top, the QR code below
+   */
+  renderTicketPdf(ticket: NonNullable<Awaited<ReturnType<TicketsService['getUserTicket']>>>) {
+    const { event } = ticket;
+    const { width, height, margin } = TICKET_PAGE;
+    const contentWidth = width - margin * 2;
+    const texts: PdfText[] = [];
+    const rects: PdfRect[] = [{ x: 0, y: height - 40, width, height: 40 }];
+    let y = height - 26;
+
+    texts.push({ x: margin, y, size: 11, text: 'USV EVENTS - TICKET', bold: true, gray: 1 });
+    y -= 42;
+
+    for (const line of wrapText(event.title, 16, contentWidth, true).slice(0, 3)) {
+      texts.push({ x: margin, y, size: 16, text: line, bold: true });
+      y -= 20;
+    }
+
+    const formatDate = new Intl.DateTimeFormat('en-GB', {
+      dateStyle: 'full',
+      timeStyle: 'short',
+      timeZone: config.calendar.timeZone,
+    });
+    const location = event.isOnline
+      ? event.onlineLink ?? event.location
+      : [event.location, event.address].filter(Boolean).join(', ');
+    const fields: [string, string][] = [
+      ['Date', `${formatDate.format(event.startDate)} - ${formatDate.format(event.endDate)}`],
+      ['Location', location],
+      ['Attendee', `${ticket.user?.firstName ?? ''} ${ticket.user?.lastName ?? ''}`.trim()],
+      ['Ticket', ticket.ticketNumber!],
+    ];
+
+    if (ticket.ticketType) {
+      fields.push(['Ticket type', ticket.ticketType.name]);
+    }
+    if (ticket.team) {
+      fields.push(['Team', ticket.team.name]);
+    }
+
+    y -= 4;
+    for (const [label, value] of fields) {
+      texts.push({ x: margin, y, size: 7, text: label.toUpperCase(), gray: 0.4 });
+      y -= 11;
+
+      for (const line of wrapText(value, 9, contentWidth).slice(0, 2)) {
+        texts.push({ x: margin, y, size: 9, text: line });
+        y -= 11;
+      }
+
+      y -= 4;
+    }
+
+    // The QR code fills the rest of the page, including its quiet zone
+    const matrix = encodeQr(ticket.qrCode!);
+    const qrSize = Math.min(contentWidth, y - margin - 14);
+    const moduleSize = qrSize / (matrix.length + 8);
+    const qrX = (width - qrSize) / 2 + moduleSize * 4;
+    const qrTop = y - moduleSize * 4;
+
+    matrix.forEach((row, my) => {
+      row.forEach((dark, mx) => {
+        if (dark) {
+          rects.push({
+            x: qrX + mx * moduleSize,
+            y: qrTop - (my + 1) * moduleSize,
+            width: moduleSize,
+            height: moduleSize,
+          });
+        }
+      });
+    });
+
+    const note = 'Present this code at the entrance';
+    texts.push({ x: (width - estimateTextWidth(note, 7)) / 2, y: margin, size: 7, text: note, gray: 0.4 });
+
+    return buildPdf({ width, height, title: `${event.title} - ${ticket.ticketNumber}`, texts, rects });
+  }
+}
+
+export const ticketsService = new TicketsService();
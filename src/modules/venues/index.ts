@@ -0,0 +1,3 @@
+export { venuesController } from './venues.controller';
+export { venuesService, VenueConflictError } from './venues.service';
+export * from './venues.schema';
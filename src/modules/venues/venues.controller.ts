@@ -0,0 +1,141 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { venuesService } from './venues.service';
+import {
+  createVenueSchema,
+  updateVenueSchema,
+  listVenuesQuerySchema,
+  venueAvailabilityQuerySchema,
+} from './venues.schema';
+import { auth } from '../../middleware/auth';
+import { requireAdmin } from '../../middleware/rbac';
+import { success, error, successMessage, paginated, notFound } from '../../utils/response';
+import type { Env } from '../../types/hono';
+
+const venuesController = new Hono<Env>();
+
+/**
+ * GET /venues
+ * List rooms (public)
+ */
+venuesController.get('/', zValidator('query', listVenuesQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid('query');
+    const result = await venuesService.listVenues(query);
+    return paginated(c, result.data, result.page, result.limit, result.total);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to list venues';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /venues/:id
+ * Get room details (public)
+ */
+venuesController.get('/:id', async (c) => {
+  try {
+    const { id } = c.req.param();
+    const venue = await venuesService.getVenueById(id);
+
+    if (!venue) {
+      return notFound(c, 'Venue not found');
+    }
+
+    return success(c, venue);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to get venue';
+    return error(c, message, 400);
+  }
+});
+
+/**
+ * GET /venues/:id/availability
+ * Get a room's pending and approved bookings in a time range (authenticated)
+ */
+venuesController.get(
+  '/:id/availability',
+  auth(),
+  zValidator('query', venueAvailabilityQuerySchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const { from, to } = c.req.valid('query');
+      const availability = await venuesService.getAvailability(id, new Date(from), new Date(to));
+
+      if (!availability) {
+        return notFound(c, 'Venue not found');
+      }
+
+      return success(c, availability);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to get availability';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * POST /venues
+ * Add a room to a faculty's registry (admin only)
+ */
+venuesController.post(
+  '/',
+  auth(),
+  requireAdmin(),
+  zValidator('json', createVenueSchema),
+  async (c) => {
+    try {
+      const input = c.req.valid('json');
+      const venue = await venuesService.createVenue(input);
+      return success(c, venue, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create venue';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * PATCH /venues/:id
+ * Update a room (admin only)
+ */
+venuesController.patch(
+  '/:id',
+  auth(),
+  requireAdmin(),
+  zValidator('json', updateVenueSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.param();
+      const input = c.req.valid('json');
+      const updated = await venuesService.updateVenue(id, input);
+
+      if (!updated) {
+        return notFound(c, 'Venue not found');
+      }
+
+      return success(c, updated);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update venue';
+      return error(c, message, 400);
+    }
+  }
+);
+
+/**
+ * DELETE /venues/:id
+ * Delete a room no event uses (admin only)
+ */
+venuesController.delete('/:id', auth(), requireAdmin(), async (c) => {
+  try {
+    const { id } = c.req.param();
+    await venuesService.deleteVenue(id);
+    return successMessage(c, 'Venue deleted successfully');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to delete venue';
+    return error(c, message, 400);
+  }
+});
+
+export { venuesController };
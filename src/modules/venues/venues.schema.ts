@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { validateCoordinates } from '../events/events.schema';
+
+// Venue fields
+const venueFieldsSchema = z.object({
+  facultyId: z.string().uuid('Invalid faculty ID'),
+  name: z
+    .string()
+    .min(2, 'Name must be at least 2 characters')
+    .max(255, 'Name must be at most 255 characters'),
+  building: z.string().max(255).optional(),
+  address: z.string().max(500).optional(),
+  capacity: z.number().int().positive('Capacity must be positive'),
+  equipment: z.array(z.string().max(50)).max(50).optional(),
+  accessibility: z.array(z.string().max(50)).max(20).optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+});
+
+// Create venue schema
+export const createVenueSchema = venueFieldsSchema.superRefine(validateCoordinates);
+
+// Update venue schema
+export const updateVenueSchema = venueFieldsSchema
+  .partial()
+  .extend({
+    isActive: z.boolean().optional(),
+  })
+  .superRefine(validateCoordinates);
+
+// List venues query schema
+export const listVenuesQuerySchema = z.object({
+  page: z.string().optional().default('1'),
+  limit: z.string().optional().default('20'),
+  facultyId: z.string().uuid().optional(),
+  minCapacity: z.string().regex(/^\d+$/, 'Capacity must be a number').optional(),
+  equipment: z.string().optional(), // Comma-separated, all required
+  accessibility: z.string().optional(), // Comma-separated, all required
+  search: z.string().optional(),
+  includeInactive: z.enum(['true', 'false']).optional(),
+});
+
+// Room availability query schema
+export const venueAvailabilityQuerySchema = z
+  .object({
+    from: z.string().datetime({ message: 'Invalid from date' }),
+    to: z.string().datetime({ message: 'Invalid to date' }),
+  })
+  .refine((data) => new Date(data.to) > new Date(data.from), {
+    message: 'The end of the range must be after its start',
+    path: ['to'],
+  })
+  .refine((data) => new Date(data.to).getTime() - new Date(data.from).getTime() <= 92 * 24 * 60 * 60 * 1000, {
+    message: 'The range can span at most 92 days',
+    path: ['to'],
+  });
+
+// Types
+export type CreateVenueInput = z.infer<typeof createVenueSchema>;
+export type UpdateVenueInput = z.infer<typeof updateVenueSchema>;
+export type ListVenuesQuery = z.infer<typeof listVenuesQuerySchema>;
+export type VenueAvailabilityQuery = z.infer<typeof venueAvailabilityQuerySchema>;
@@ -0,0 +1,265 @@
+import { eq, and, or, ne, gt, lt, gte, ilike, asc, count, inArray, sql } from 'drizzle-orm';
+import { db, venues, events, faculties } from '../../db';
+import { log } from '../../middleware/logger';
+import { parsePagination } from '../../utils/pagination';
+import type { CreateVenueInput, UpdateVenueInput, ListVenuesQuery } from './venues.schema';
+import type { EventStatus } from '../../types';
+
+// Statuses that hold a room booking; drafts only reserve it once submitted
+export const bookingEventStatuses: EventStatus[] = ['pending', 'approved'];
+
+/**
+ * Thrown when an event would overlap another booking of the same room
+ */
+export class VenueConflictError extends Error {
+  constructor(
+    message: string,
+    public readonly conflicts: { id: string; title: string; startDate: Date; endDate: Date }[]
+  ) {
+    super(message);
+    this.name = 'VenueConflictError';
+  }
+}
+
+interface RoomBooking {
+  venueId: string;
+  startDate: Date;
+  endDate: Date;
+  excludeEventId?: string;
+}
+
+/**
+ * Split a comma-separated filter into trimmed values
+ */
+function parseList(value?: string) {
+  return value
+    ? value.split(',').map((item) => item.trim()).filter(Boolean)
+    : [];
+}
+
+export class VenuesService {
+  /**
+   * Create a venue
+   */
+  async createVenue(input: CreateVenueInput) {
+    const faculty = await db.query.faculties.findFirst({
+      where: eq(faculties.id, input.facultyId),
+      columns: { id: true },
+    });
+
+    if (!faculty) {
+      throw new Error('Faculty not found');
+    }
+
+    const [venue] = await db
+      .insert(venues)
+      .values(input)
+      .returning();
+
+    log.info(`Venue created: ${venue.id} (${venue.name})`);
+    return venue;
+  }
+
+  /**
+   * Get venue by ID
+   */
+  async getVenueById(venueId: string) {
+    return db.query.venues.findFirst({
+      where: eq(venues.id, venueId),
+      with: {
+        faculty: true,
+      },
+    });
+  }
+
+  /**
+   * List venues with filters
+   */
+  async listVenues(query: ListVenuesQuery) {
+    const { page, limit, offset } = parsePagination(query.page, query.limit);
+    const conditions = [];
+
+    if (query.includeInactive !== 'true') {
+      conditions.push(eq(venues.isActive, true));
+    }
+    if (query.facultyId) {
+      conditions.push(eq(venues.facultyId, query.facultyId));
+    }
+    if (query.minCapacity) {
+      conditions.push(gte(venues.capacity, parseInt(query.minCapacity, 10)));
+    }
+
+    const equipment = parseList(query.equipment);
+    if (equipment.length > 0) {
+      conditions.push(sql`${venues.equipment} @> ${JSON.stringify(equipment)}::jsonb`);
+    }
+
+    const accessibility = parseList(query.accessibility);
+    if (accessibility.length > 0) {
+      conditions.push(sql`${venues.accessibility} @> ${JSON.stringify(accessibility)}::jsonb`);
+    }
+
+    if (query.search) {
+      conditions.push(
+        or(
+          ilike(venues.name, `%${query.search}%`),
+          ilike(venues.building, `%${query.search}%`)
+        )
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [data, totalResult] = await Promise.all([
+      db.query.venues.findMany({
+        where: whereClause,
+        limit,
+        offset,
+        orderBy: [asc(venues.name)],
+        with: {
+          faculty: true,
+        },
+      }),
+      db.select({ count: count() }).from(venues).where(whereClause),
+    ]);
+
+    return {
+      data,
+      total: totalResult[0]?.count || 0,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Update venue
+   */
+  async updateVenue(venueId: string, input: UpdateVenueInput) {
+    const [updated] = await db
+      .update(venues)
+      .set({
+        ...input,
+        updatedAt: new Date(),
+      })
+      .where(eq(venues.id, venueId))
+      .returning();
+
+    log.info(`Venue updated: ${venueId}`);
+    return updated;
+  }
+
+  /**
+   * Delete a venue that no event references
+   */
+  async deleteVenue(venueId: string) {
+    const [usage] = await db
+      .select({ count: count() })
+      .from(events)
+      .where(eq(events.venueId, venueId));
+
+    if (usage.count > 0) {
+      throw new Error('This venue is used by events; deactivate it instead');
+    }
+
+    await db.delete(venues).where(eq(venues.id, venueId));
+    log.info(`Venue deleted: ${venueId}`);
+  }
+
+  /**
+   * Ensure a venue can host an event: it exists, is active and fits the capacity
+   */
+  async assertVenueUsable(venueId: string, maxParticipants?: number | null) {
+    const venue = await db.query.venues.findFirst({
+      where: eq(venues.id, venueId),
+    });
+
+    if (!venue || !venue.isActive) {
+      throw new Error('Venue not found');
+    }
+
+    if (maxParticipants && maxParticipants > venue.capacity) {
+      throw new Error(`Maximum participants exceeds the capacity of ${venue.name} (${venue.capacity})`);
+    }
+
+    return venue;
+  }
+
+  /**
+   * Get pending and approved events booked in a room that overlap a time range
+   */
+  async getBookings(venueId: string, from: Date, to: Date, excludeEventId?: string) {
+    const conditions = [
+      eq(events.venueId, venueId),
+      inArray(events.status, bookingEventStatuses),
+      lt(events.startDate, to),
+      gt(events.endDate, from),
+    ];
+
+    if (excludeEventId) {
+      conditions.push(ne(events.id, excludeEventId));
+    }
+
+    return db.query.events.findMany({
+      where: and(...conditions),
+      columns: {
+        id: true,
+        title: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+      },
+      orderBy: [asc(events.startDate)],
+    });
+  }
+
+  /**
+   * Fail with a conflict error when the room is already booked for the slot
+   */
+  async assertRoomAvailable(booking: RoomBooking) {
+    const conflicts = await this.getBookings(
+      booking.venueId,
+      booking.startDate,
+      booking.endDate,
+      booking.excludeEventId
+    );
+
+    if (conflicts.length > 0) {
+      const venue = await db.query.venues.findFirst({
+        where: eq(venues.id, booking.venueId),
+        columns: { name: true },
+      });
+      const [first] = conflicts;
+
+      throw new VenueConflictError(
+        `${venue?.name ?? 'The room'} is already booked by "${first.title}" from ${first.startDate.toISOString()} to ${first.endDate.toISOString()}`,
+        conflicts
+      );
+    }
+  }
+
+  /**
+   * Get a room's bookings in a time range
+   */
+  async getAvailability(venueId: string, from: Date, to: Date) {
+    const venue = await db.query.venues.findFirst({
+      where: eq(venues.id, venueId),
+      columns: { id: true, name: true, capacity: true, isActive: true },
+    });
+
+    if (!venue) {
+      return null;
+    }
+
+    const bookings = await this.getBookings(venueId, from, to);
+
+    return {
+      venue,
+      from,
+      to,
+      isAvailable: venue.isActive && bookings.length === 0,
+      bookings,
+    };
+  }
+}
+
+export const venuesService = new VenuesService();
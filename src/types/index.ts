@@ -1,5 +1,5 @@
 import type { Context } from 'hono';
-import type { users } from '../db/schema';
+import type { users, events } from '../db/schema';
 
 // User role type
 export type UserRole = 'student' | 'organizer' | 'admin';
@@ -11,7 +11,40 @@ export type EventStatus = 'draft' | 'pending' | 'approved' | 'rejected' | 'cance
 export type EventType = 'academic' | 'social' | 'career' | 'sports' | 'volunteering' | 'cultural' | 'workshop' | 'conference' | 'other';
 
 // Registration status type
-export type RegistrationStatus = 'pending' | 'confirmed' | 'cancelled' | 'attended';
+export type RegistrationStatus = 'pending' | 'confirmed' | 'cancelled' | 'attended' | 'waitlisted' | 'no_show' | 'rejected';
+
+// Event staff role type
+export type EventStaffRole = 'co_organizer' | 'check_in_staff' | 'viewer';
+
+// Event approval stage type
+export type ApprovalStage = 'department' | 'faculty' | 'central';
+
+// Registration form field type
+export type RegistrationFieldType = 'text' | 'choice' | 'multi_choice' | 'number' | 'checkbox';
+
+// Organizer-defined registration question
+export interface RegistrationFormField {
+  key: string;
+  label: string;
+  type: RegistrationFieldType;
+  required: boolean;
+  options?: string[]; // choice and multi_choice
+  min?: number; // number
+  max?: number; // number
+  maxLength?: number; // text
+}
+
+// Registration answers keyed by form field
+export type RegistrationAnswers = Record<string, string | number | boolean | string[]>;
+
+// Organizer-defined certificate of attendance; texts may use {{placeholders}}
+export interface CertificateTemplate {
+  enabled: boolean;
+  title: string;
+  body: string;
+  signatoryName?: string;
+  signatoryTitle?: string;
+}
 
 // Notification type
 export type NotificationType = 'event_reminder' | 'event_update' | 'registration_confirmed' | 'event_cancelled' | 'recommendation' | 'feedback_request';
@@ -102,4 +135,4 @@ export interface SortOptions {
 // Select fields type helper
 export type SelectUser = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
-
+export type SelectEvent = typeof events.$inferSelect;
@@ -0,0 +1,86 @@
+/**
+ * Attendance time from check-in, re-scan and check-out scans
+ */
+
+export type AttendanceScanType = 'check_in' | 'rescan' | 'check_out';
+
+export interface AttendanceScan {
+  type: AttendanceScanType;
+  scannedAt: Date;
+}
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Merge overlapping windows (e.g. parallel sessions) into disjoint ones
+ */
+export function mergeWindows(windows: TimeWindow[]): TimeWindow[] {
+  const sorted = windows
+    .filter((window) => window.end > window.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: TimeWindow[] = [];
+
+  for (const window of sorted) {
+    const last = merged[merged.length - 1];
+
+    if (last && window.start <= last.end) {
+      last.end = window.end > last.end ? window.end : last.end;
+    } else {
+      merged.push({ start: window.start, end: window.end });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Total length of disjoint windows in seconds
+ */
+export function windowSeconds(windows: TimeWindow[]): number {
+  return Math.floor(windows.reduce((sum, window) => sum + window.end.getTime() - window.start.getTime(), 0) / 1000);
+}
+
+/**
+ * Seconds present within the scheduled windows. A check-in opens a stay that
+ * the next check-out closes; a stay that is never closed only lasts until its
+ * last re-scan, so leaving without checking out earns no extra time.
+ */
+export function computeAttendanceSeconds(scans: AttendanceScan[], windows: TimeWindow[]): number {
+  const sorted = [...scans].sort((a, b) => a.scannedAt.getTime() - b.scannedAt.getTime());
+  const stays: TimeWindow[] = [];
+  let stay: TimeWindow | null = null;
+
+  for (const scan of sorted) {
+    if (scan.type === 'check_out') {
+      if (stay) {
+        stays.push({ start: stay.start, end: scan.scannedAt });
+        stay = null;
+      }
+    } else if (stay) {
+      stay.end = scan.scannedAt;
+    } else {
+      stay = { start: scan.scannedAt, end: scan.scannedAt };
+    }
+  }
+
+  if (stay) {
+    stays.push(stay);
+  }
+
+  let milliseconds = 0;
+
+  for (const { start, end } of stays) {
+    for (const window of windows) {
+      const overlap = Math.min(end.getTime(), window.end.getTime()) - Math.max(start.getTime(), window.start.getTime());
+
+      if (overlap > 0) {
+        milliseconds += overlap;
+      }
+    }
+  }
+
+  return Math.floor(milliseconds / 1000);
+}
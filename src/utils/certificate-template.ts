@@ -0,0 +1,48 @@
+/**
+ * Certificate templates: {{placeholder}} validation, rendering and verification codes
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { CertificateTemplate } from '../types';
+
+// Values a certificate template can insert
+export const CERTIFICATE_PLACEHOLDERS = ['name', 'event', 'date', 'location', 'hours', 'organizer'] as const;
+
+export type CertificatePlaceholder = (typeof CERTIFICATE_PLACEHOLDERS)[number];
+
+// Verification codes avoid letters that are easily confused (0/O, 1/I/L)
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+export const DEFAULT_CERTIFICATE_TEMPLATE: CertificateTemplate = {
+  enabled: true,
+  title: 'Certificate of Attendance',
+  body: 'This is to certify that {{name}} attended "{{event}}", held on {{date}} at {{location}}, for {{hours}} hours.',
+};
+
+/**
+ * Placeholders used in a text that templates do not support
+ */
+export function findUnknownPlaceholders(text: string): string[] {
+  return [...text.matchAll(PLACEHOLDER_PATTERN)]
+    .map((match) => match[1])
+    .filter((name) => !(CERTIFICATE_PLACEHOLDERS as readonly string[]).includes(name));
+}
+
+/**
+ * Replace {{placeholders}} in a template text
+ */
+export function renderCertificateText(text: string, values: Record<CertificatePlaceholder, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    name in values ? values[name as CertificatePlaceholder] : placeholder
+  );
+}
+
+/**
+ * Generate a random verification code, e.g. CERT-7KQ2-M9XD-4HPA
+ */
+export function generateCertificateCode(): string {
+  const chars = [...randomBytes(12)].map((byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  return `CERT-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+}
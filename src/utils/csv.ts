@@ -0,0 +1,90 @@
+/**
+ * CSV (RFC 4180) output that opens correctly in Excel, and parsing of files
+ * saved by spreadsheets
+ */
+
+// Excel reads a file as UTF-8 (keeping diacritics such as ă, ș, ț) only when it starts with a BOM
+const UTF8_BOM = '\ufeff';
+
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * Quote a value when needed. Text that a spreadsheet would run as a formula
+ * gets a leading apostrophe; plain numbers are left alone.
+ */
+function escapeCsvValue(value: CsvValue) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+
+  if (/^[=+\-@\t\r]/.test(text) && !/^[-+]?\d+(\.\d+)?$/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document from rows of values, the first row being the header
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return UTF8_BOM + rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV text into rows of values. The delimiter is detected from the
+ * first line, since Excel saves CSV with semicolons in locales such as
+ * Romanian; blank lines are kept so row positions match the spreadsheet.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(value);
+    rows.push(row);
+    row = [];
+    value = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+
+  if (value !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,8 @@
+/**
+ * Check whether a query failed on a unique constraint or index (Postgres error 23505)
+ */
+export function isUniqueViolation(err: unknown, constraint: string) {
+  const cause = err instanceof Error && err.cause ? err.cause : err;
+  const pgError = cause as { code?: string; constraint?: string } | null;
+  return pgError?.code === '23505' && pgError.constraint === constraint;
+}
@@ -0,0 +1,65 @@
+/**
+ * Geographic helpers for distance filters and map bounding boxes
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  minLongitude: number;
+  maxLatitude: number;
+  maxLongitude: number;
+}
+
+export const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Parse a "lat,lng" pair
+ */
+export function parseGeoPoint(value: string): GeoPoint {
+  const [latitude, longitude] = value.split(',').map(Number);
+  return { latitude, longitude };
+}
+
+/**
+ * Parse a "minLng,minLat,maxLng,maxLat" bounding box (GeoJSON order)
+ */
+export function parseBoundingBox(value: string): BoundingBox {
+  const [minLongitude, minLatitude, maxLongitude, maxLatitude] = value.split(',').map(Number);
+  return { minLatitude, minLongitude, maxLatitude, maxLongitude };
+}
+
+/**
+ * Great-circle distance in kilometres (haversine formula)
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Smallest latitude/longitude box containing the circle around a point,
+ * used to narrow candidates before computing exact distances
+ */
+export function boundingBoxAround(center: GeoPoint, radiusKm: number): BoundingBox {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const cosLat = Math.cos(toRadians(center.latitude));
+  const lngDelta = cosLat > 1e-6 ? latDelta / cosLat : 180;
+
+  return {
+    minLatitude: Math.max(-90, center.latitude - latDelta),
+    maxLatitude: Math.min(90, center.latitude + latDelta),
+    minLongitude: Math.max(-180, center.longitude - lngDelta),
+    maxLongitude: Math.min(180, center.longitude + lngDelta),
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * iCalendar (RFC 5545) documents for event exports and calendar feeds
+ */
+
+import { formatIcsDate } from './recurrence';
+
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  startDate: Date;
+  endDate: Date;
+  lastModified: Date;
+  cancelled?: boolean;
+}
+
+const PRODUCT_ID = '-//USV Events//Events API//EN';
+
+/**
+ * Escape a TEXT property value
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to at most 75 octets, continuing with a leading space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+
+    current += char;
+    currentBytes += charBytes;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Build a VCALENDAR document. Cancelled events are kept with STATUS:CANCELLED
+ * so subscribed calendars remove them instead of keeping stale copies.
+ */
+export function buildCalendar(name: string, events: IcsEvent[]): string {
+  const now = formatIcsDate(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTAMP:${now}`,
+      `LAST-MODIFIED:${formatIcsDate(event.lastModified)}`,
+      `DTSTART:${formatIcsDate(event.startDate)}`,
+      `DTEND:${formatIcsDate(event.endDate)}`,
+      `SUMMARY:${escapeText(event.cancelled ? `Cancelled: ${event.title}` : event.title)}`,
+      `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`
+    );
+
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -3,4 +3,16 @@ export * from './jwt';
 export * from './slug';
 export * from './response';
 export * from './pagination';
-
+export * from './recurrence';
+export * from './ical';
+export * from './geo';
+export * from './mailer';
+export * from './registration-form';
+export * from './ticket-signing';
+export * from './qr';
+export * from './pdf';
+export * from './crc32';
+export * from './csv';
+export * from './xlsx';
+export * from './attendance';
+export * from './certificate-template';
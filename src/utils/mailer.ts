@@ -0,0 +1,37 @@
+import { config } from '../config';
+import { log } from '../middleware/logger';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Send a plain-text email through the Resend HTTP API. Without an API key
+ * (local development) the message is written to the log instead.
+ */
+export async function sendEmail(message: EmailMessage) {
+  if (!config.email.apiKey) {
+    log.info(`Email to ${message.to} (not sent, EMAIL_API_KEY is not set): ${message.subject}\n${message.text}`);
+    return;
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${config.email.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: config.email.from,
+      to: [message.to],
+      subject: message.subject,
+      text: message.text,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to send email (${response.status})`);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Single-page PDF (1.4) documents with text in the standard Helvetica fonts
+ * and filled rectangles, enough for printable tickets
+ */
+
+export interface PdfText {
+  x: number;
+  y: number;
+  size: number;
+  text: string;
+  bold?: boolean;
+  gray?: number; // 0 is black, 1 is white
+}
+
+export interface PdfRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  gray?: number;
+}
+
+export interface PdfPage {
+  width: number; // Points (1/72 inch); origin is the bottom left corner
+  height: number;
+  title?: string;
+  texts: PdfText[];
+  rects: PdfRect[];
+}
+
+// WinAnsiEncoding code points above Latin-1 that the standard fonts can draw
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * Encode text as WinAnsi bytes. Letters outside the encoding (such as the
+ * Romanian ș and ț) fall back to their base letter, anything else to '?'.
+ */
+function toWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+
+  for (const char of text.replace(/[\u2007\u2009\u202f]/g, ' ')) {
+    const code = char.codePointAt(0)!;
+
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      bytes.push(code);
+    } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      bytes.push(WIN_ANSI_EXTRAS[char]);
+    } else {
+      const base = char.normalize('NFD').charAt(0);
+      const baseCode = base.charCodeAt(0);
+      bytes.push(base !== char && baseCode >= 0x20 && baseCode < 0x7f ? baseCode : 0x3f);
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Encode a string operand, escaping the delimiters
+ */
+function pdfString(text: string): Buffer {
+  const escaped: number[] = [];
+
+  for (const byte of toWinAnsi(text)) {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      escaped.push(0x5c);
+    }
+    escaped.push(byte);
+  }
+
+  return Buffer.concat([Buffer.from('('), Buffer.from(escaped), Buffer.from(')')]);
+}
+
+function formatNumber(value: number) {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Approximate width of a line in points, for wrapping and centering
+ */
+export function estimateTextWidth(text: string, size: number, bold = false) {
+  return text.length * size * (bold ? 0.58 : 0.52);
+}
+
+/**
+ * Wrap text into lines that fit within a width
+ */
+export function wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+
+    if (current && estimateTextWidth(candidate, size, bold) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Build a PDF document with a single page
+ */
+export function buildPdf(page: PdfPage): Buffer {
+  const content: Buffer[] = [];
+
+  for (const rect of page.rects) {
+    content.push(
+      Buffer.from(
+        `${formatNumber(rect.gray ?? 0)} g ${[rect.x, rect.y, rect.width, rect.height].map(formatNumber).join(' ')} re f\n`
+      )
+    );
+  }
+
+  for (const text of page.texts) {
+    content.push(
+      Buffer.from(
+        `BT ${formatNumber(text.gray ?? 0)} g /${text.bold ? 'F2' : 'F1'} ${formatNumber(text.size)} Tf ` +
+          `${formatNumber(text.x)} ${formatNumber(text.y)} Td `
+      ),
+      pdfString(text.text),
+      Buffer.from(' Tj ET\n')
+    );
+  }
+
+  const stream = Buffer.concat(content);
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+    Buffer.from('<< /Type /Pages /Kids [3 0 R] /Count 1 >>'),
+    Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] ` +
+        '/Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>'
+    ),
+    Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} >>\nstream\n`),
+      stream,
+      Buffer.from('\nendstream'),
+    ]),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'),
+    Buffer.concat([Buffer.from('<< /Producer (USV Events) /Title '), pdfString(page.title ?? ''), Buffer.from(' >>')]),
+  ];
+
+  // Binary comment line marks the file as containing 8-bit data
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+
+  objects.forEach((object, i) => {
+    const body = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), object, Buffer.from('\nendobj\n')]);
+    offsets.push(length);
+    parts.push(body);
+    length += body.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>`,
+    'startxref',
+    length.toString(),
+    '%%EOF',
+  ].join('\n');
+
+  parts.push(Buffer.from(`${xref}\n`));
+
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,525 @@
+import { deflateSync } from 'node:zlib';
+import { crc32 } from './crc32';
+
+/**
+ * QR Code encoder (ISO/IEC 18004) for ticket payloads: byte mode, error
+ * correction level M, versions 1-40 and the mask with the lowest penalty.
+ */
+
+// Modules are indexed [y][x]; true is dark
+export type QrMatrix = boolean[][];
+
+export interface QrRenderOptions {
+  moduleSize?: number; // Pixels (PNG) or user units (SVG) per module
+  margin?: number; // Quiet zone in modules; the standard asks for 4
+}
+
+// Level M error correction per version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28,
+  28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29,
+  31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+
+// Format information bits of level M
+const ECC_FORMAT_BITS = 0;
+
+function getBit(value: number, index: number) {
+  return ((value >>> index) & 1) !== 0;
+}
+
+/**
+ * Modules available for data and error correction in a version
+ */
+function getNumRawDataModules(version: number) {
+  let result = (16 * version + 128) * version + 64;
+
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+
+  return result;
+}
+
+function getNumDataCodewords(version: number) {
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version]
+  );
+}
+
+// ==================== REED-SOLOMON ====================
+
+/**
+ * Multiply in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+ */
+function gfMultiply(x: number, y: number) {
+  let z = 0;
+
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+
+  return z;
+}
+
+function reedSolomonDivisor(degree: number) {
+  const result: number[] = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+
+    root = gfMultiply(root, 0x02);
+  }
+
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const result: number[] = divisor.map(() => 0);
+
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+
+  return result;
+}
+
+// ==================== CODEWORDS ====================
+
+/**
+ * Encode the payload as byte-mode data codewords for the smallest version that fits
+ */
+function encodeData(bytes: Uint8Array) {
+  let version = 1;
+
+  for (; version <= 40; version++) {
+    const countBits = version < 10 ? 8 : 16;
+
+    if (4 + countBits + bytes.length * 8 <= getNumDataCodewords(version) * 8) {
+      break;
+    }
+  }
+
+  if (version > 40) {
+    throw new Error('Data too long for a QR code');
+  }
+
+  const capacityBits = getNumDataCodewords(version) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+
+  // Terminator, then pad to a byte boundary and fill with alternating pad bytes
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  return { version, codewords };
+}
+
+/**
+ * Split data into blocks, append error correction and interleave the blocks
+ */
+function addErrorCorrection(data: number[], version: number) {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+    offset += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+
+    // Short blocks get a placeholder so every block has the same length
+    if (i < numShortBlocks) {
+      block.push(0);
+    }
+
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+
+  return result;
+}
+
+// ==================== MATRIX ====================
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: QrMatrix;
+  private readonly isFunction: boolean[][];
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  private setFunctionModule(x: number, y: number, isDark: boolean) {
+    this.modules[y][x] = isDark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = this.getAlignmentPatternPositions();
+    const last = positions.length - 1;
+
+    positions.forEach((y, i) => {
+      positions.forEach((x, j) => {
+        // Skip the three corners taken by finder patterns
+        if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+          this.drawAlignmentPattern(x, y);
+        }
+      });
+    });
+
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFinderPattern(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private getAlignmentPatternPositions() {
+    if (this.version === 1) {
+      return [];
+    }
+
+    const numAlign = Math.floor(this.version / 7) + 2;
+    const step = Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+    const result = [6];
+
+    for (let position = this.size - 7; result.length < numAlign; position -= step) {
+      result.splice(1, 0, position);
+    }
+
+    return result;
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECC_FORMAT_BITS << 3) | mask;
+    let remainder = data;
+
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    // Around the top-left finder pattern
+    for (let i = 0; i <= 5; i++) {
+      this.setFunctionModule(8, i, getBit(bits, i));
+    }
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunctionModule(14 - i, 8, getBit(bits, i));
+    }
+
+    // Split between the other two finder patterns
+    for (let i = 0; i < 8; i++) {
+      this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+    }
+    this.setFunctionModule(8, this.size - 8, true);
+  }
+
+  private drawVersion() {
+    if (this.version < 7) {
+      return;
+    }
+
+    let remainder = this.version;
+
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const isDark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, isDark);
+      this.setFunctionModule(b, a, isDark);
+    }
+  }
+
+  /**
+   * Place codewords in the zigzag order, two columns at a time from the bottom right
+   */
+  drawCodewords(data: number[]) {
+    let i = 0;
+
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * XOR a mask pattern over the data modules; applying it twice undoes it
+   */
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        let invert: boolean;
+
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+
+        if (!this.isFunction[y][x] && invert) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalty of the current matrix: long runs, 2x2 blocks, finder-like
+   * patterns and dark/light imbalance
+   */
+  getPenaltyScore() {
+    let score = 0;
+    const lines: string[] = [];
+
+    for (let i = 0; i < this.size; i++) {
+      lines.push(this.modules[i].map((dark) => (dark ? '1' : '0')).join(''));
+      lines.push(this.modules.map((row) => (row[i] ? '1' : '0')).join(''));
+    }
+
+    for (const line of lines) {
+      for (const run of line.match(/0{5,}|1{5,}/g) ?? []) {
+        score += run.length - 2;
+      }
+
+      score += 40 * (line.match(/(?=10111010000|00001011101)/g)?.length ?? 0);
+    }
+
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const color = this.modules[y][x];
+
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          score += 3;
+        }
+      }
+    }
+
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = this.size * this.size;
+    score += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10;
+
+    return score;
+  }
+}
+
+/**
+ * Encode text (UTF-8) as a QR code matrix
+ */
+export function encodeQr(text: string): QrMatrix {
+  const { version, codewords } = encodeData(new TextEncoder().encode(text));
+  const builder = new QrBuilder(version);
+
+  builder.drawFunctionPatterns();
+  builder.drawCodewords(addErrorCorrection(codewords, version));
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+
+  for (let mask = 0; mask < 8; mask++) {
+    builder.applyMask(mask);
+    builder.drawFormatBits(mask);
+    const score = builder.getPenaltyScore();
+
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+
+    builder.applyMask(mask);
+  }
+
+  builder.applyMask(bestMask);
+  builder.drawFormatBits(bestMask);
+
+  return builder.modules;
+}
+
+// ==================== RENDERING ====================
+
+/**
+ * Render a QR matrix as an SVG document
+ */
+export function renderQrSvg(matrix: QrMatrix, options: QrRenderOptions = {}) {
+  const margin = options.margin ?? 4;
+  const moduleSize = options.moduleSize ?? 8;
+  const size = matrix.length + margin * 2;
+  const path: string[] = [];
+
+  matrix.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) {
+        path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+      }
+    });
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" width="${size * moduleSize}" height="${size * moduleSize}" shape-rendering="crispEdges">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<path d="${path.join('')}" fill="#000000"/>`,
+    '</svg>',
+  ].join('\n');
+}
+
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Render a QR matrix as a 1-bit grayscale PNG
+ */
+export function renderQrPng(matrix: QrMatrix, options: QrRenderOptions = {}) {
+  const margin = options.margin ?? 4;
+  const moduleSize = options.moduleSize ?? 8;
+  const width = (matrix.length + margin * 2) * moduleSize;
+  const rowBytes = Math.ceil(width / 8);
+  const raw = Buffer.alloc((rowBytes + 1) * width);
+
+  for (let py = 0; py < width; py++) {
+    const rowOffset = py * (rowBytes + 1); // First byte of each row is the filter type (none)
+    const y = Math.floor(py / moduleSize) - margin;
+
+    for (let px = 0; px < width; px++) {
+      const x = Math.floor(px / moduleSize) - margin;
+      const dark = y >= 0 && y < matrix.length && x >= 0 && x < matrix.length && matrix[y][x];
+
+      // In grayscale a set bit is white
+      if (!dark) {
+        raw[rowOffset + 1 + (px >>> 3)] |= 0x80 >>> (px & 7);
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(width, 4);
+  header[8] = 1; // Bit depth
+  header[9] = 0; // Grayscale
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,203 @@
+/**
+ * iCalendar-style (RFC 5545) recurrence rules, limited to the WEEKLY and
+ * MONTHLY frequencies used for event series.
+ */
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: 'weekly' | 'monthly';
+  interval: number;
+  byWeekday?: Weekday[];
+  byMonthDay?: number;
+  bySetPos?: number;
+  until?: Date;
+  count?: number;
+}
+
+const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date as an iCalendar UTC date-time (e.g. 20250301T120000Z)
+ */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse an iCalendar UTC date-time (e.g. 20250301T120000Z)
+ */
+function parseIcsDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    throw new Error(`Invalid recurrence date: ${value}`);
+  }
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+/**
+ * Serialize a recurrence rule to an RRULE value
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+
+  if (rule.byWeekday?.length) parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.bySetPos) parts.push(`BYSETPOS=${rule.bySetPos}`);
+  if (rule.until) parts.push(`UNTIL=${formatIcsDate(rule.until)}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Parse an RRULE value produced by formatRRule
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const fields = Object.fromEntries(
+    value
+      .replace(/^RRULE:/, '')
+      .split(';')
+      .map((part) => part.split('=') as [string, string])
+  );
+
+  if (fields.FREQ !== 'WEEKLY' && fields.FREQ !== 'MONTHLY') {
+    throw new Error(`Unsupported recurrence frequency: ${fields.FREQ}`);
+  }
+
+  return {
+    frequency: fields.FREQ === 'WEEKLY' ? 'weekly' : 'monthly',
+    interval: fields.INTERVAL ? parseInt(fields.INTERVAL, 10) : 1,
+    byWeekday: fields.BYDAY ? (fields.BYDAY.split(',') as Weekday[]) : undefined,
+    byMonthDay: fields.BYMONTHDAY ? parseInt(fields.BYMONTHDAY, 10) : undefined,
+    bySetPos: fields.BYSETPOS ? parseInt(fields.BYSETPOS, 10) : undefined,
+    until: fields.UNTIL ? parseIcsDate(fields.UNTIL) : undefined,
+    count: fields.COUNT ? parseInt(fields.COUNT, 10) : undefined,
+  };
+}
+
+/**
+ * Offset (ms) between wall-clock time in a time zone and UTC at a given instant
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert an instant to wall-clock time, represented as a UTC date
+ */
+function toWallClock(date: Date, timeZone: string): Date {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+}
+
+/**
+ * Convert wall-clock time (represented as a UTC date) back to an instant
+ */
+export function fromWallClock(wallClock: Date, timeZone: string): Date {
+  const guess = new Date(wallClock.getTime() - getTimeZoneOffset(wallClock, timeZone));
+  return new Date(wallClock.getTime() - getTimeZoneOffset(guess, timeZone));
+}
+
+/**
+ * Get the local calendar date (YYYY-MM-DD) of an instant in a time zone
+ */
+export function toLocalDateString(date: Date, timeZone: string): string {
+  return toWallClock(date, timeZone).toISOString().slice(0, 10);
+}
+
+/**
+ * Monday-based weekday index of a wall-clock date
+ */
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+/**
+ * Candidate wall-clock dates for one monthly period, in order
+ */
+function monthlyCandidates(rule: RecurrenceRule, year: number, month: number, start: Date): Date[] {
+  const at = (day: number) =>
+    new Date(Date.UTC(year, month, day, start.getUTCHours(), start.getUTCMinutes(), start.getUTCSeconds()));
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  if (rule.byWeekday?.length) {
+    const days: Date[] = [];
+    for (let day = 1; day <= daysInMonth; day++) {
+      const date = at(day);
+      if (rule.byWeekday.includes(WEEKDAYS[weekdayIndex(date)])) {
+        days.push(date);
+      }
+    }
+    if (!rule.bySetPos) return days;
+    const picked = rule.bySetPos > 0 ? days[rule.bySetPos - 1] : days[days.length + rule.bySetPos];
+    return picked ? [picked] : [];
+  }
+
+  // Months without the requested day (e.g. the 31st) are skipped, as in RFC 5545
+  const monthDay = rule.byMonthDay ?? start.getUTCDate();
+  return monthDay <= daysInMonth ? [at(monthDay)] : [];
+}
+
+/**
+ * Expand a recurrence rule into occurrence start instants.
+ * Rules are evaluated in wall-clock time so occurrences keep their local
+ * time across daylight saving changes. COUNT is applied before exceptions,
+ * which are local calendar dates (YYYY-MM-DD).
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  options: { timeZone: string; maxOccurrences: number; exceptions?: string[] }
+): Date[] {
+  const { timeZone, maxOccurrences, exceptions = [] } = options;
+  const start = toWallClock(dtstart, timeZone);
+  const until = rule.until ? toWallClock(rule.until, timeZone) : undefined;
+  const limit = Math.min(rule.count ?? maxOccurrences, maxOccurrences);
+  const occurrences: Date[] = [];
+
+  // Bounded so rules that rarely match (e.g. BYMONTHDAY=31) still terminate
+  for (let period = 0; occurrences.length < limit && period < maxOccurrences * 12; period++) {
+    let candidates: Date[];
+
+    if (rule.frequency === 'weekly') {
+      const weekStart = start.getTime() - weekdayIndex(start) * DAY_MS + period * rule.interval * 7 * DAY_MS;
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [WEEKDAYS[weekdayIndex(start)]];
+      candidates = WEEKDAYS.filter((day) => weekdays.includes(day)).map(
+        (day) => new Date(weekStart + WEEKDAYS.indexOf(day) * DAY_MS)
+      );
+    } else {
+      const month = start.getUTCMonth() + period * rule.interval;
+      candidates = monthlyCandidates(rule, start.getUTCFullYear() + Math.floor(month / 12), month % 12, start);
+    }
+
+    const pending = candidates.filter((candidate) => candidate >= start);
+    const reachedUntil = until !== undefined && pending.some((candidate) => candidate > until);
+
+    for (const candidate of pending) {
+      if ((until && candidate > until) || occurrences.length >= limit) break;
+      occurrences.push(candidate);
+    }
+
+    if (reachedUntil) break;
+  }
+
+  return occurrences
+    .filter((date) => !exceptions.includes(date.toISOString().slice(0, 10)))
+    .map((date) => fromWallClock(date, timeZone));
+}
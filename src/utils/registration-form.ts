@@ -0,0 +1,93 @@
+import type { RegistrationFormField, RegistrationAnswers } from '../types';
+
+// Text answers without an explicit limit
+const DEFAULT_ANSWER_MAX_LENGTH = 1000;
+
+/**
+ * Validate registration answers against an event's form. Returns the
+ * normalized answers; throws on the first invalid or missing answer.
+ */
+export function validateRegistrationAnswers(
+  form: RegistrationFormField[],
+  answers: Record<string, unknown> = {}
+): RegistrationAnswers {
+  const fieldsByKey = new Map(form.map((field) => [field.key, field]));
+  const unknownKey = Object.keys(answers).find((key) => !fieldsByKey.has(key));
+
+  if (unknownKey) {
+    throw new Error(`Unknown registration field "${unknownKey}"`);
+  }
+
+  const result: RegistrationAnswers = {};
+
+  for (const field of form) {
+    const value = answers[field.key];
+    const isEmpty =
+      value === undefined ||
+      value === null ||
+      (typeof value === 'string' && value.trim() === '') ||
+      (Array.isArray(value) && value.length === 0);
+
+    if (isEmpty) {
+      if (field.required) {
+        throw new Error(`"${field.label}" is required`);
+      }
+      continue;
+    }
+
+    switch (field.type) {
+      case 'text': {
+        if (typeof value !== 'string') {
+          throw new Error(`"${field.label}" must be text`);
+        }
+        const text = value.trim();
+        const maxLength = field.maxLength ?? DEFAULT_ANSWER_MAX_LENGTH;
+        if (text.length > maxLength) {
+          throw new Error(`"${field.label}" must be at most ${maxLength} characters`);
+        }
+        result[field.key] = text;
+        break;
+      }
+      case 'number': {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new Error(`"${field.label}" must be a number`);
+        }
+        if (field.min !== undefined && value < field.min) {
+          throw new Error(`"${field.label}" must be at least ${field.min}`);
+        }
+        if (field.max !== undefined && value > field.max) {
+          throw new Error(`"${field.label}" must be at most ${field.max}`);
+        }
+        result[field.key] = value;
+        break;
+      }
+      case 'checkbox': {
+        if (typeof value !== 'boolean') {
+          throw new Error(`"${field.label}" must be true or false`);
+        }
+        // A required checkbox has to be ticked, e.g. accepting the terms
+        if (field.required && !value) {
+          throw new Error(`"${field.label}" is required`);
+        }
+        result[field.key] = value;
+        break;
+      }
+      case 'choice': {
+        if (typeof value !== 'string' || !field.options?.includes(value)) {
+          throw new Error(`"${field.label}" must be one of: ${field.options?.join(', ')}`);
+        }
+        result[field.key] = value;
+        break;
+      }
+      case 'multi_choice': {
+        if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || !field.options?.includes(item))) {
+          throw new Error(`"${field.label}" must only contain: ${field.options?.join(', ')}`);
+        }
+        result[field.key] = Array.from(new Set(value as string[]));
+        break;
+      }
+    }
+  }
+
+  return result;
+}
@@ -28,14 +28,3 @@ export function generateTicketNumber(): string {
   return `TKT-${timestamp}-${random}`;
 }
 
-/**
- * Generate a QR code content string
- */
-export function generateQrCodeContent(eventId: string, ticketNumber: string): string {
-  return JSON.stringify({
-    eventId,
-    ticketNumber,
-    timestamp: Date.now(),
-  });
-}
-
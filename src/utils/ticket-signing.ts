@@ -0,0 +1,124 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import { sign, verify } from 'hono/jwt';
+import { config } from '../config';
+import { log } from '../middleware/logger';
+
+export interface TicketClaims {
+  registrationId: string;
+  eventId: string;
+  ticketNumber: string;
+}
+
+export interface TicketPublicKey extends JsonWebKey {
+  kid: string;
+}
+
+interface TicketKeys {
+  privateKey: JsonWebKey & { kid: string };
+  publicKey: TicketPublicKey;
+}
+
+let keys: TicketKeys | null = null;
+
+/**
+ * Load the private key from config. Without TICKET_SIGNING_KEY a throwaway
+ * key is generated in development, so issued QR codes stop verifying after a
+ * restart; production refuses to run without it, since every instance must
+ * sign and verify with the same key.
+ */
+function loadPrivateKey(): KeyObject {
+  if (!config.tickets.signingKey) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('TICKET_SIGNING_KEY must be set in production');
+    }
+
+    log.warn('TICKET_SIGNING_KEY is not set; signing tickets with a temporary key');
+    return generateKeyPairSync('ed25519').privateKey;
+  }
+
+  // Environment variables often carry PEM line breaks escaped
+  const privateKey = createPrivateKey(config.tickets.signingKey.replace(/\\n/g, '\n'));
+
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('TICKET_SIGNING_KEY must be an Ed25519 private key');
+  }
+
+  return privateKey;
+}
+
+/**
+ * Get the signing key pair as JWKs; the key ID is the RFC 7638 thumbprint
+ */
+function getKeys(): TicketKeys {
+  if (keys) {
+    return keys;
+  }
+
+  const privateKey = loadPrivateKey();
+  const publicJwk = createPublicKey(privateKey).export({ format: 'jwk' });
+  const kid = createHash('sha256')
+    .update(JSON.stringify({ crv: publicJwk.crv, kty: publicJwk.kty, x: publicJwk.x }))
+    .digest('base64url');
+
+  keys = {
+    privateKey: { ...privateKey.export({ format: 'jwk' }), kid },
+    publicKey: { ...publicJwk, kid, alg: 'EdDSA', use: 'sig' },
+  };
+
+  return keys;
+}
+
+/**
+ * Load the signing key at startup, so a missing or invalid key fails the
+ * deployment instead of the first ticket
+ */
+export function assertTicketSigningKey() {
+  getKeys();
+}
+
+/**
+ * Sign the QR payload of a ticket as a compact JWS (EdDSA), bound to its registration
+ */
+export async function signTicket(claims: TicketClaims): Promise<string> {
+  const payload = {
+    sub: claims.registrationId,
+    eid: claims.eventId,
+    tno: claims.ticketNumber,
+    iat: Math.floor(Date.now() / 1000),
+  };
+
+  return sign(payload, getKeys().privateKey, 'EdDSA');
+}
+
+/**
+ * Verify a QR payload; returns null when it is not a ticket signed by this server
+ */
+export async function verifyTicket(token: string): Promise<TicketClaims | null> {
+  try {
+    const payload = await verify(token, getKeys().publicKey, 'EdDSA');
+
+    if (typeof payload.sub !== 'string' || typeof payload.eid !== 'string' || typeof payload.tno !== 'string') {
+      return null;
+    }
+
+    return { registrationId: payload.sub, eventId: payload.eid, ticketNumber: payload.tno };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sign a check-in snapshot as a compact JWS (EdDSA) with the ticket key, so
+ * scanners verify it with the same public key as the QR codes
+ */
+export async function signSnapshot(payload: Record<string, unknown> & { iat: number; exp: number }): Promise<string> {
+  return sign(payload, getKeys().privateKey, 'EdDSA');
+}
+
+/**
+ * Public key scanners use to verify tickets offline
+ */
+export function getTicketPublicKey(): TicketPublicKey {
+  return getKeys().publicKey;
+}
@@ -0,0 +1,385 @@
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+import { crc32 } from './crc32';
+
+/**
+ * Minimal Office Open XML workbooks (.xlsx): writes one worksheet with a bold,
+ * frozen header row, text as inline strings and numbers as numbers, and reads
+ * the values of the first worksheet of a workbook saved by a spreadsheet
+ */
+
+export type XlsxValue = string | number | null | undefined;
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Most bytes unpacked from an uploaded workbook, so a small archive cannot inflate to gigabytes
+const MAX_UNPACKED_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Escape text for XML, dropping control characters XML 1.0 does not allow
+ */
+function escapeXml(text: string) {
+  return text
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Decode the predefined and numeric character references of XML text
+ */
+function unescapeXml(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Column letters for a zero-based index: 0 is A, 26 is AA
+ */
+function columnName(index: number) {
+  let name = '';
+
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+
+  return name;
+}
+
+function renderCell(value: XlsxValue, ref: string, style: number) {
+  const styleAttr = style ? ` s="${style}"` : '';
+
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+  }
+
+  return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function renderSheet(rows: XlsxValue[][]) {
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+
+  // Fit columns to their longest value, within reason
+  const widths = Array.from({ length: columnCount }, (_, i) =>
+    Math.min(60, Math.max(8, ...rows.map((row) => String(row[i] ?? '').length + 2)))
+  );
+  const cols = widths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('');
+
+  const sheetRows = rows
+    .map((row, r) => {
+      const cells = row.map((value, c) => renderCell(value, `${columnName(c)}${r + 1}`, r === 0 ? 1 : 0)).join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  return (
+    XML_HEADER +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${sheetRows}</sheetData>` +
+    '</worksheet>'
+  );
+}
+
+/**
+ * DOS date and time fields of a ZIP header
+ */
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Pack files into a ZIP archive with deflate compression
+ */
+function buildZip(entries: ZipEntry[]): Buffer {
+  const { time, date } = dosDateTime(new Date());
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // Version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // Deflate
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Build a workbook with a single worksheet, the first row being the header
+ */
+export function buildXlsx(sheetName: string, rows: XlsxValue[][]): Buffer {
+  // Sheet names are limited to 31 characters and cannot contain []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1');
+  const xml = (text: string) => Buffer.from(text, 'utf8');
+
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      data: xml(
+        XML_HEADER +
+          '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+          '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+          '</Types>'
+      ),
+    },
+    {
+      name: '_rels/.rels',
+      data: xml(
+        XML_HEADER +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+          '</Relationships>'
+      ),
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: xml(
+        XML_HEADER +
+          '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+          `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>` +
+          '</workbook>'
+      ),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: xml(
+        XML_HEADER +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+          '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+          '</Relationships>'
+      ),
+    },
+    {
+      // Style 1 is the bold header
+      name: 'xl/styles.xml',
+      data: xml(
+        XML_HEADER +
+          '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+          '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+          '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+          '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+          '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+          '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+          '</styleSheet>'
+      ),
+    },
+    { name: 'xl/worksheets/sheet1.xml', data: xml(renderSheet(rows)) },
+  ]);
+}
+
+/**
+ * Unpack the files of a ZIP archive, using its central directory. Archives
+ * unpacking to more than MAX_UNPACKED_BYTES are refused.
+ */
+function readZip(data: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let unpacked = 0;
+  let end = -1;
+
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+
+  if (end < 0) {
+    throw new Error('Invalid XLSX file');
+  }
+
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+
+  for (let n = 0; n < count; n++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Invalid XLSX file');
+    }
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const uncompressedSize = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+
+    const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const content = data.subarray(dataStart, dataStart + compressedSize);
+
+    if (unpacked + uncompressedSize > MAX_UNPACKED_BYTES) {
+      throw new Error('The XLSX file is too large');
+    }
+
+    if (method === 0) {
+      files.set(name, content);
+      unpacked += content.length;
+    } else if (method === 8) {
+      // The declared size may lie, so inflating is capped as well
+      try {
+        const inflated = inflateRawSync(content, { maxOutputLength: MAX_UNPACKED_BYTES - unpacked });
+        files.set(name, inflated);
+        unpacked += inflated.length;
+      } catch (err) {
+        throw new Error(err instanceof RangeError ? 'The XLSX file is too large' : 'Invalid XLSX file');
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
+
+/**
+ * Zero-based column index of a cell reference such as "AB12"
+ */
+function columnIndex(ref: string) {
+  let index = 0;
+
+  for (const char of ref.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + char.charCodeAt(0) - 64;
+  }
+
+  return index - 1;
+}
+
+/**
+ * Text of a shared or inline string, joining the runs of rich text
+ */
+function readText(xml: string) {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => unescapeXml(match[1])).join('');
+}
+
+/**
+ * Read the first worksheet of a workbook as rows of text values. Numbers keep
+ * their stored form, so dates come back as serial day numbers. Rows the file
+ * leaves out come back empty, so row positions match the spreadsheet.
+ */
+export function readXlsx(data: Buffer): string[][] {
+  const files = readZip(data);
+  const read = (name: string) => files.get(name)?.toString('utf8');
+
+  // The first sheet listed in the workbook, located through its relationship
+  const workbook = read('xl/workbook.xml') ?? '';
+  const relations = read('xl/_rels/workbook.xml.rels') ?? '';
+  const relationId = workbook.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1];
+  const target = relationId
+    ? [...relations.matchAll(/<Relationship\s[^>]*>/g)]
+        .map((match) => match[0])
+        .find((tag) => tag.includes(`Id="${relationId}"`))
+        ?.match(/Target="([^"]+)"/)?.[1]
+    : undefined;
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+  const sheet = read(sheetPath);
+
+  if (!sheet) {
+    throw new Error('The XLSX file has no worksheet');
+  }
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) =>
+    readText(match[1])
+  );
+
+  const rows: string[][] = [];
+
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(rowMatch[1].match(/\br="(\d+)"/)?.[1] ?? rows.length + 1);
+
+    while (rows.length < rowNumber - 1) {
+      rows.push([]);
+    }
+
+    const row: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] ?? '';
+      const ref = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const value = unescapeXml(content.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+      const index = ref ? columnIndex(ref) : row.length;
+
+      while (row.length < index) {
+        row.push('');
+      }
+
+      if (type === 's') {
+        row[index] = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        row[index] = readText(content);
+      } else if (type === 'b') {
+        row[index] = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        row[index] = value;
+      }
+    }
+
+    rows.push(row);
+  }
+
+  return rows;
+}